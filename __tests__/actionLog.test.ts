@@ -0,0 +1,54 @@
+import { describe, expect, test } from '@jest/globals';
+import { appendAction, createAction, describeAction, undoRedoState, type ActionEntry } from "@/lib/actionLog";
+
+const ts = "2026-01-01T12:00:00.000Z";
+
+describe("actionLog.ts - unit tests", () => {
+    const plus = createAction("Acceleration", { kind: "queue", lane: 0, delta: 1 }, ts);
+    const minus = createAction("Acceleration", { kind: "queue", lane: 1, delta: -1 }, ts);
+    const lanes = createAction("Acceleration", { kind: "lanes", from: 1, to: 2 }, ts);
+
+    const build = (...entries: ActionEntry[]) => entries.reduce(appendAction, [] as ActionEntry[]);
+
+    test("undo walks back through applied actions and redo replays them", () => {
+        let log = build(plus, lanes, minus);
+        expect(undoRedoState(log).undoable).toBe(minus);
+
+        log = appendAction(log, createAction("Acceleration", { kind: "undo", target: minus.id }, ts));
+        log = appendAction(log, createAction("Acceleration", { kind: "undo", target: lanes.id }, ts));
+        let state = undoRedoState(log);
+        expect(state.undoable).toBe(plus);
+        expect(state.redoable).toBe(lanes);
+        expect([...state.undoneIds].sort()).toEqual([lanes.id, minus.id].sort());
+
+        log = appendAction(log, createAction("Acceleration", { kind: "redo", target: lanes.id }, ts));
+        state = undoRedoState(log);
+        expect(state.undoable).toBe(lanes);
+        expect(state.redoable).toBe(minus);
+        expect([...state.undoneIds]).toEqual([minus.id]);
+    });
+
+    test("a new action clears the redo stack", () => {
+        let log = build(plus, createAction("Acceleration", { kind: "undo", target: plus.id }, ts));
+        expect(undoRedoState(log).redoable).toBe(plus);
+
+        log = appendAction(log, lanes);
+        const state = undoRedoState(log);
+        expect(state.redoable).toBeNull();
+        expect(state.undoable).toBe(lanes);
+        expect(state.undoneIds.has(plus.id)).toBe(true);
+    });
+
+    test("describeAction names the action and the target of undo entries", () => {
+        const completion = createAction(
+            "Acceleration",
+            { kind: "completion", op: "add", completion: { eventName: "Acceleration", timestamp: ts, carNo: "42", lane: 1 } },
+            ts
+        );
+        const undo = createAction("Acceleration", { kind: "undo", target: completion.id }, ts);
+        expect(describeAction(minus)).toBe("Queue − (lane 2)");
+        expect(describeAction(undo, [completion, undo])).toBe("Undo: Completion car 42 (lane 2)");
+        expect(describeAction(createAction("", { kind: "mode", from: { useSAE: true, hybrid: false }, to: { useSAE: true, hybrid: true } }, ts)))
+            .toBe("Mode SAE → Hybrid");
+    });
+});
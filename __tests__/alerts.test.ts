@@ -0,0 +1,64 @@
+import { describe, expect, test } from '@jest/globals';
+import { createAlertRule, describeAlertRule, evaluateAlertRules, type AlertInputs, type AlertRule } from "@/lib/alerts";
+
+const ts = "2026-01-01T12:00:00.000Z";
+const t0 = new Date(ts).getTime();
+
+const rule = (kind: AlertRule["kind"], threshold: number) => createAlertRule("Acceleration", kind, threshold, ts)!;
+const inputs = (over: Partial<AlertInputs>): Record<string, AlertInputs> => ({
+    Acceleration: { lineLength: 10, etaMinutes: 30, lastRunMs: t0, ...over },
+});
+
+describe("alerts.ts - unit tests", () => {
+    test("createAlertRule rejects non-positive thresholds", () => {
+        expect(createAlertRule("Acceleration", "lineBelow", 0, ts)).toBeNull();
+        expect(createAlertRule("Acceleration", "lineBelow", NaN, ts)).toBeNull();
+        expect(rule("etaUnder", 10)).toMatchObject({ enabled: true, fired: false, threshold: 10 });
+    });
+
+    test("describeAlertRule", () => {
+        expect(describeAlertRule({ kind: "lineBelow", threshold: 5 })).toBe("Line below 5");
+        expect(describeAlertRule({ kind: "etaUnder", threshold: 10 })).toBe("ETA under 10 min");
+        expect(describeAlertRule({ kind: "rateZero", threshold: 3 })).toBe("No runs for 3 min");
+    });
+
+    test("a rule fires once when its condition becomes true and re-arms when it clears", () => {
+        const rules = [rule("lineBelow", 5)];
+
+        const quiet = evaluateAlertRules(rules, inputs({ lineLength: 8 }), t0);
+        expect(quiet.fired).toHaveLength(0);
+        expect(quiet.rules).toBe(rules);
+
+        const first = evaluateAlertRules(rules, inputs({ lineLength: 4 }), t0);
+        expect(first.fired).toHaveLength(1);
+        expect(first.fired[0]).toMatchObject({ eventName: "Acceleration", ts });
+        expect(first.fired[0].message).toContain("below 5");
+
+        const again = evaluateAlertRules(first.rules, inputs({ lineLength: 3 }), t0 + 1000);
+        expect(again.fired).toHaveLength(0);
+        expect(again.rules).toBe(first.rules);
+
+        const cleared = evaluateAlertRules(again.rules, inputs({ lineLength: 6 }), t0 + 2000);
+        expect(cleared.rules[0].fired).toBe(false);
+        expect(evaluateAlertRules(cleared.rules, inputs({ lineLength: 2 }), t0 + 3000).fired).toHaveLength(1);
+    });
+
+    test("ETA rules ignore a missing ETA", () => {
+        const rules = [rule("etaUnder", 10)];
+        expect(evaluateAlertRules(rules, inputs({ etaMinutes: undefined }), t0).fired).toHaveLength(0);
+        expect(evaluateAlertRules(rules, inputs({ etaMinutes: 9.5 }), t0).fired).toHaveLength(1);
+    });
+
+    test("no-run rules wait for the first run and then the idle span", () => {
+        const rules = [rule("rateZero", 3)];
+        expect(evaluateAlertRules(rules, inputs({ lastRunMs: null }), t0 + 600000).fired).toHaveLength(0);
+        expect(evaluateAlertRules(rules, inputs({}), t0 + 2 * 60000).fired).toHaveLength(0);
+        expect(evaluateAlertRules(rules, inputs({}), t0 + 3 * 60000).fired).toHaveLength(1);
+    });
+
+    test("disabled rules and rules for untracked events are skipped", () => {
+        const off = { ...rule("lineBelow", 5), enabled: false };
+        const other = { ...rule("lineBelow", 5), eventName: "Skidpad" };
+        expect(evaluateAlertRules([off, other], inputs({ lineLength: 0 }), t0).fired).toHaveLength(0);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, test } from '@jest/globals';
+import { downsample, niceMax, seriesFromSamples } from "@/lib/charts";
+
+const sample = (eventName: string, timestamp: string, lineLength: number, etaMinutes: number | null) => ({
+    eventName,
+    timestamp,
+    lineLength,
+    windowMin: null,
+    runRate: 1,
+    etaMinutes,
+});
+
+describe("charts.ts - unit tests (series helpers)", () => {
+    test("seriesFromSamples keeps one event's samples oldest first and turns missing values into gaps", () => {
+        const samples = [
+            sample("Acceleration", "2026-01-01T12:02:00.000Z", 4, null),
+            sample("Suspension", "2026-01-01T12:01:30.000Z", 9, 3),
+            sample("Acceleration", "2026-01-01T12:01:00.000Z", 5, 2.5),
+            sample("Acceleration", "2026-01-01T11:00:00.000Z", 1, 1),
+        ];
+        const from = new Date("2026-01-01T12:00:00.000Z").getTime();
+
+        expect(seriesFromSamples(samples, "Acceleration", "lineLength", from).map((p) => p.v)).toEqual([5, 4]);
+        expect(seriesFromSamples(samples, "Acceleration", "etaMinutes", from).map((p) => p.v)).toEqual([2.5, null]);
+    });
+
+    test("downsample caps the number of points and keeps the latest value", () => {
+        const points = Array.from({ length: 500 }, (_, i) => ({ t: i * 1000, v: i }));
+        const reduced = downsample(points, 50);
+        expect(reduced.length).toBeLessThanOrEqual(50);
+        expect(reduced[reduced.length - 1].v).toBe(499);
+    });
+
+    test("niceMax rounds up to 1, 2 or 5 times a power of ten", () => {
+        expect(niceMax(0)).toBe(1);
+        expect(niceMax(3.2)).toBe(5);
+        expect(niceMax(12)).toBe(20);
+        expect(niceMax(50)).toBe(50);
+    });
+});
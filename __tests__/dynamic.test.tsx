@@ -2,15 +2,19 @@ import React from "react";
 import { Alert, Text, Pressable } from "react-native";
 import { render, fireEvent, act } from "@testing-library/react-native";
 import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { readFileSync } from "fs";
+import { join } from "path";
 import DynamicTab, {
     parseCarsWithResults,
     parseLastDataUpdate,
-    updateSeenCars,
     hasRecentNewCarSeen,
+    restoreEventState,
 } from "@/app/(tabs)/dynamic";
 
+// Connectivity; tests that go offline set it back in beforeEach
+let mockOnline = true;
 jest.mock("@/offline/OnlineProvider", () => ({
-    useOnline: () => true,
+    useOnline: () => mockOnline,
 }));
 
 jest.mock("@/components/ui/AppHeader", () => {
@@ -73,6 +77,18 @@ jest.mock("react-native-dropdown-picker", () => {
     };
 });
 
+// AsyncStorage mock
+const mockGetItem = jest.fn(undefined);
+const mockSetItem = jest.fn(undefined);
+
+jest.mock("@react-native-async-storage/async-storage", () => ({
+    __esModule: true,
+    default: {
+        getItem: (...args: any[]) => mockGetItem(...args),
+        setItem: (...args: any[]) => mockSetItem(...args),
+    },
+}));
+
 // SAE polling uses fetch; keep it deterministic
 global.fetch = jest.fn(async () => ({
     ok: true,
@@ -100,12 +116,10 @@ describe("dynamic.tsx - unit tests (pure helpers)", () => {
         expect(typeof parsed?.ms).toBe("number");
     });
 
-    test("updateSeenCars prepends new cars and caps at 800", () => {
-        const existing = [{ carNo: "1", firstSeenTs: "2026-01-01T00:00:00.000Z" }];
-        const next = updateSeenCars(existing as any, ["1", "2", "3"], "2026-01-01T00:00:10.000Z");
-        expect(next[0].carNo).toBe("2");
-        expect(next[1].carNo).toBe("3");
-        expect(next[2].carNo).toBe("1");
+    test("parseLastDataUpdate reads the timestamp in the venue time zone", () => {
+        const html = `<span>Last Data Update:&nbsp;05/16/2026 10:42:17 AM</span>`;
+        expect(new Date(parseLastDataUpdate(html, "America/Chicago")!.ms).toISOString()).toBe("2026-05-16T15:42:17.000Z");
+        expect(new Date(parseLastDataUpdate(html, "America/Los_Angeles")!.ms).toISOString()).toBe("2026-05-16T17:42:17.000Z");
     });
 
     test("hasRecentNewCarSeen detects cars within freshness window", () => {
@@ -113,12 +127,257 @@ describe("dynamic.tsx - unit tests (pure helpers)", () => {
         const seen = [{ carNo: "9", firstSeenTs: new Date(now - 10_000).toISOString() }];
         expect(hasRecentNewCarSeen(seen as any, now)).toBe(true);
     });
+
+    test("restoreEventState keeps a recent save but marks old SAE results stale", () => {
+        const now = new Date("2026-01-01T12:00:00.000Z").getTime();
+        const saved = {
+            eventName: "Acceleration",
+            useSAE: true,
+            lineLength: 4,
+            manualStartTs: "2026-01-01T11:00:00.000Z",
+            saeSeen: [{ carNo: "42", firstSeenTs: "2026-01-01T11:30:00.000Z" }],
+            saeLastUpdateMs: null,
+            saeLastUpdateRaw: null,
+            savedAt: "2026-01-01T11:59:50.000Z",
+        };
+
+        const recent = restoreEventState(saved, "Acceleration", now);
+        expect(recent.lineLength).toBe(4);
+        expect(recent.manualStartTs).toBe("2026-01-01T11:00:00.000Z");
+        expect(recent.saeSeen[0].stale).toBeUndefined();
+
+        const old = restoreEventState({ ...saved, savedAt: "2026-01-01T11:00:00.000Z" }, "Acceleration", now);
+        expect(old.saeSeen[0].stale).toBe(true);
+        expect(hasRecentNewCarSeen(old.saeSeen, now)).toBe(false);
+
+        expect(restoreEventState(undefined, "Suspension", now).lineLength).toBe(0);
+    });
 });
 
 describe("DynamicTab - component tests (user-centric interactions)", () => {
     beforeEach(() => {
         jest.spyOn(Alert, "alert").mockImplementation(() => { });
+        mockOnline = true;
         (global.fetch as any).mockClear?.();
+        mockGetItem.mockReset();
+        mockGetItem.mockResolvedValue(null);
+        mockSetItem.mockResolvedValue(undefined);
+    });
+
+    test("restores every tracked event's queue and shows them side by side", async () => {
+        const savedEvent = (eventName: string, lineLength: number) => ({
+            eventName,
+            useSAE: false,
+            lineLength,
+            manualStartTs: null,
+            saeSeen: [],
+            saeLastUpdateMs: null,
+            saeLastUpdateRaw: null,
+            savedAt: new Date().toISOString(),
+        });
+        const saved: Record<string, unknown> = {
+            "mobilescout:dynamic:selectedEvent": "Acceleration",
+            "mobilescout:dynamic:events": [savedEvent("Acceleration", 7), savedEvent("Maneuverability", 3)],
+        };
+        mockGetItem.mockImplementation(async (key: any) =>
+            key in saved ? JSON.stringify(saved[key]) : null
+        );
+
+        const { findByLabelText, getByText, getByLabelText } = render(<DynamicTab />);
+        expect(await findByLabelText("Cars in line: 7")).toBeTruthy();
+        expect(getByText("All Events")).toBeTruthy();
+        expect(getByText(/Line 3 ·/)).toBeTruthy();
+
+        // Switching events swaps in that event's own queue
+        fireEvent.press(getByLabelText("Show Maneuverability"));
+        expect(getByLabelText("Cars in line: 3")).toBeTruthy();
+    });
+
+    test("splits a restored queue into lanes and moves cars when lanes are removed", async () => {
+        const saved: Record<string, unknown> = {
+            "mobilescout:dynamic:selectedEvent": "Acceleration",
+            "mobilescout:dynamic:events": [{
+                eventName: "Acceleration",
+                useSAE: false,
+                lineLength: 5,
+                laneLines: [3, 2],
+                manualStartTs: null,
+                saeSeen: [],
+                saeLastUpdateMs: null,
+                saeLastUpdateRaw: null,
+                savedAt: new Date().toISOString(),
+            }],
+        };
+        mockGetItem.mockImplementation(async (key: any) =>
+            key in saved ? JSON.stringify(saved[key]) : null
+        );
+
+        const { findByLabelText, getByLabelText } = render(<DynamicTab />);
+        expect(await findByLabelText("Lane 1 cars in line: 3")).toBeTruthy();
+        expect(getByLabelText("Lane 2 cars in line: 2")).toBeTruthy();
+        expect(getByLabelText("Cars in line: 5")).toBeTruthy();
+
+        fireEvent.press(getByLabelText("Use 1 lane"));
+        expect(getByLabelText("Cars in line: 5")).toBeTruthy();
+    });
+
+    test("undoes and redoes queue presses from the action log", async () => {
+        const { getAllByText, getByText, getByLabelText } = render(<DynamicTab />);
+        // Let the saved state load first so it doesn't replace the selection
+        await act(async () => { });
+        fireEvent.press(getByLabelText("Select event..."));
+
+        fireEvent.press(getAllByText("+")[0]);
+        fireEvent.press(getAllByText("+")[0]);
+        expect(getByLabelText("Cars in line: 2")).toBeTruthy();
+
+        fireEvent.press(getByText("Undo"));
+        expect(getByLabelText("Cars in line: 1")).toBeTruthy();
+        fireEvent.press(getByText("Undo"));
+        expect(getByLabelText("Cars in line: 0")).toBeTruthy();
+
+        fireEvent.press(getByText("Redo"));
+        expect(getByLabelText("Cars in line: 1")).toBeTruthy();
+        expect(getByText("Undo: Queue + (Acceleration)")).toBeTruthy();
+    });
+
+    /**
+     * Tracks our car at position 10 with SAE off, turns SAE on against the accel fixture, then
+     * polls a second board with `newRow` added. Returns the render after each board.
+     */
+    async function ourCarOverTwoBoards(newRow: string, afterFirst: (r: ReturnType<typeof render>) => void) {
+        // The fixture's Last Data Update, read in the device zone, is 8 s old
+        jest.setSystemTime(new Date(2026, 4, 16, 9, 15, 10));
+        const first = readFileSync(join(__dirname, "fixtures", "leaderboard-accel.html"), "utf8");
+        const second = first
+            .replace("09:15:02 AM", "09:15:30 AM")
+            .replace("<tr><td></td><td></td>", `${newRow}<tr><td></td><td></td>`);
+        let page = first;
+        (global.fetch as any).mockImplementation(async () => ({ ok: true, text: async () => page }));
+        mockGetItem.mockImplementation(async (key: any) =>
+            key === "mobilescout:dynamic:selectedEvent"
+                ? JSON.stringify("Acceleration")
+                : key === "mobilescout:dynamic:events"
+                    ? JSON.stringify([{
+                        eventName: "Acceleration",
+                        useSAE: false,
+                        lineLength: 0,
+                        manualStartTs: null,
+                        saeSeen: [],
+                        saeLastUpdateMs: null,
+                        saeLastUpdateRaw: null,
+                        savedAt: new Date().toISOString(),
+                    }])
+                    : null
+        );
+
+        const r = render(<DynamicTab />);
+        fireEvent.changeText(await r.findByLabelText("Our car position"), "10");
+        fireEvent.press(r.getByText("Track Our Car"));
+        expect(r.getByLabelText("Cars ahead of us: 9")).toBeTruthy();
+
+        fireEvent.press(r.getByLabelText("Use SAE mode"));
+        await act(async () => { });
+        expect(await r.findByText(/^SAE OK/)).toBeTruthy();
+        afterFirst(r);
+
+        page = second;
+        await act(async () => {
+            jest.setSystemTime(new Date(2026, 4, 16, 9, 15, 35));
+            jest.advanceTimersByTime(25000);
+        });
+        await act(async () => { });
+        return r;
+    }
+
+    test("our car counts down from the second fresh leaderboard, not the first", async () => {
+        jest.useFakeTimers();
+        try {
+            const r = await ourCarOverTwoBoards(
+                "<tr><td>4</td><td>88</td><td>Clemson University</td><td>4.300</td></tr>",
+                // The first board only sets the baseline
+                (first) => expect(first.getByLabelText("Cars ahead of us: 9")).toBeTruthy()
+            );
+            // A car posting a result on the next board ran ahead of ours
+            expect(r.getByLabelText("Cars ahead of us: 8")).toBeTruthy();
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    test("a new car whose first result is a DNF still ran ahead of ours", async () => {
+        jest.useFakeTimers();
+        try {
+            const r = await ourCarOverTwoBoards(
+                "<tr><td></td><td>88</td><td>Clemson University</td><td>DNF</td></tr>",
+                (first) => expect(first.getByLabelText("Cars ahead of us: 9")).toBeTruthy()
+            );
+            expect(r.getByLabelText("Cars ahead of us: 8")).toBeTruthy();
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    /** Restores one tracked event with SAE mode on and the given results source, and selects it. */
+    function restoreWithSource(eventName: string, resultsSource: unknown) {
+        const saved: Record<string, unknown> = {
+            "mobilescout:dynamic:selectedEvent": eventName,
+            "mobilescout:dynamic:events": [{
+                eventName,
+                useSAE: true,
+                resultsSource,
+                lineLength: 0,
+                manualStartTs: null,
+                saeSeen: [],
+                saeLastUpdateMs: null,
+                saeLastUpdateRaw: null,
+                savedAt: new Date().toISOString(),
+            }],
+        };
+        mockGetItem.mockImplementation(async (key: any) =>
+            key in saved ? JSON.stringify(saved[key]) : null
+        );
+    }
+
+    test("a results URL or file feeds the run rate of an event without an SAE code", async () => {
+        // Not in the catalogue, so it has no SAE code
+        restoreWithSource("Hill Climb", { kind: "url", url: "https://example.com/hill-climb.csv" });
+        const online = render(<DynamicTab />);
+        expect(await online.findByText(/^Run Rate \(SAE/)).toBeTruthy();
+        online.unmount();
+
+        // A local file still polls offline; a URL doesn't
+        mockOnline = false;
+        restoreWithSource("Hill Climb", { kind: "file", path: "results/hill-climb.csv" });
+        const file = render(<DynamicTab />);
+        expect(await file.findByText(/^Run Rate \(SAE/)).toBeTruthy();
+        file.unmount();
+
+        restoreWithSource("Hill Climb", { kind: "url", url: "https://example.com/hill-climb.csv" });
+        const url = render(<DynamicTab />);
+        expect(await url.findByText("Offline (SAE paused)")).toBeTruthy();
+        expect(url.getByText(/^Run Rate \(Manual,/)).toBeTruthy();
+        url.unmount();
+    });
+
+    test("a replay feeds the run rate while offline", async () => {
+        mockOnline = false;
+        restoreWithSource("Acceleration", { kind: "sae" });
+        const html = readFileSync(join(__dirname, "fixtures", "leaderboard-accel.html"), "utf8");
+        const bundle = { captures: [{ capturedAt: "2026-05-16T14:15:02Z", html }] };
+        (global.fetch as any).mockImplementation(async () => ({ ok: true, text: async () => JSON.stringify(bundle) }));
+
+        const r = render(<DynamicTab />);
+        expect(await r.findByText("Offline (SAE paused)")).toBeTruthy();
+        expect(r.getByText(/^Run Rate \(Manual,/)).toBeTruthy();
+
+        fireEvent.changeText(r.getByLabelText("Replay bundle URL"), "https://example.com/accel.json");
+        fireEvent.press(r.getByText("Load"));
+        fireEvent.press(await r.findByText("Replay into Acceleration"));
+        const buttons = (Alert.alert as any).mock.calls.at(-1)[2];
+        await act(async () => buttons.find((b: any) => b.text === "Replay").onPress());
+
+        expect(await r.findByText(/^Run Rate \(SAE/)).toBeTruthy();
     });
 
     test("shows SAE prompt before selecting an event", () => {
@@ -2,7 +2,15 @@ import React from "react";
 import { Keyboard, Text, Pressable } from "react-native";
 import { render, fireEvent, act } from "@testing-library/react-native";
 import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
-import EnduranceTab, { fmtDuration, computeOffTrack } from "@/app/(tabs)/endurance";
+import EnduranceTab, {
+    fmtDuration,
+    computeOffTrack,
+    computeLapStats,
+    computeLapBoard,
+    MAX_PIT_LOGS,
+    type Lap,
+    type Pit,
+} from "@/app/(tabs)/endurance";
 
 jest.mock("@/components/ui/AppHeader", () => {
     const React = require("react");
@@ -96,14 +104,90 @@ describe("endurance.tsx - unit tests (pure helpers)", () => {
         expect(off.currentOffSeconds).toBe(0);
         expect(off.totalOffSeconds).toBeCloseTo(120, 0);
     });
+
+    const pass = (carNumber: string, time: string, sessionId = "2026-02-01"): Lap => ({
+        carNumber,
+        timestamp: `2026-02-01T${time}.000Z`,
+        sessionId,
+    });
+    const pit = (direction: "in" | "out", time: string): Pit => ({
+        carNumber: "42",
+        direction,
+        station: direction === "in" ? "entry" : "exit",
+        timestamp: `2026-02-01T${time}.000Z`,
+        sessionId: "2026-02-01",
+    });
+
+    test("computeLapStats times laps between passes and leaves pit laps out of the pace", () => {
+        const laps = [
+            pass("42", "00:00:00"),
+            pass("42", "00:07:00"),
+            pass("42", "00:13:40"),
+            pass("42", "00:25:40"),
+            pass("42", "00:32:20"),
+        ];
+        const pits = [pit("in", "00:15:00"), pit("out", "00:20:00")];
+
+        const stats = computeLapStats(laps, pits, " 42 ");
+        expect(stats).toEqual({
+            laps: 4,
+            lastSeconds: 400,
+            lastWasPit: false,
+            bestSeconds: 400,
+            averageSeconds: (420 + 400 + 400) / 3,
+            cleanLaps: 3,
+        });
+        expect(computeLapStats(laps.slice(0, 4), pits, "42")).toMatchObject({ lastSeconds: 720, lastWasPit: true });
+    });
+
+    test("computeLapStats counts a stop still open as a pit and doesn't join passes across sessions", () => {
+        const open = computeLapStats([pass("42", "00:00:00"), pass("42", "00:07:00")], [pit("in", "00:05:00")], "42");
+        expect(open).toMatchObject({ laps: 1, bestSeconds: null, averageSeconds: null, cleanLaps: 0 });
+
+        const split = computeLapStats([pass("42", "00:00:00"), pass("42", "00:07:00", "2026-02-02")], [], "42");
+        expect(split.laps).toBe(0);
+        expect(split.lastSeconds).toBeNull();
+    });
+
+    test("computeLapStats leaves laps older than a full pit log out of the pace", () => {
+        const laps = [pass("42", "00:00:00"), pass("42", "00:05:00"), pass("42", "00:12:00"), pass("42", "00:19:00")];
+        // The stop during the first lap was trimmed off; only its Pit Out is left, among other cars' stops
+        const pits: Pit[] = [
+            pit("out", "00:04:00"),
+            ...Array.from({ length: MAX_PIT_LOGS - 1 }, () => ({ ...pit("in", "00:20:00"), carNumber: "7" })),
+        ];
+
+        expect(computeLapStats(laps, pits, "42")).toMatchObject({
+            laps: 3,
+            bestSeconds: 420,
+            averageSeconds: 420,
+            cleanLaps: 2,
+        });
+        // With room left in the log, nothing was trimmed and the first lap counts
+        expect(computeLapStats(laps, pits.slice(0, 10), "42")).toMatchObject({ bestSeconds: 300, cleanLaps: 3 });
+    });
+
+    test("computeLapBoard lists each car, most laps first", () => {
+        const laps = [
+            pass("7", "00:00:00"),
+            pass("42", "00:00:10"),
+            pass("7", "00:06:00"),
+            pass("42", "00:06:50"),
+            pass("42", "00:13:30"),
+        ];
+        expect(computeLapBoard(laps, []).map((r) => [r.carNumber, r.laps, r.bestSeconds])).toEqual([
+            ["42", 2, 400],
+            ["7", 1, 360],
+        ]);
+    });
 });
 
 describe("EnduranceTab - component tests (user-centric interactions)", () => {
     beforeEach(() => {
         jest.useFakeTimers();
         jest.setSystemTime(new Date("2026-02-01T00:00:00.000Z"));
-        mockGetItem.mockResolvedValue(null);
-        mockSetItem.mockResolvedValue(undefined);
+        mockGetItem.mockReset().mockResolvedValue(null);
+        mockSetItem.mockReset().mockResolvedValue(undefined);
         jest.spyOn(Keyboard, "dismiss").mockImplementation(() => { });
     });
 
@@ -157,4 +241,43 @@ describe("EnduranceTab - component tests (user-centric interactions)", () => {
         expect(await findByDisplayValue("42")).toBeTruthy();
     });
 
+    test("lap timing logs passes and shows laps per car", async () => {
+        const { getByText, getByPlaceholderText, findByText } = render(<EnduranceTab />);
+        await act(async () => { });
+
+        fireEvent.press(getByText("Lap Timing"));
+        const carInput = getByPlaceholderText("e.g., 42");
+        fireEvent.changeText(carInput, "42");
+        fireEvent.press(getByText("Log Lap"));
+
+        await act(async () => {
+            jest.setSystemTime(new Date("2026-02-01T00:06:40.000Z"));
+        });
+        fireEvent.changeText(carInput, "42");
+        fireEvent(carInput, "submitEditing");
+
+        expect(await findByText(/1 lap · last 6m 40s · best 6m 40s · avg 6m 40s/)).toBeTruthy();
+        expect(mockSetItem).toHaveBeenCalledWith("mobilescout:laplogs:v1", expect.stringContaining('"carNumber":"42"'));
+
+        fireEvent.press(getByText("Undo Last Pass"));
+        expect(await findByText(/0 laps · last —/)).toBeTruthy();
+    });
+
+    test("saved passes are restored on launch and not overwritten by the first save", async () => {
+        const saved: Lap[] = [
+            { carNumber: "42", timestamp: "2026-02-01T00:06:40.000Z", sessionId: "2026-02-01" },
+            { carNumber: "42", timestamp: "2026-02-01T00:00:00.000Z", sessionId: "2026-02-01" },
+        ];
+        mockGetItem.mockImplementation(async (key: any) => (key === "mobilescout:laplogs:v1" ? JSON.stringify(saved) : null));
+
+        const { getByText, findByText } = render(<EnduranceTab />);
+        await act(async () => { });
+        fireEvent.press(getByText("Lap Timing"));
+
+        expect(await findByText(/1 lap · last 6m 40s/)).toBeTruthy();
+        const lapSaves = mockSetItem.mock.calls.filter(([key]) => key === "mobilescout:laplogs:v1");
+        expect(lapSaves.length).toBeGreaterThan(0);
+        expect(lapSaves.every(([, value]) => JSON.parse(value as string).length === saved.length)).toBe(true);
+    });
+
 });
\ No newline at end of file
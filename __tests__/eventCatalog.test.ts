@@ -0,0 +1,54 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    DEFAULT_EVENT_CATALOG,
+    enabledEvents,
+    normalizeCatalog,
+    saeCodeFor,
+    upsertEventDef,
+    validateEventDef,
+} from "@/lib/eventCatalog";
+
+describe("eventCatalog.ts - unit tests", () => {
+    test("normalizeCatalog cleans stored entries and falls back to the defaults", () => {
+        expect(normalizeCatalog(null)).toBe(DEFAULT_EVENT_CATALOG);
+        expect(normalizeCatalog([{ name: "" }])).toBe(DEFAULT_EVENT_CATALOG);
+        expect(
+            normalizeCatalog([
+                { name: " Hill Climb ", saeCode: "hill", type: "timed" },
+                { name: "Hill Climb", saeCode: "DUP" },
+                { name: "Sled Pull", saeCode: "", type: "bogus", enabled: false },
+            ])
+        ).toEqual([
+            { name: "Hill Climb", saeCode: "HILL", type: "timed", enabled: true },
+            { name: "Sled Pull", saeCode: null, type: "timed", enabled: false },
+        ]);
+    });
+
+    test("validateEventDef rejects blank, duplicate and malformed entries", () => {
+        const def = { name: "Rock Crawl", saeCode: "ROCK", type: "timed" as const, enabled: true };
+        expect(validateEventDef(def, DEFAULT_EVENT_CATALOG)).toBeNull();
+        expect(validateEventDef({ ...def, name: " " }, DEFAULT_EVENT_CATALOG)).toMatch(/name/);
+        expect(validateEventDef({ ...def, name: "Acceleration" }, DEFAULT_EVENT_CATALOG)).toMatch(/already/);
+        expect(validateEventDef({ ...def, name: "Acceleration" }, DEFAULT_EVENT_CATALOG, "Acceleration")).toBeNull();
+        expect(validateEventDef({ ...def, saeCode: "A&B" }, DEFAULT_EVENT_CATALOG)).toMatch(/SAE codes/);
+    });
+
+    test("upsertEventDef adds new events and edits in place", () => {
+        const added = upsertEventDef(DEFAULT_EVENT_CATALOG, { name: "Hill Climb", saeCode: " hill ", type: "timed", enabled: true });
+        expect(added[added.length - 1]).toEqual({ name: "Hill Climb", saeCode: "HILL", type: "timed", enabled: true });
+        expect(saeCodeFor(added, "Hill Climb")).toBe("HILL");
+
+        const renamed = upsertEventDef(added, { name: "Suspension & Traction", saeCode: "SPEC", type: "timed", enabled: true }, "Suspension");
+        expect(renamed.map((e) => e.name).indexOf("Suspension & Traction")).toBe(2);
+        expect(saeCodeFor(renamed, "Suspension")).toBeUndefined();
+    });
+
+    test("enabledEvents filters by enabled flag and type", () => {
+        expect(enabledEvents(DEFAULT_EVENT_CATALOG, ["timed", "queue-only"]).map((e) => e.name)).toEqual([
+            "Acceleration",
+            "Maneuverability",
+            "Suspension",
+        ]);
+        expect(saeCodeFor(DEFAULT_EVENT_CATALOG, "Endurance")).toBeUndefined();
+    });
+});
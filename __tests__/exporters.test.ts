@@ -0,0 +1,35 @@
+import { describe, expect, test } from '@jest/globals';
+import { buildCompletionsCSV, buildSamplesCSV } from "@/lib/exporters";
+
+describe("exporters.ts - unit tests (completions CSV)", () => {
+    test("writes car number and lane columns, leaving them blank when unknown", () => {
+        const csv = buildCompletionsCSV([
+            { eventName: "Acceleration", timestamp: "2026-01-01T12:00:00.000Z", carNo: "42" },
+            { eventName: "Acceleration", timestamp: "2026-01-01T12:01:00.000Z", lane: 1 },
+        ]);
+        expect(csv.split("\n")).toEqual([
+            "timestamp,eventName,carNo,lane",
+            "2026-01-01T12:00:00.000Z,Acceleration,42,",
+            "2026-01-01T12:01:00.000Z,Acceleration,,2",
+        ]);
+    });
+});
+
+describe("exporters.ts - unit tests (samples CSV)", () => {
+    const base = { eventName: "Acceleration", timestamp: "2026-01-01T12:00:00.000Z", lineLength: 6, windowMin: null, runRate: 1, etaMinutes: 6 };
+
+    test("adds per-lane columns for the most lanes any sample has", () => {
+        const csv = buildSamplesCSV([
+            { ...base, lanes: [{ lineLength: 4, runRate: 0.5, etaMinutes: 8 }, { lineLength: 2, runRate: 0.5, etaMinutes: null }] },
+            base,
+        ]);
+        const [header, withLanes, single] = csv.split("\n");
+        expect(header.endsWith(",lane1Line,lane1RunRate,lane1EtaMinutes,lane2Line,lane2RunRate,lane2EtaMinutes")).toBe(true);
+        expect(withLanes.endsWith(",4,0.5,8,2,0.5,")).toBe(true);
+        expect(single.endsWith(",,,,,,")).toBe(true);
+    });
+
+    test("has no lane columns when every sample is single-lane", () => {
+        expect(buildSamplesCSV([base]).split("\n")[0]).not.toMatch(/lane1/);
+    });
+});
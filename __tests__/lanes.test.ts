@@ -0,0 +1,52 @@
+import { describe, expect, test } from '@jest/globals';
+import { adjustLane, computeLaneMetrics, laneOf, normalizeLaneLines, resizeLanes } from "@/lib/lanes";
+
+const MIN = 60_000;
+
+describe("lanes.ts - unit tests", () => {
+    test("normalizeLaneLines keeps valid counts and otherwise puts the total in one lane", () => {
+        expect(normalizeLaneLines([3, 2], 5)).toEqual([3, 2]);
+        expect(normalizeLaneLines(undefined, 5)).toEqual([5]);
+        expect(normalizeLaneLines([3, 3], 5)).toEqual([5]);
+        expect(normalizeLaneLines([1, -1, 5], 5)).toEqual([5]);
+    });
+
+    test("resizeLanes adds empty lanes and merges removed lanes into the last one", () => {
+        expect(resizeLanes([4], 2)).toEqual([4, 0]);
+        expect(resizeLanes([4, 2, 1], 2)).toEqual([4, 3]);
+        expect(resizeLanes([4, 2], 0)).toEqual([6]);
+    });
+
+    test("adjustLane changes one lane without going negative", () => {
+        expect(adjustLane([1, 0], 1, 1)).toEqual([1, 1]);
+        expect(adjustLane([1, 0], 1, -1)).toEqual([1, 0]);
+    });
+
+    test("laneOf maps old and removed-lane records onto current lanes", () => {
+        expect(laneOf({}, 2)).toBe(0);
+        expect(laneOf({ lane: 1 }, 2)).toBe(1);
+        expect(laneOf({ lane: 3 }, 2)).toBe(1);
+    });
+
+    test("computeLaneMetrics gives each lane its own rate and ETA", () => {
+        const start = new Date("2026-01-01T12:00:00.000Z").getTime();
+        const at = (min: number, lane?: number) => ({
+            eventName: "Acceleration",
+            timestamp: new Date(start + min * MIN).toISOString(),
+            ...(lane === undefined ? {} : { lane }),
+        });
+        // Lane 1 runs a car every minute, lane 2 every other minute
+        const completions = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map((m) => at(m)).concat([0, 2, 4, 6, 8].map((m) => at(m, 1)));
+
+        const [l1, l2] = computeLaneMetrics({
+            laneLines: [5, 4],
+            completions,
+            arrivals: [],
+            nowMs: start + 10 * MIN,
+        });
+        expect(l1.rate).toBeCloseTo(1, 5);
+        expect(l2.rate).toBeCloseTo(0.5, 5);
+        expect(l1.eta.likely).toBeCloseTo(5, 5);
+        expect(l2.eta.likely).toBeCloseTo(8, 5);
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, test } from '@jest/globals';
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parseLeaderboardRows, parseRunTime } from "@/lib/leaderboard";
+import { parseCarsWithResults } from "@/lib/saeResults";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+describe("leaderboard.ts - unit tests", () => {
+    test("parseRunTime reads seconds and minutes:seconds", () => {
+        expect(parseRunTime("3.928")).toBe(3.928);
+        expect(parseRunTime(" 1:01.930 ")).toBeCloseTo(61.93, 5);
+        expect(parseRunTime("0")).toBeNull();
+        expect(parseRunTime("DNF")).toBeNull();
+        expect(parseRunTime("")).toBeNull();
+    });
+
+    test("parses every attempt row with status, time, attempt and penalties", () => {
+        const rows = parseLeaderboardRows(fixture("leaderboard-manu.html"));
+
+        expect(rows).toHaveLength(7);
+        expect(rows[0]).toEqual({
+            position: 1,
+            carNo: "42",
+            school: "Cornell University",
+            status: "OK",
+            timeSec: 58.412,
+            attempt: 2,
+            penalties: 0,
+        });
+        expect(rows[1]).toMatchObject({ carNo: "7", school: "Texas A&M University", penalties: 2 });
+        expect(rows[1].timeSec).toBeCloseTo(61.93, 5);
+        expect(rows[3]).toMatchObject({ position: null, carNo: "42", attempt: 1, penalties: 4 });
+        expect(rows.slice(4).map((r) => [r.carNo, r.status, r.timeSec, r.attempt])).toEqual([
+            ["23", "DNF", null, 1],
+            ["91", "DQ", 59.87, 1],
+            ["56", "DNS", null, null],
+        ]);
+    });
+
+    test("finds columns by header name and skips layout, blank and pager rows", () => {
+        const rows = parseLeaderboardRows(fixture("leaderboard-accel.html"));
+
+        expect(rows.map((r) => r.carNo)).toEqual(["12", "301", "77", "64"]);
+        expect(rows[0]).toEqual({
+            position: 1,
+            carNo: "12",
+            school: "Virginia Tech",
+            status: "OK",
+            timeSec: 3.928,
+            attempt: null,
+            penalties: 0,
+        });
+        expect(rows[2].school).toBe("Université Laval");
+        expect(rows[3]).toMatchObject({ position: null, status: "DNF", timeSec: null });
+    });
+
+    test("decodes hex entities and doesn't decode escaped entities twice", () => {
+        const rows = parseLeaderboardRows(
+            "<table><tr><th>Car</th><th>University</th><th>Time</th></tr>" +
+            "<tr><td>5</td><td>&#xE9;cole &amp;lt;ETS&amp;gt; &amp; Co</td><td>4.5</td></tr></table>"
+        );
+        expect(rows[0].school).toBe("école &lt;ETS&gt; & Co");
+    });
+
+    test("a board with no results yet has no rows", () => {
+        expect(parseLeaderboardRows(fixture("leaderboard-empty.html"))).toEqual([]);
+        expect(parseLeaderboardRows("<html><body>Maintenance</body></html>")).toEqual([]);
+    });
+
+    test("falls back to the page text when there is no results table", () => {
+        const rows = parseLeaderboardRows("<div>1 43 Some School OK 3.928 2 8 Other School DNF</div>");
+        expect(rows.map((r) => [r.position, r.carNo, r.school, r.status, r.timeSec])).toEqual([
+            [1, "43", "Some School", "OK", 3.928],
+            [2, "8", "Other School", "DNF", null],
+        ]);
+    });
+
+    test("parseCarsWithResults keeps cars with a timed OK run", () => {
+        expect(parseCarsWithResults(fixture("leaderboard-manu.html"))).toEqual(["42", "7", "108"]);
+        expect(parseCarsWithResults(fixture("leaderboard-accel.html"))).toEqual(["12", "301", "77"]);
+    });
+});
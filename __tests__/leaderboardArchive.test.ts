@@ -0,0 +1,104 @@
+import { describe, expect, test } from '@jest/globals';
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+    MAX_ARCHIVE_ENTRIES,
+    appendCapture,
+    buildArchiveBundle,
+    captureBytes,
+    createArchivedCapture,
+    describeBytes,
+    pruneArchive,
+    stripViewState,
+    summarizeArchive,
+    type ArchivedCapture,
+} from "@/lib/leaderboardArchive";
+import { parseReplayBundle } from "@/lib/replay";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+const at = (min: number) => new Date(Date.parse("2026-05-16T15:00:00.000Z") + min * 60000).toISOString();
+
+const capture = (eventCode: string, html: string, min: number) =>
+    createArchivedCapture({
+        eventName: eventCode === "ACCEL" ? "Acceleration" : "Maneuverability",
+        eventCode,
+        html,
+        fetchedAt: at(min),
+        lastUpdate: { ms: Date.parse(at(min)), raw: `page ${min}` },
+    });
+
+describe("leaderboardArchive.ts - unit tests", () => {
+    test("stripViewState blanks ASP.NET hidden state and keeps the results", () => {
+        const html = fixture("leaderboard-accel.html");
+        const stripped = stripViewState(html);
+        expect(stripped).toContain('id="__VIEWSTATE" value=""');
+        expect(stripped).not.toContain("/wEPDwUKLTQ0NzU2MzY1OGRk");
+        expect(stripped).toContain("<td>McGill University</td>");
+    });
+
+    test("createArchivedCapture records the event, fetch time and Last Data Update", () => {
+        const c = capture("ACCEL", "<p>x</p>", 0);
+        expect(c).toMatchObject({
+            capturedAt: at(0),
+            eventCode: "ACCEL",
+            eventName: "Acceleration",
+            lastUpdateRaw: "page 0",
+            lastUpdateMs: Date.parse(at(0)),
+        });
+        expect(c.hash).toMatch(/^[0-9a-f]{8}$/);
+    });
+
+    test("appendCapture skips a repeat of the event's last page only", () => {
+        let entries: ArchivedCapture[] = [];
+        entries = appendCapture(entries, capture("ACCEL", "a", 0), 1);
+        entries = appendCapture(entries, capture("MANU", "m", 1), 1);
+
+        const same = appendCapture(entries, capture("ACCEL", "a", 2), 1);
+        expect(same).toBe(entries);
+
+        entries = appendCapture(entries, capture("ACCEL", "b", 3), 1);
+        entries = appendCapture(entries, capture("ACCEL", "a", 4), 1);
+        expect(entries.map((e) => e.html)).toEqual(["a", "m", "b", "a"]);
+    });
+
+    test("pruneArchive drops the oldest pages to fit the size and count limits", () => {
+        const big = "x".repeat(300 * 1024);
+        const entries = [0, 1, 2, 3].map((min) => capture("ACCEL", `${big}${min}`, min));
+        const pruned = pruneArchive(entries, 1);
+        expect(pruned.map((e) => e.capturedAt)).toEqual([at(1), at(2), at(3)]);
+        expect(pruned.reduce((sum, e) => sum + captureBytes(e), 0)).toBeLessThanOrEqual(1024 * 1024);
+        expect(pruneArchive(pruned, 1)).toBe(pruned);
+
+        const many = Array.from({ length: MAX_ARCHIVE_ENTRIES + 5 }, (_, i) => capture("ACCEL", String(i), i));
+        expect(pruneArchive(many, 2)[0].html).toBe("5");
+    });
+
+    test("summarizeArchive groups by event code, most recent first", () => {
+        const entries = [capture("ACCEL", "a", 0), capture("MANU", "m", 1), capture("ACCEL", "b", 2)];
+        expect(summarizeArchive(entries)).toEqual([
+            {
+                eventCode: "ACCEL",
+                eventName: "Acceleration",
+                count: 2,
+                bytes: captureBytes(entries[0]) + captureBytes(entries[2]),
+                firstAt: at(0),
+                lastAt: at(2),
+            },
+            { eventCode: "MANU", eventName: "Maneuverability", count: 1, bytes: captureBytes(entries[1]), firstAt: at(1), lastAt: at(1) },
+        ]);
+    });
+
+    test("the export bundle loads as a replay", () => {
+        const entries = [capture("ACCEL", fixture("leaderboard-accel.html"), 0), capture("MANU", "m", 1)];
+        const replay = parseReplayBundle(buildArchiveBundle(entries, at(5)));
+        expect(replay.map((c) => [c.capturedAt, c.eventCode])).toEqual([[at(0), "ACCEL"], [at(1), "MANU"]]);
+        expect(replay[0].html).toBe(entries[0].html);
+    });
+
+    test("describeBytes", () => {
+        expect(describeBytes(10)).toBe("1 KB");
+        expect(describeBytes(340 * 1024)).toBe("340 KB");
+        expect(describeBytes(1.25 * 1024 * 1024)).toBe("1.3 MB");
+    });
+});
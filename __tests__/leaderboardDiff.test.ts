@@ -0,0 +1,79 @@
+import { describe, expect, test } from '@jest/globals';
+import type { LeaderboardRow } from "@/lib/leaderboard";
+import { describeLeaderboardChange, diffLeaderboards, runsFromChanges } from "@/lib/leaderboardDiff";
+
+const row = (over: Partial<LeaderboardRow>): LeaderboardRow => ({
+    position: null,
+    carNo: "1",
+    school: "School",
+    status: "OK",
+    timeSec: null,
+    attempt: null,
+    penalties: 0,
+    ...over,
+});
+
+describe("leaderboardDiff.ts - unit tests", () => {
+    test("identical boards have no changes", () => {
+        const board = [row({ carNo: "42", position: 1, timeSec: 58.4 })];
+        expect(diffLeaderboards(board, [...board])).toEqual([]);
+    });
+
+    test("one-row-per-car board: new car, faster rerun, penalty, removal and rank moves", () => {
+        const prev = [
+            row({ carNo: "7", position: 1, timeSec: 60 }),
+            row({ carNo: "42", position: 2, timeSec: 62 }),
+            row({ carNo: "23", position: 3, timeSec: 65 }),
+            row({ carNo: "91", position: 4, timeSec: 70 }),
+        ];
+        const next = [
+            row({ carNo: "42", position: 1, timeSec: 58 }),
+            row({ carNo: "7", position: 2, timeSec: 60, penalties: 2 }),
+            row({ carNo: "23", position: 3, timeSec: 65 }),
+            row({ carNo: "5", status: "DNF" }),
+        ];
+
+        expect(diffLeaderboards(prev, next)).toEqual([
+            { kind: "improved", carNo: "42", attempt: null, fromSec: 62, toSec: 58 },
+            { kind: "penalty", carNo: "7", attempt: null, from: 0, to: 2, status: "OK" },
+            { kind: "newResult", carNo: "5", attempt: null, status: "DNF", timeSec: null },
+            { kind: "removed", carNo: "91", attempt: null },
+            { kind: "rankChange", carNo: "42", from: 2, to: 1 },
+            { kind: "rankChange", carNo: "7", from: 1, to: 2 },
+        ]);
+    });
+
+    test("a disqualified run is a penalty", () => {
+        const changes = diffLeaderboards(
+            [row({ carNo: "91", position: 1, timeSec: 59.9 })],
+            [row({ carNo: "91", status: "DQ", timeSec: 59.9 })]
+        );
+        expect(changes).toEqual([{ kind: "penalty", carNo: "91", attempt: null, from: 0, to: 0, status: "DQ" }]);
+        expect(describeLeaderboardChange(changes[0])).toBe("Penalty: Car 91 DQ");
+    });
+
+    test("attempt boards report a second attempt as a new result and count it as a run", () => {
+        const prev = [row({ carNo: "42", attempt: 1, position: 1, timeSec: 66.1 })];
+        const next = [
+            row({ carNo: "42", attempt: 2, position: 1, timeSec: 58.4 }),
+            row({ carNo: "42", attempt: 1, timeSec: 66.1 }),
+            row({ carNo: "56", attempt: 1, status: "DNS" }),
+        ];
+        const changes = diffLeaderboards(prev, next);
+
+        expect(changes.map((c) => c.kind)).toEqual(["newResult", "newResult"]);
+        expect(describeLeaderboardChange(changes[0])).toBe("New result: Car 42 (run 2) 58.400 s");
+        expect([...runsFromChanges(changes)]).toEqual([["42", 1]]);
+    });
+
+    test("runsFromChanges counts faster reruns on one-row boards but not time corrections on attempt rows", () => {
+        expect([
+            ...runsFromChanges([
+                { kind: "improved", carNo: "42", attempt: null, fromSec: 62, toSec: 58 },
+                { kind: "improved", carNo: "7", attempt: 1, fromSec: 62, toSec: 61 },
+                { kind: "newResult", carNo: "42", attempt: null, status: "OK", timeSec: 70 },
+                { kind: "rankChange", carNo: "23", from: 3, to: 2 },
+            ]),
+        ]).toEqual([["42", 2]]);
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, test } from '@jest/globals';
+import { advanceOurCar, createOurCar, needsRunAlert, predictRunTime } from "@/lib/ourCar";
+
+const NOW_ISO = "2026-01-01T12:00:00.000Z";
+
+describe("ourCar.ts - unit tests (queue position tracker)", () => {
+    test("createOurCar accepts a position or a count of cars ahead", () => {
+        expect(createOurCar(8, "position", 2, NOW_ISO)?.carsAhead).toBe(7);
+        expect(createOurCar(7, "ahead", 2, NOW_ISO)?.carsAhead).toBe(7);
+        expect(createOurCar(0, "position", 2, NOW_ISO)).toBeNull();
+        expect(createOurCar(NaN, "ahead", 2, NOW_ISO)).toBeNull();
+    });
+
+    test("advanceOurCar counts down and never goes below zero", () => {
+        const car = createOurCar(3, "ahead", 1, NOW_ISO);
+        expect(advanceOurCar(car, 2)?.carsAhead).toBe(1);
+        expect(advanceOurCar(car, 5)?.carsAhead).toBe(0);
+        expect(advanceOurCar(null, 1)).toBeNull();
+    });
+
+    test("the run alert fires once and re-arms after an undo moves us back", () => {
+        let car = createOurCar(3, "ahead", 2, NOW_ISO);
+        expect(needsRunAlert(car)).toBe(false);
+
+        car = advanceOurCar(car, 1);
+        expect(needsRunAlert(car)).toBe(true);
+
+        car = { ...car!, alerted: true };
+        expect(needsRunAlert(advanceOurCar(car, 1))).toBe(false);
+        expect(needsRunAlert(advanceOurCar(advanceOurCar(car, -1), 1))).toBe(true);
+    });
+
+    test("predictRunTime uses the run rate for the cars ahead", () => {
+        const now = new Date(NOW_ISO).getTime();
+        const t = predictRunTime(6, 2, 40, now);
+        expect(t?.likely).toBe(now + 3 * 60000);
+        expect(t!.earliest!).toBeLessThan(t!.likely!);
+        expect(t!.latest!).toBeGreaterThan(t!.likely!);
+        expect(predictRunTime(6, 0, 0, now)).toBeNull();
+    });
+});
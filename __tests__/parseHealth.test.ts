@@ -0,0 +1,92 @@
+import { describe, expect, test } from '@jest/globals';
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parseLeaderboardRows } from "@/lib/leaderboard";
+import {
+    MAX_PARSE_FAILURES,
+    checkParseHealth,
+    countResultTokens,
+    describeParseProblems,
+    recordParseFailure,
+    type ParseFailure,
+} from "@/lib/parseHealth";
+import { parseLastDataUpdate } from "@/lib/resultsSources";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+/** Checks a page the way the poll loop does, for an SAE source. */
+const check = (body: string, lastGood: { rows: number; hasLastUpdate: boolean } | null = null) =>
+    checkParseHealth({
+        body,
+        rows: parseLeaderboardRows(body),
+        hasLastUpdate: parseLastDataUpdate(body, "America/Chicago") !== null,
+        expectLastUpdate: true,
+        lastGood,
+    });
+
+const failure = (eventName: string, html: string, capturedAt: string): ParseFailure => ({
+    capturedAt,
+    html,
+    eventName,
+    source: "SAE",
+    problems: ["noRows"],
+});
+
+describe("parseHealth.ts - unit tests", () => {
+    test("countResultTokens finds run times and statuses in the page text", () => {
+        expect(countResultTokens("<td>3.928</td><td>1:01.930</td><td>DNF</td><td>12</td>")).toBe(3);
+        expect(countResultTokens(fixture("leaderboard-empty.html"))).toBe(0);
+    });
+
+    test("the fixture pages are healthy, including an event with nothing posted", () => {
+        expect(check(fixture("leaderboard-accel.html"))).toEqual([]);
+        expect(check(fixture("leaderboard-manu.html"))).toEqual([]);
+        expect(check(fixture("leaderboard-empty.html"))).toEqual([]);
+    });
+
+    test("a changed table layout is flagged though the text fallback still finds a row", () => {
+        const html = fixture("leaderboard-accel.html")
+            .replace(/<(\/?)table/g, "<$1div")
+            .replace(/<(\/?)tr/g, "<$1section")
+            .replace(/<(\/?)td/g, "<$1span")
+            .replace(/Last Data Update/g, "Updated");
+        expect(parseLeaderboardRows(html)).toHaveLength(1);
+        expect(check(html, { rows: 4, hasLastUpdate: true })).toEqual(["noLastUpdate", "rowDrop"]);
+        expect(check("<div>3.928</div><div>DNF</div>")).toEqual(["noRows", "noLastUpdate"]);
+    });
+
+    test("a sudden row drop is flagged only on a big enough board", () => {
+        const body = fixture("leaderboard-accel.html");
+        const rows = parseLeaderboardRows(body).slice(0, 1);
+        const opts = { body, rows, hasLastUpdate: true, expectLastUpdate: false };
+        expect(checkParseHealth({ ...opts, lastGood: { rows: 4, hasLastUpdate: true } })).toEqual(["rowDrop"]);
+        expect(checkParseHealth({ ...opts, lastGood: { rows: 3, hasLastUpdate: true } })).toEqual([]);
+        expect(checkParseHealth({ ...opts, rows: rows.concat(rows), lastGood: { rows: 4, hasLastUpdate: true } })).toEqual([]);
+    });
+
+    test("a missing Last Data Update counts only where one is expected", () => {
+        const opts = { body: "car,time\n12,3.9", rows: parseLeaderboardRows(fixture("leaderboard-accel.html")), hasLastUpdate: false };
+        expect(checkParseHealth({ ...opts, expectLastUpdate: false, lastGood: null })).toEqual([]);
+        expect(checkParseHealth({ ...opts, expectLastUpdate: false, lastGood: { rows: 4, hasLastUpdate: true } })).toEqual(["noLastUpdate"]);
+        expect(checkParseHealth({ ...opts, expectLastUpdate: true, lastGood: null })).toEqual(["noLastUpdate"]);
+    });
+
+    test("describeParseProblems says what's wrong and what's kept", () => {
+        expect(describeParseProblems(["noRows", "noLastUpdate"], 12)).toBe(
+            "no rows on a page with results, no Last Data Update; keeping the last good results (12 rows)"
+        );
+        expect(describeParseProblems(["rowDrop"], null)).toBe("row count dropped sharply; no good results yet");
+    });
+
+    test("recordParseFailure keeps the newest pages once each, capped", () => {
+        let kept: ParseFailure[] = [];
+        kept = recordParseFailure(kept, failure("Acceleration", "a", "t0"));
+        expect(recordParseFailure(kept, failure("Acceleration", "a", "t1"))).toBe(kept);
+        kept = recordParseFailure(kept, failure("Maneuverability", "a", "t2"));
+        expect(kept.map((f) => f.capturedAt)).toEqual(["t2", "t0"]);
+
+        for (let i = 0; i < MAX_PARSE_FAILURES + 3; i++) kept = recordParseFailure(kept, failure("Acceleration", `p${i}`, `u${i}`));
+        expect(kept).toHaveLength(MAX_PARSE_FAILURES);
+        expect(kept[0].html).toBe(`p${MAX_PARSE_FAILURES + 2}`);
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    ACTIVE_WINDOW_MS,
+    DEFAULT_POLL_SETTINGS,
+    MAX_BACKOFF_MS,
+    conditionalHeaders,
+    contentHash,
+    describeNextPoll,
+    nextPollDelayMs,
+} from "@/lib/polling";
+
+const now = Date.parse("2026-05-16T15:00:00.000Z");
+const delay = (over: Partial<Parameters<typeof nextPollDelayMs>[0]>) =>
+    nextPollDelayMs({ settings: DEFAULT_POLL_SETTINGS, consecutiveErrors: 0, lastChangeMs: null, nowMs: now, random: 1, ...over });
+
+describe("polling.ts - unit tests", () => {
+    test("polls at the normal interval while the site is quiet", () => {
+        expect(delay({})).toBe(20000);
+        expect(delay({ lastChangeMs: now - ACTIVE_WINDOW_MS - 1 })).toBe(20000);
+    });
+
+    test("polls faster while the site is updating, never below the minimum", () => {
+        expect(delay({ lastChangeMs: now - 30000 })).toBe(10000);
+        expect(delay({ lastChangeMs: now, settings: { intervalSec: 10, fasterWhenActive: true } })).toBe(10000);
+        expect(delay({ lastChangeMs: now, settings: { intervalSec: 30, fasterWhenActive: false } })).toBe(30000);
+    });
+
+    test("backs off exponentially with jitter after errors, up to the cap", () => {
+        expect(delay({ consecutiveErrors: 1 })).toBe(40000);
+        expect(delay({ consecutiveErrors: 2 })).toBe(80000);
+        expect(delay({ consecutiveErrors: 2, random: 0 })).toBe(40000);
+        expect(delay({ consecutiveErrors: 30 })).toBe(MAX_BACKOFF_MS);
+        // Errors win over activity
+        expect(delay({ consecutiveErrors: 1, lastChangeMs: now })).toBe(40000);
+    });
+
+    test("conditionalHeaders sends whichever validators are known", () => {
+        expect(conditionalHeaders(null)).toEqual({});
+        expect(conditionalHeaders({ etag: '"abc"', lastModified: null })).toEqual({ "If-None-Match": '"abc"' });
+        expect(conditionalHeaders({ etag: null, lastModified: "Sat, 16 May 2026 15:00:00 GMT" })).toEqual({
+            "If-Modified-Since": "Sat, 16 May 2026 15:00:00 GMT",
+        });
+    });
+
+    test("contentHash is stable and sensitive to changes", () => {
+        expect(contentHash("<tr><td>42</td></tr>")).toBe(contentHash("<tr><td>42</td></tr>"));
+        expect(contentHash("<tr><td>42</td></tr>")).not.toBe(contentHash("<tr><td>43</td></tr>"));
+        expect(contentHash("")).toMatch(/^[0-9a-f]{8}$/);
+    });
+
+    test("describeNextPoll", () => {
+        expect(describeNextPoll(undefined, now)).toBe("");
+        expect(describeNextPoll(now + 11200, now)).toBe("Next poll in 12s");
+        expect(describeNextPoll(now + 95000, now)).toBe("Next poll in 1m 35s");
+        expect(describeNextPoll(now - 500, now)).toBe("Polling…");
+    });
+});
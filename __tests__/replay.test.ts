@@ -0,0 +1,116 @@
+import { describe, expect, jest, test } from '@jest/globals';
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+    captureTimeFromFileName,
+    capturesFromFiles,
+    createReplaySource,
+    parseReplayBundle,
+    replayClock,
+    runReplay,
+    type ReplayCapture,
+} from "@/lib/replay";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+/** A minimal accel page with one timed run per car. */
+const page = (cars: string[]) =>
+    `<table><tr><th>Place</th><th>Car</th><th>University</th><th>Best Time</th></tr>${cars
+        .map((car, i) => `<tr><td>${i + 1}</td><td>${car}</td><td>School ${car}</td><td>${4 + i / 10}</td></tr>`)
+        .join("")}</table>`;
+
+const at = (min: number) => new Date(Date.parse("2026-05-16T15:00:00.000Z") + min * 60000).toISOString();
+
+describe("replay.ts - unit tests", () => {
+    test("parseReplayBundle accepts an array or a captures object, sorted by time", () => {
+        const captures = [
+            { capturedAt: at(2), html: "b" },
+            { capturedAt: at(1), html: "a", eventCode: "ACCEL" },
+        ];
+        expect(parseReplayBundle(JSON.stringify(captures)).map((c) => c.html)).toEqual(["a", "b"]);
+        expect(parseReplayBundle(JSON.stringify({ captures }))[0]).toEqual({ capturedAt: at(1), html: "a", eventCode: "ACCEL" });
+    });
+
+    test("parseReplayBundle skips invalid captures and rejects non-bundles", () => {
+        const text = JSON.stringify([{ capturedAt: "soon", html: "x" }, { capturedAt: at(0) }, null, { capturedAt: at(0), html: "ok" }]);
+        expect(parseReplayBundle(text)).toEqual([{ capturedAt: at(0), html: "ok" }]);
+        expect(() => parseReplayBundle("<html>")).toThrow("not valid JSON");
+        expect(() => parseReplayBundle('{"events":[]}')).toThrow("no captures");
+    });
+
+    test("captureTimeFromFileName reads ISO-like and compact stamps", () => {
+        expect(captureTimeFromFileName("ACCEL-2026-05-16T15-42-17Z.html")).toBe("2026-05-16T15:42:17.000Z");
+        expect(captureTimeFromFileName("2026-05-16T15:42:17.25.html")).toBe("2026-05-16T15:42:17.250Z");
+        expect(captureTimeFromFileName("20260516-154217.html")).toBe("2026-05-16T15:42:17.000Z");
+        expect(captureTimeFromFileName("leaderboard.html")).toBeNull();
+    });
+
+    test("capturesFromFiles merges timed pages and bundles and skips the rest", () => {
+        const captures = capturesFromFiles([
+            { name: "2026-05-16T15-02-00Z.html", content: "two" },
+            { name: "bundle.json", content: JSON.stringify([{ capturedAt: at(1), html: "one" }]) },
+            { name: "notes.txt", content: "ignored" },
+            { name: "broken.json", content: "{" },
+            { name: "untimed.html", content: "ignored" },
+        ]);
+        expect(captures.map((c) => c.html)).toEqual(["one", "two"]);
+    });
+
+    test("replayClock plays capture time at the chosen speed", () => {
+        const captures: ReplayCapture[] = [0, 1, 5].map((min) => ({ capturedAt: at(min), html: "" }));
+        const start = 1_000_000;
+        const clock = replayClock(captures, 10, start);
+
+        expect(clock.captureTimeAt(start)).toBe(Date.parse(at(0)));
+        expect(clock.captureTimeAt(start + 6000)).toBe(Date.parse(at(1)));
+        expect(clock.dueIndex(start - 1)).toBe(-1);
+        expect(clock.dueIndex(start)).toBe(0);
+        expect(clock.dueIndex(start + 5999)).toBe(0);
+        expect(clock.dueIndex(start + 6000)).toBe(1);
+        expect(clock.dueIndex(start + 60000)).toBe(2);
+        expect(clock.dueAtMs(1)).toBe(start + 6000);
+        expect(clock.endMs).toBe(start + 30000);
+    });
+
+    test("runReplay feeds captures through parse, seen cars and the SAE rate", () => {
+        const captures: ReplayCapture[] = [
+            { capturedAt: at(0), html: page(["12"]) },
+            { capturedAt: at(2), html: page(["12", "301"]) },
+            { capturedAt: at(4), html: page(["12", "301", "77"]) },
+            { capturedAt: at(5), html: page(["12", "301", "77"]) },
+        ];
+        const { steps, seen } = runReplay(captures);
+
+        expect(steps.map((s) => [s.rows, s.newlySeen, s.seen])).toEqual([[1, 1, 1], [2, 1, 2], [3, 1, 3], [3, 0, 3]]);
+        expect(steps[2].rate).toBeCloseTo(3 / 4, 5);
+        expect(steps[3].rate).toBeCloseTo(3 / 5, 5);
+        expect(seen.find((s) => s.carNo === "301")?.firstSeenTs).toBe(at(2));
+    });
+
+    test("runReplay reproduces a field capture from the fixtures", () => {
+        const { steps } = runReplay([
+            { capturedAt: at(0), html: fixture("leaderboard-empty.html") },
+            { capturedAt: at(1), html: fixture("leaderboard-accel.html") },
+        ]);
+        expect(steps.map((s) => s.newlySeen)).toEqual([0, 3]);
+    });
+
+    test("createReplaySource returns each capture once, when due, with the capture clock offset", async () => {
+        const captures: ReplayCapture[] = [0, 1].map((min) => ({ capturedAt: at(min), html: page([String(min + 1)]) }));
+        const start = 1_000_000;
+        const now = jest.spyOn(Date, "now").mockReturnValue(start);
+        try {
+            const source = createReplaySource(captures, 10, start);
+            const first = await source.fetch(null);
+            expect(first.body).toBe(captures[0].html);
+            expect(first.clockOffsetMs).toBe(Date.parse(at(0)) - start);
+            expect((await source.fetch(null)).body).toBeNull();
+
+            now.mockReturnValue(start + 6000);
+            expect((await source.fetch(null)).body).toBe(captures[1].html);
+            expect(source.parse(captures[1].html).map((r) => r.carNo)).toEqual(["2"]);
+        } finally {
+            now.mockRestore();
+        }
+    });
+});
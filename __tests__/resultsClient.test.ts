@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, jest, test } from '@jest/globals';
+import {
+    FETCH_TIMEOUT_MS,
+    ResultsFetchError,
+    classifyFetchFailure,
+    describeFetchFailure,
+    describeLastSuccess,
+    fetchResultsPage,
+    pageReadError,
+    type FetchTarget,
+} from "@/lib/resultsClient";
+
+const DIRECT: FetchTarget = { url: "https://results.bajasae.net/Leaderboard.aspx?Event=ACCEL", route: "direct" };
+const PROXY: FetchTarget = { url: "http://10.0.0.5:8787/Leaderboard.aspx?Event=ACCEL", route: "proxy" };
+
+const ok = (body: string) => ({ ok: true, status: 200, headers: new Map([["etag", '"v2"']]), text: async () => body });
+const status = (code: number) => ({ ok: false, status: code, headers: new Map<string, string>(), text: async () => "" });
+
+describe("resultsClient.ts - unit tests", () => {
+    const realFetch = global.fetch;
+    afterEach(() => {
+        global.fetch = realFetch;
+        jest.useRealTimers();
+    });
+
+    test("classifyFetchFailure tells offline, CORS, proxy and HTTP failures apart", () => {
+        const network = new TypeError("Network request failed");
+        expect(classifyFetchFailure(network, DIRECT, { timedOut: false, platform: "android" }).kind).toBe("offline");
+        expect(classifyFetchFailure(network, DIRECT, { timedOut: false, platform: "web" }).kind).toBe("cors");
+        expect(classifyFetchFailure(network, DIRECT, { timedOut: false, platform: "web", online: false }).kind).toBe("offline");
+        expect(classifyFetchFailure(network, PROXY, { timedOut: false, platform: "web" }).kind).toBe("proxy");
+        expect(classifyFetchFailure(new Error("aborted"), DIRECT, { timedOut: true }).kind).toBe("timeout");
+        expect(classifyFetchFailure(new Error("disk"), DIRECT, { timedOut: false })).toMatchObject({ kind: "other", message: "disk" });
+    });
+
+    test("an error status is an HTTP failure direct and a proxy failure through the proxy", async () => {
+        global.fetch = jest.fn(async (url: string) => status(url === PROXY.url ? 502 : 503)) as any;
+        const err = (await fetchResultsPage([PROXY, DIRECT], null).catch((e) => e)) as ResultsFetchError;
+
+        expect(err).toBeInstanceOf(ResultsFetchError);
+        expect(err.kind).toBe("proxy");
+        expect(err.attempts).toEqual([
+            { ...PROXY, kind: "proxy", status: 502, message: "proxy couldn’t reach SAE (502)" },
+            { ...DIRECT, kind: "http", status: 503, message: "HTTP 503" },
+        ]);
+    });
+
+    test("fetchResultsPage falls back to the next URL and says which one answered", async () => {
+        const fetchMock = jest.fn(async (url: string) => {
+            if (url === DIRECT.url) throw new TypeError("Network request failed");
+            return ok("<table></table>");
+        });
+        global.fetch = fetchMock as any;
+
+        const res = await fetchResultsPage([DIRECT, PROXY], null);
+        expect(fetchMock.mock.calls.map((c) => c[0])).toEqual([DIRECT.url, PROXY.url]);
+        expect(res).toMatchObject({ body: "<table></table>", from: PROXY, validators: { etag: '"v2"' } });
+    });
+
+    test("a URL that doesn't answer in time is aborted as a timeout", async () => {
+        jest.useFakeTimers();
+        global.fetch = jest.fn(
+            (_url: string, init: any) =>
+                new Promise((_resolve, reject) => {
+                    init.signal.addEventListener("abort", () => reject(new Error("aborted")));
+                })
+        ) as any;
+
+        const pending = fetchResultsPage([DIRECT], null).catch((e) => e);
+        jest.advanceTimersByTime(FETCH_TIMEOUT_MS);
+        const err = (await pending) as ResultsFetchError;
+        expect(err.kind).toBe("timeout");
+        expect(err.attempts[0].message).toBe("timed out after 15s");
+    });
+
+    test("describeFetchFailure lists each URL tried, the last success and what to do", () => {
+        const err = new ResultsFetchError([
+            { ...PROXY, kind: "proxy", status: null, message: "proxy unreachable" },
+            { ...DIRECT, kind: "cors", status: null, message: "blocked by CORS" },
+        ]);
+        const now = Date.parse("2026-05-16T15:10:00Z");
+        expect(describeFetchFailure("SAE", err, now - 3 * 60000, now)).toBe(
+            `SAE fetch failed — proxy ${PROXY.url}: proxy unreachable; direct ${DIRECT.url}: blocked by CORS · ` +
+            "last success 3 min ago · check the laptop running the proxy, or use Manual"
+        );
+        expect(describeFetchFailure("Results file", new Error("Results file not found: r.csv"), null, now)).toBe(
+            "Results file fetch failed — Results file not found: r.csv · no success yet · Manual still works"
+        );
+    });
+
+    test("pageReadError reports where the unreadable page came from", () => {
+        const err = pageReadError(new SyntaxError("bad"), DIRECT);
+        expect(err.kind).toBe("parse");
+        expect(err.attempts[0]).toMatchObject({ url: DIRECT.url, route: "direct", message: "page unreadable (bad)" });
+    });
+
+    test("describeLastSuccess", () => {
+        expect(describeLastSuccess(null, 0)).toBe("no success yet");
+        expect(describeLastSuccess(1000, 46000)).toBe("last success 45s ago");
+        expect(describeLastSuccess(0, 150000)).toBe("last success 3 min ago");
+    });
+});
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, jest, test } from '@jest/globals';
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parseResultTable } from "@/lib/leaderboard";
+import {
+    createResultsSource,
+    describeResultsSource,
+    parseCsv,
+    parseResultsBody,
+    resultsBodyLastUpdate,
+    resultsSourceKey,
+} from "@/lib/resultsSources";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+const CSV = [
+    "Place,Car #,Team,Time,Status",
+    '1,12,"Virginia Tech",3.928,OK',
+    '2,301,"McGill University, Montreal",4.012,',
+    ",64,Kettering University,,DNF",
+    "",
+].join("\r\n");
+
+describe("resultsSources.ts - unit tests", () => {
+    const realFetch = global.fetch;
+    afterEach(() => {
+        global.fetch = realFetch;
+    });
+
+    test("parseCsv handles quotes, escaped quotes, line breaks in cells and blank lines", () => {
+        expect(parseCsv('a,"b,c","say ""hi"""\n\n"two\nlines",x')).toEqual([
+            ["a", "b,c", 'say "hi"'],
+            ["two\nlines", "x"],
+        ]);
+    });
+
+    test("parseResultTable maps columns from the header and returns null without one", () => {
+        expect(parseResultTable([["Car", "Time"], ["7", "5.5"]])).toEqual([
+            { position: null, carNo: "7", school: "", status: "OK", timeSec: 5.5, attempt: null, penalties: 0 },
+        ]);
+        expect(parseResultTable([["7", "5.5"]])).toBeNull();
+    });
+
+    test("parseResultsBody reads CSV results", () => {
+        const rows = parseResultsBody(CSV);
+        expect(rows.map((r) => [r.carNo, r.status, r.timeSec, r.school])).toEqual([
+            ["12", "OK", 3.928, "Virginia Tech"],
+            ["301", "OK", 4.012, "McGill University, Montreal"],
+            ["64", "DNF", null, "Kettering University"],
+        ]);
+    });
+
+    test("parseResultsBody reads JSON rows, bare or wrapped", () => {
+        const rows = [
+            { car: 12, time: "3.928", team: "Virginia Tech" },
+            { car: "64", status: "DNF" },
+        ];
+        const expected = [["12", "OK"], ["64", "DNF"]];
+        expect(parseResultsBody(JSON.stringify(rows)).map((r) => [r.carNo, r.status])).toEqual(expected);
+        expect(parseResultsBody(JSON.stringify({ rows })).map((r) => [r.carNo, r.status])).toEqual(expected);
+        expect(parseResultsBody("[not json")).toEqual([]);
+    });
+
+    test("parseResultsBody reads leaderboard-style HTML", () => {
+        expect(parseResultsBody(fixture("leaderboard-accel.html")).map((r) => r.carNo)).toEqual(["12", "301", "77", "64"]);
+    });
+
+    test("resultsBodyLastUpdate reads a JSON time or a Last Data Update line", () => {
+        expect(resultsBodyLastUpdate(JSON.stringify({ rows: [], lastUpdate: "2026-05-16T15:42:17Z" }), "")).toEqual({
+            ms: Date.parse("2026-05-16T15:42:17Z"),
+            raw: "2026-05-16T15:42:17Z",
+        });
+        expect(resultsBodyLastUpdate("[]", "")).toBeNull();
+
+        const csv = `Last Data Update: 05/16/2026 10:42:17 AM\n${CSV}`;
+        expect(new Date(resultsBodyLastUpdate(csv, "America/Chicago")!.ms).toISOString()).toBe("2026-05-16T15:42:17.000Z");
+        expect(resultsBodyLastUpdate(CSV, "")).toBeNull();
+    });
+
+    test("resultsSourceKey and createResultsSource need a code, URL or path", () => {
+        expect(resultsSourceKey({ kind: "sae" }, "ACCEL")).toBe("sae:ACCEL");
+        expect(resultsSourceKey({ kind: "sae" }, undefined)).toBeNull();
+        expect(resultsSourceKey({ kind: "url", url: " https://x/r.csv " }, undefined)).toBe("url:https://x/r.csv");
+        expect(resultsSourceKey({ kind: "file", path: "" }, "ACCEL")).toBeNull();
+
+        expect(createResultsSource({ kind: "sae" }, undefined)).toBeNull();
+        expect(createResultsSource({ kind: "sae" }, "ACCEL")?.label).toBe("SAE");
+        expect(createResultsSource({ kind: "url", url: "https://x/r.csv" }, undefined)?.label).toBe("Results URL");
+        expect(createResultsSource({ kind: "file", path: "r.csv" }, undefined)?.label).toBe("Results file");
+        expect(describeResultsSource({ kind: "sae" }, "ACCEL")).toBe("SAE leaderboard (ACCEL)");
+    });
+
+    test("a URL source fetches conditionally and parses the body as results", async () => {
+        const fetchMock = jest.fn(async (_url: string, init: any) =>
+            init.headers["If-None-Match"] === '"v1"'
+                ? { ok: false, status: 304, headers: new Map<string, string>() }
+                : {
+                    ok: true,
+                    status: 200,
+                    headers: new Map([["etag", '"v1"']]),
+                    text: async () => CSV,
+                }
+        );
+        global.fetch = fetchMock as any;
+
+        const source = createResultsSource({ kind: "url", url: "https://example.org/results.csv" }, undefined)!;
+        const first = await source.fetch(null);
+        expect(fetchMock.mock.calls[0][0]).toBe("https://example.org/results.csv");
+        expect(first.validators.etag).toBe('"v1"');
+        expect(source.parse(first.body!)).toHaveLength(3);
+
+        const second = await source.fetch(first.validators);
+        expect(second.body).toBeNull();
+    });
+});
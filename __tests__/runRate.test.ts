@@ -0,0 +1,161 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    computeArrivalRate,
+    computeEtaRange,
+    computeRunRate,
+    describeRateModel,
+    isFallbackOpen,
+    rateFromTimes,
+    updateFallbackPeriods,
+    type FallbackPeriod,
+} from "@/lib/runRate";
+
+const MIN = 60_000;
+
+describe("runRate.ts - unit tests (rate models)", () => {
+    const start = new Date("2026-01-01T12:00:00.000Z").getTime();
+
+    // 10 cars in the first 10 minutes, then a 10 minute course hold
+    const times = Array.from({ length: 10 }, (_, i) => start + i * MIN);
+    const now = start + 20 * MIN;
+
+    test("cumulative divides every completion by the whole session", () => {
+        expect(rateFromTimes(times, start, now, { model: "cumulative", windowMin: 10 })).toBeCloseTo(0.5, 5);
+    });
+
+    test("window only counts completions inside the last N minutes", () => {
+        expect(rateFromTimes(times, start, now, { model: "window", windowMin: 5 })).toBe(0);
+        expect(rateFromTimes(times, start, start + 10 * MIN, { model: "window", windowMin: 5 })).toBeCloseTo(1, 5);
+    });
+
+    test("window uses the elapsed time while the session is shorter than the window", () => {
+        const early = [start, start + MIN];
+        expect(rateFromTimes(early, start, start + 2 * MIN, { model: "window", windowMin: 10 })).toBeCloseTo(1, 5);
+    });
+
+    test("ewma decays after a hold and sits between cumulative and window", () => {
+        const ewma = rateFromTimes(times, start, now, { model: "ewma", windowMin: 5 });
+        expect(ewma).toBeGreaterThan(0);
+        expect(ewma).toBeLessThan(0.5);
+    });
+
+    test("ewma matches a steady rate", () => {
+        const steady = Array.from({ length: 60 }, (_, i) => start + i * 30_000);
+        const ewma = rateFromTimes(steady, start, start + 30 * MIN, { model: "ewma", windowMin: 5 });
+        expect(ewma).toBeCloseTo(2, 0);
+    });
+
+    test("computeRunRate applies the model to manual completions", () => {
+        const completions = times.map((t) => ({ eventName: "Acceleration", timestamp: new Date(t).toISOString() }));
+        const r = computeRunRate({
+            useSAE: false,
+            saeFresh: false,
+            saeSeen: [],
+            completions,
+            manualStartTs: completions[0].timestamp,
+            nowMs: now,
+            model: { model: "window", windowMin: 15 },
+        });
+        expect(r.sourceLabel).toBe("Manual");
+        expect(r.count).toBe(10);
+        expect(r.rate).toBeCloseTo(5 / 15, 5);
+    });
+
+    test("describeRateModel labels each model", () => {
+        expect(describeRateModel({ model: "cumulative", windowMin: 10 })).toBe("cumulative");
+        expect(describeRateModel({ model: "window", windowMin: 10 })).toBe("last 10 min");
+        expect(describeRateModel({ model: "ewma", windowMin: 5 })).toBe("smoothed 5 min");
+    });
+});
+
+describe("runRate.ts - unit tests (arrival-aware ETA)", () => {
+    const start = new Date("2026-01-01T12:00:00.000Z").getTime();
+
+    test("computeArrivalRate ignores the line that was there before runs started", () => {
+        const arrivals = [
+            new Date(start - 60_000).toISOString(),
+            new Date(start - 30_000).toISOString(),
+            new Date(start + 5 * MIN).toISOString(),
+        ];
+        const r = computeArrivalRate(arrivals, start, start + 10 * MIN);
+        expect(r.count).toBe(1);
+        expect(r.rate).toBeCloseTo(0.1, 5);
+        expect(computeArrivalRate(arrivals, null, start + 10 * MIN).rate).toBe(0);
+    });
+
+    test("computeEtaRange drains the line at run rate minus arrival rate", () => {
+        const eta = computeEtaRange({ lineLength: 10, serviceRate: 2, serviceCount: 40, arrivalRate: 1, arrivalCount: 20 });
+        expect(eta.likely).toBeCloseTo(10, 5);
+        expect(eta.best!).toBeLessThan(eta.likely!);
+        expect(eta.worst!).toBeGreaterThan(eta.likely!);
+    });
+
+    test("computeEtaRange reports an unbounded ETA when arrivals keep up", () => {
+        const eta = computeEtaRange({ lineLength: 5, serviceRate: 1, serviceCount: 10, arrivalRate: 1, arrivalCount: 10 });
+        expect(eta.likely).toBe(Infinity);
+        expect(eta.worst).toBe(Infinity);
+        expect(Number.isFinite(eta.best)).toBe(true);
+    });
+
+    test("computeEtaRange has no ETA without a run rate", () => {
+        const eta = computeEtaRange({ lineLength: 5, serviceRate: 0, serviceCount: 0, arrivalRate: 0, arrivalCount: 0 });
+        expect(eta).toEqual({ likely: undefined, best: undefined, worst: undefined });
+    });
+});
+
+describe("runRate.ts - unit tests (hybrid SAE + manual)", () => {
+    const start = new Date("2026-01-01T12:00:00.000Z").getTime();
+    const iso = (min: number) => new Date(start + min * MIN).toISOString();
+
+    // SAE posts cars 0-4 min, goes stale from 5 to 10 min, then catches up with a burst
+    const saeSeen = [
+        ...[0, 1, 2, 3, 4].map((m) => ({ carNo: `S${m}`, firstSeenTs: iso(m) })),
+        { carNo: "B1", firstSeenTs: iso(10), backfill: true },
+        { carNo: "B2", firstSeenTs: iso(10), backfill: true },
+        { carNo: "S11", firstSeenTs: iso(11) },
+    ];
+    const completions = [3, 6, 8, 11].map((m) => ({ eventName: "Acceleration", timestamp: iso(m) }));
+    const fallback: FallbackPeriod[] = [{ from: iso(5), to: iso(10) }];
+
+    const hybrid = (saeFresh: boolean, periods = fallback) =>
+        computeRunRate({
+            useSAE: true,
+            saeFresh,
+            saeSeen,
+            completions,
+            manualStartTs: completions[0].timestamp,
+            nowMs: start + 12 * MIN,
+            hybrid: true,
+            fallback: periods,
+        });
+
+    test("counts manual taps only inside fallback periods and skips backfilled results", () => {
+        const r = hybrid(true);
+        expect(r.parts).toEqual({ sae: 6, manual: 2 });
+        expect(r.count).toBe(8);
+        expect(r.sourceLabel).toBe("SAE + Manual");
+        expect(r.startMs).toBe(start);
+    });
+
+    test("keeps a rate while the feed is stale", () => {
+        const open = [{ from: iso(5), to: null }];
+        const r = hybrid(false, open);
+        expect(r.sourceLabel).toBe("Manual fallback");
+        expect(r.parts.manual).toBe(3);
+        expect(r.rate).toBeGreaterThan(0);
+
+        const saeOnly = computeRunRate({ useSAE: true, saeFresh: false, saeSeen, completions, manualStartTs: null, nowMs: start + 12 * MIN });
+        expect(saeOnly).toMatchObject({ rate: 0, sourceLabel: "SAE (stale)" });
+    });
+
+    test("updateFallbackPeriods opens on a stale poll and closes on the next fresh one", () => {
+        const opened = updateFallbackPeriods([], false, start + 5 * MIN, start + 6 * MIN);
+        expect(opened).toEqual([{ from: iso(5), to: null }]);
+        expect(isFallbackOpen(opened)).toBe(true);
+        expect(updateFallbackPeriods(opened, false, start + 7 * MIN, start + 7 * MIN)).toBe(opened);
+
+        const closed = updateFallbackPeriods(opened, true, start, start + 10 * MIN);
+        expect(closed).toEqual([{ from: iso(5), to: iso(10) }]);
+        expect(isFallbackOpen(closed)).toBe(false);
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+import http from "http";
+import type { AddressInfo } from "net";
+import { createSaeProxy } from "@/server/saeProxy";
+
+const PAGE = "<html>Last Data Update: 05/16/2026 10:42:17 AM<table><tr><th>Car</th><th>Time</th></tr></table></html>";
+
+let upstreamStatus = 200;
+let upstreamBody = PAGE;
+let upstreamHits: string[] = [];
+
+const upstream = http.createServer((req, res) => {
+    upstreamHits.push(req.url ?? "");
+    res.writeHead(upstreamStatus, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(upstreamBody);
+});
+
+const servers: http.Server[] = [upstream];
+let upstreamUrl = "";
+let clock = 0;
+
+function listen(server: http.Server) {
+    return new Promise<string>((resolve) =>
+        server.listen(0, "127.0.0.1", () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))
+    );
+}
+
+async function startProxy(ttlMs = 10000) {
+    const app = createSaeProxy({ upstreamBase: `${upstreamUrl}/Leaderboard.aspx?Event=`, ttlMs, now: () => clock });
+    const server = http.createServer(app);
+    servers.push(server);
+    return { app, url: await listen(server) };
+}
+
+beforeAll(async () => {
+    upstreamUrl = await listen(upstream);
+});
+
+afterAll(async () => {
+    await Promise.all(servers.map((s) => new Promise((resolve) => s.close(resolve))));
+});
+
+beforeEach(() => {
+    upstreamStatus = 200;
+    upstreamBody = PAGE;
+    upstreamHits = [];
+    clock = 1_000_000;
+});
+
+describe("server/saeProxy.js - proxy against a fake upstream", () => {
+    test("forwards the event code and adds CORS headers", async () => {
+        const { url } = await startProxy();
+        const res = await fetch(`${url}/Leaderboard.aspx?Event=ACCEL`);
+
+        expect(res.status).toBe(200);
+        expect(await res.text()).toBe(PAGE);
+        expect(upstreamHits).toEqual(["/Leaderboard.aspx?Event=ACCEL"]);
+        expect(res.headers.get("access-control-allow-origin")).toBe("*");
+        expect(res.headers.get("access-control-expose-headers")).toContain("ETag");
+        expect(res.headers.get("x-cache")).toBe("MISS");
+    });
+
+    test("serves repeat polls from cache until the TTL runs out", async () => {
+        const { app, url } = await startProxy(10000);
+        await fetch(`${url}/Leaderboard.aspx?Event=MANU`);
+
+        clock += 5000;
+        const hit = await fetch(`${url}/Leaderboard.aspx?Event=MANU`);
+        expect(hit.headers.get("x-cache")).toBe("HIT");
+        expect(app.upstreamFetches()).toBe(1);
+
+        clock += 5000;
+        upstreamBody = PAGE.replace("10:42:17", "10:43:01");
+        const refreshed = await fetch(`${url}/Leaderboard.aspx?Event=MANU`);
+        expect(refreshed.headers.get("x-cache")).toBe("MISS");
+        expect(await refreshed.text()).toContain("10:43:01");
+        expect(app.upstreamFetches()).toBe(2);
+    });
+
+    test("concurrent polls share one upstream fetch", async () => {
+        const { app, url } = await startProxy();
+        const results = await Promise.all(
+            Array.from({ length: 5 }, () => fetch(`${url}/Leaderboard.aspx?Event=SPEC`).then((r) => r.text()))
+        );
+        expect(results.every((body) => body === PAGE)).toBe(true);
+        expect(app.upstreamFetches()).toBe(1);
+    });
+
+    test("answers If-None-Match with 304 when the page hasn't changed", async () => {
+        const { url } = await startProxy();
+        const first = await fetch(`${url}/Leaderboard.aspx?Event=ACCEL`);
+        const etag = first.headers.get("etag")!;
+        expect(etag).toMatch(/^".+"$/);
+
+        const second = await fetch(`${url}/Leaderboard.aspx?Event=ACCEL`, { headers: { "If-None-Match": etag } });
+        expect(second.status).toBe(304);
+    });
+
+    test("serves the last good page when the upstream fails, and 502 without one", async () => {
+        const { url } = await startProxy(1000);
+        await fetch(`${url}/Leaderboard.aspx?Event=ACCEL`);
+
+        upstreamStatus = 500;
+        clock += 2000;
+        const stale = await fetch(`${url}/Leaderboard.aspx?Event=ACCEL`);
+        expect(stale.status).toBe(200);
+        expect(stale.headers.get("x-cache")).toBe("STALE");
+
+        const missing = await fetch(`${url}/Leaderboard.aspx?Event=MANU`);
+        expect(missing.status).toBe(502);
+    });
+
+    test("rejects bad event codes and answers CORS preflight", async () => {
+        const { url } = await startProxy();
+        expect((await fetch(`${url}/Leaderboard.aspx?Event=../etc`)).status).toBe(400);
+        expect((await fetch(`${url}/Leaderboard.aspx`)).status).toBe(400);
+        expect((await fetch(`${url}/other`)).status).toBe(404);
+
+        const preflight = await fetch(`${url}/Leaderboard.aspx?Event=ACCEL`, { method: "OPTIONS" });
+        expect(preflight.status).toBe(204);
+        expect(preflight.headers.get("access-control-allow-headers")).toContain("If-None-Match");
+        expect(upstreamHits).toEqual([]);
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, test } from '@jest/globals';
+import { MAX_SAE_SEEN, crossCheckCarNumbers, updateSeenCars } from "@/lib/saeResults";
+
+describe("saeResults.ts - unit tests (car number cross-check)", () => {
+    const seen = [
+        { carNo: "12", firstSeenTs: "2026-01-01T12:00:00.000Z" },
+        { carNo: "42", firstSeenTs: "2026-01-01T12:01:00.000Z" },
+    ];
+
+    test("splits recorded car numbers into posted and not yet posted", () => {
+        expect(crossCheckCarNumbers(["42", "7", undefined, " 12 ", "", "42"], seen)).toEqual({
+            matched: ["42", "12"],
+            missing: ["7"],
+        });
+    });
+
+    test("reports nothing when no car numbers were recorded", () => {
+        expect(crossCheckCarNumbers([undefined, ""], seen)).toEqual({ matched: [], missing: [] });
+    });
+});
+
+describe("saeResults.ts - unit tests (seen cars)", () => {
+    test("updateSeenCars prepends new cars and caps the history", () => {
+        const existing = [{ carNo: "1", firstSeenTs: "2026-01-01T00:00:00.000Z" }];
+        const next = updateSeenCars(existing, ["1", "2", "3"], "2026-01-01T00:00:10.000Z");
+        expect(next.updated.map((x) => x.carNo)).toEqual(["2", "3", "1"]);
+        expect(next.newlyAdded).toBe(2);
+
+        const full = Array.from({ length: MAX_SAE_SEEN }, (_, i) => ({ carNo: `${i}`, firstSeenTs: "2026-01-01T00:00:00.000Z" }));
+        const capped = updateSeenCars(full, ["new"], "2026-01-01T00:00:10.000Z").updated;
+        expect(capped).toHaveLength(MAX_SAE_SEEN);
+        expect(capped[0].carNo).toBe("new");
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, test } from '@jest/globals';
+import { MAX_SAMPLES, MAX_SAMPLES_BYTES, describeRetention, pruneSamples } from "@/lib/snapshots";
+
+const sample = (timestamp: string) => ({
+    eventName: "Acceleration",
+    timestamp,
+    lineLength: 3,
+    windowMin: null,
+    runRate: 1,
+    etaMinutes: 3,
+});
+
+describe("snapshots.ts - unit tests (retention)", () => {
+    const now = new Date("2026-01-02T12:00:00.000Z").getTime();
+
+    test("pruneSamples drops samples older than the retention window", () => {
+        const samples = [
+            sample("2026-01-02T11:00:00.000Z"),
+            sample("2026-01-01T13:00:00.000Z"),
+            sample("2026-01-01T11:00:00.000Z"),
+        ];
+        expect(pruneSamples(samples, 24, now)).toHaveLength(2);
+        expect(pruneSamples(samples, 12, now)).toHaveLength(1);
+    });
+
+    test("pruneSamples keeps everything up to the hard cap when retention is off", () => {
+        const samples = Array.from({ length: MAX_SAMPLES + 5 }, () => sample("2025-01-01T00:00:00.000Z"));
+        expect(pruneSamples(samples, null, now)).toHaveLength(MAX_SAMPLES);
+    });
+
+    test("pruneSamples keeps the newest samples that fit the size cap", () => {
+        const big = { ...sample("2025-01-01T00:00:00.000Z"), eventName: "x".repeat(2000) };
+        const samples = Array.from({ length: 1000 }, () => big);
+        const kept = pruneSamples(samples, null, now);
+        expect(kept.length).toBeLessThan(samples.length);
+        expect(JSON.stringify(kept).length).toBeLessThanOrEqual(MAX_SAMPLES_BYTES);
+        expect(JSON.stringify(samples.slice(0, kept.length + 1)).length).toBeGreaterThan(MAX_SAMPLES_BYTES);
+    });
+
+    test("describeRetention labels options", () => {
+        expect(describeRetention(24)).toBe("24 h");
+        expect(describeRetention(null)).toBe("All");
+    });
+});
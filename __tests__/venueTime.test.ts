@@ -0,0 +1,58 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    addClockSample,
+    clockOffsetFromDateHeader,
+    describeClockOffset,
+    isValidTimeZone,
+    zonedTimeToMs,
+} from "@/lib/venueTime";
+
+const wall = (month: number, day: number, hour: number, minute = 0) => ({ year: 2026, month, day, hour, minute, second: 0 });
+
+describe("venueTime.ts - unit tests", () => {
+    test("isValidTimeZone", () => {
+        expect(isValidTimeZone("America/Chicago")).toBe(true);
+        expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+        expect(isValidTimeZone("")).toBe(false);
+    });
+
+    test("zonedTimeToMs reads wall-clock times in the venue zone", () => {
+        // CDT is UTC-5 in May, IST is UTC+5:30 all year
+        expect(new Date(zonedTimeToMs(wall(5, 16, 10, 42), "America/Chicago")).toISOString()).toBe("2026-05-16T15:42:00.000Z");
+        expect(new Date(zonedTimeToMs(wall(1, 20, 9), "Asia/Kolkata")).toISOString()).toBe("2026-01-20T03:30:00.000Z");
+    });
+
+    test("zonedTimeToMs handles both sides of a daylight-saving change", () => {
+        // US clocks went forward at 2 AM on 8 March 2026
+        expect(new Date(zonedTimeToMs(wall(3, 8, 1, 30), "America/New_York")).toISOString()).toBe("2026-03-08T06:30:00.000Z");
+        expect(new Date(zonedTimeToMs(wall(3, 8, 3, 30), "America/New_York")).toISOString()).toBe("2026-03-08T07:30:00.000Z");
+    });
+
+    test("zonedTimeToMs falls back to device time for a blank zone", () => {
+        expect(zonedTimeToMs(wall(5, 16, 10), "")).toBe(new Date(2026, 4, 16, 10).getTime());
+    });
+
+    test("clockOffsetFromDateHeader measures the site clock against the request midpoint", () => {
+        const sent = Date.parse("2026-05-16T15:00:00.000Z");
+        expect(clockOffsetFromDateHeader("Sat, 16 May 2026 15:01:30 GMT", sent, sent + 1000)).toBe(90000);
+        expect(clockOffsetFromDateHeader(null, sent, sent)).toBeNull();
+        expect(clockOffsetFromDateHeader("garbage", sent, sent)).toBeNull();
+    });
+
+    test("addClockSample reports the median of recent samples", () => {
+        let state = addClockSample([], 1000);
+        state = addClockSample(state.samples, 50000);
+        state = addClockSample(state.samples, 2000);
+        expect(state.offsetMs).toBe(2000);
+        for (let i = 0; i < 20; i++) state = addClockSample(state.samples, -3000);
+        expect(state.samples).toHaveLength(9);
+        expect(state.offsetMs).toBe(-3000);
+    });
+
+    test("describeClockOffset", () => {
+        expect(describeClockOffset(null)).toBe("");
+        expect(describeClockOffset(1500)).toBe("device clock matches site");
+        expect(describeClockOffset(65000)).toBe("site clock 1m 5s ahead of device");
+        expect(describeClockOffset(-12000)).toBe("site clock 12s behind device");
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, test } from '@jest/globals';
+import type { LeaderboardRow } from "@/lib/leaderboard";
+import { bestRowFor, parseCarList, recordWatchedResults, summarizeWatchedCar, type WatchRecord } from "@/lib/watchlist";
+
+const row = (over: Partial<LeaderboardRow>): LeaderboardRow => ({
+    position: null,
+    carNo: "1",
+    school: "School",
+    status: "OK",
+    timeSec: null,
+    attempt: null,
+    penalties: 0,
+    ...over,
+});
+
+const t = (min: number) => new Date(Date.UTC(2026, 4, 16, 14, min)).toISOString();
+
+describe("watchlist.ts - unit tests", () => {
+    test("parseCarList accepts commas and spaces and drops junk", () => {
+        expect(parseCarList("12, 42 7,,12 abc 12345")).toEqual(["12", "42", "7"]);
+    });
+
+    test("bestRowFor picks the fastest OK attempt", () => {
+        const rows = [
+            row({ carNo: "42", attempt: 1, timeSec: 66.1 }),
+            row({ carNo: "42", attempt: 2, timeSec: 58.4, position: 1 }),
+            row({ carNo: "42", attempt: 3, status: "DQ", timeSec: 50 }),
+            row({ carNo: "7", status: "DNF" }),
+        ];
+        expect(bestRowFor(rows, "42")?.attempt).toBe(2);
+        expect(bestRowFor(rows, "7")?.status).toBe("DNF");
+        expect(bestRowFor(rows, "99")).toBeNull();
+    });
+
+    test("records watched cars and our car only when their standing changes", () => {
+        const watchlist = { cars: ["42", "7"], ourCarNo: "12" };
+        const board1 = [
+            row({ carNo: "12", position: 1, timeSec: 3.9 }),
+            row({ carNo: "42", position: 2, timeSec: 4.0 }),
+            row({ carNo: "55", position: 3, timeSec: 4.1 }),
+        ];
+
+        let history: WatchRecord[] = recordWatchedResults([], "Acceleration", board1, watchlist, t(0));
+        expect(history.map((r) => r.carNo)).toEqual(["42", "12"]);
+
+        expect(recordWatchedResults(history, "Acceleration", board1, watchlist, t(1))).toBe(history);
+
+        const board2 = [
+            row({ carNo: "42", position: 1, timeSec: 3.8 }),
+            row({ carNo: "12", position: 2, timeSec: 3.9 }),
+            row({ carNo: "7", status: "DNF" }),
+        ];
+        history = recordWatchedResults(history, "Acceleration", board2, watchlist, t(2));
+        expect(history).toHaveLength(5);
+        expect(history.slice(2).map((r) => [r.carNo, r.position])).toEqual([["42", 1], ["7", null], ["12", 2]]);
+        expect(history[3]).toMatchObject({ status: "DNF", timeSec: null });
+    });
+
+    test("summarizeWatchedCar reports best run, rank changes and position against our car", () => {
+        const rec = (carNo: string, ts: string, position: number | null, timeSec: number | null): WatchRecord => ({
+            eventName: "Acceleration",
+            carNo,
+            ts,
+            school: "School",
+            position,
+            status: "OK",
+            timeSec,
+            attempts: 1,
+        });
+        const history = [
+            rec("42", t(0), 5, 4.3),
+            rec("12", t(0), 2, 3.9),
+            rec("42", t(5), 3, 4.1),
+            rec("42", t(9), 1, 3.8),
+            rec("12", t(9), 3, 3.9),
+        ];
+
+        expect(summarizeWatchedCar(history, "Acceleration", "42", "12")).toMatchObject({
+            bestTimeSec: 3.8,
+            ranks: [5, 3, 1],
+            rankChange: 2,
+            vsOurCar: -2,
+        });
+        expect(summarizeWatchedCar(history, "Acceleration", "42", "")).toMatchObject({ vsOurCar: null });
+        expect(summarizeWatchedCar(history, "Maneuverability", "42", "12")).toMatchObject({
+            latest: null,
+            bestTimeSec: null,
+            ranks: [],
+            rankChange: null,
+        });
+    });
+});
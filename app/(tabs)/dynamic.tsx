@@ -2,20 +2,136 @@ import AppHeader from '@/components/ui/AppHeader';
 import Card from '@/components/ui/Card';
 import PrimaryButton from '@/components/ui/PrimaryButton';
 import RoundButton from '@/components/ui/RoundButton';
-import React, { useEffect, useMemo, useState } from 'react';
+import TimeSeriesChart from '@/components/ui/TimeSeriesChart';
+import ActionHistory from '@/components/ui/ActionHistory';
+import AlertRulesEditor from '@/components/ui/AlertRulesEditor';
+import WatchlistScreen from '@/components/ui/WatchlistScreen';
+import ReplayControls, { type ReplayState } from '@/components/ui/ReplayControls';
+import ResultsSourcePicker from '@/components/ui/ResultsSourcePicker';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
     Alert,
+    Keyboard,
     Platform,
     Pressable,
     ScrollView,
     StyleSheet,
     Text,
+    TextInput,
     View,
 } from 'react-native';
 import DropDownPicker from 'react-native-dropdown-picker';
 import { useOnline } from '@/offline/OnlineProvider';
+import { useEventCatalog } from '@/catalog/EventCatalogProvider';
+import { useCompetition } from '@/catalog/CompetitionProvider';
+import { useLeaderboardArchive } from '@/catalog/LeaderboardArchiveProvider';
+import { enabledEvents, saeCodeFor, type EventDef, type EventType } from '@/lib/eventCatalog';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
+import * as Haptics from 'expo-haptics';
+import { STORAGE_KEYS, loadArray, loadValue, saveArray, saveValue } from '@/lib/persistence';
+import {
+    DEFAULT_RATE_MODEL,
+    RATE_WINDOW_OPTIONS_MIN,
+    computeArrivalRate,
+    computeEtaRange,
+    computeRunRate,
+    describeRateModel,
+    isFallbackOpen,
+    isSaeFresh,
+    saeStaleSinceMs,
+    updateFallbackPeriods,
+    type FallbackPeriod,
+    type RateModel,
+    type EtaRange,
+    type RateModelConfig,
+    type RunRate,
+} from '@/lib/runRate';
+import type { LeaderboardRow } from '@/lib/leaderboard';
+import {
+    MAX_LEADERBOARD_CHANGES,
+    describeLeaderboardChange,
+    diffLeaderboards,
+    runsFromChanges,
+    type LeaderboardChangeEvent,
+} from '@/lib/leaderboardDiff';
+import { DEFAULT_WATCHLIST, recordWatchedResults, type WatchRecord, type Watchlist } from '@/lib/watchlist';
+import {
+    DEFAULT_POLL_SETTINGS,
+    POLL_INTERVAL_OPTIONS_SEC,
+    contentHash,
+    describeNextPoll,
+    nextPollDelayMs,
+    type PollSettings,
+    type PollValidators,
+} from '@/lib/polling';
+import { addClockSample, describeClockOffset } from '@/lib/venueTime';
+import { createReplaySource, replayClock, type ReplayCapture } from '@/lib/replay';
+import {
+    DEFAULT_RESULTS_SOURCE,
+    createResultsSource,
+    parseLastDataUpdate,
+    resultsSourceKey,
+    type LastUpdate,
+    type ResultsSource,
+    type ResultsSourceConfig,
+} from '@/lib/resultsSources';
+import { createArchivedCapture } from '@/lib/leaderboardArchive';
+import { describeFetchFailure, pageReadError } from '@/lib/resultsClient';
+import {
+    checkParseHealth,
+    describeParseProblems,
+    recordParseFailure,
+    type ParseFailure,
+    type ParseProblem,
+} from '@/lib/parseHealth';
+import { MAX_ALERT_LOG, evaluateAlertRules, type AlertInputs, type AlertRule, type FiredAlert } from '@/lib/alerts';
+import {
+    SAE_FRESH_WINDOW_MS,
+    carsWithResults,
+    crossCheckCarNumbers,
+    hasRecentNewCarSeen,
+    parseCarsWithResults,
+    updateSeenCars,
+    type SAESeen,
+} from '@/lib/saeResults';
+import {
+    DEFAULT_SNAPSHOT_SETTINGS,
+    SNAPSHOT_INTERVAL_OPTIONS_MIN,
+    SNAPSHOT_RETENTION_OPTIONS_HOURS,
+    describeRetention,
+    pruneSamples,
+    type SnapshotSettings,
+} from '@/lib/snapshots';
+import { CHART_RANGES, downsample, fmtClock, seriesFromSamples, type ChartMarker } from '@/lib/charts';
+import {
+    DEFAULT_OUR_CAR_ALERT_AT,
+    OUR_CAR_ALERT_OPTIONS,
+    advanceOurCar,
+    createOurCar,
+    needsRunAlert,
+    predictRunTime,
+    type OurCar,
+    type OurCarEntry,
+} from '@/lib/ourCar';
+import { buildCompletionsCSV, buildSamplesCSV, type Arrival, type Completion, type LineSample } from '@/lib/exporters';
+import {
+    appendAction,
+    createAction,
+    describeAction,
+    undoRedoState,
+    type Action,
+    type ActionEntry,
+} from '@/lib/actionLog';
+import {
+    LANE_OPTIONS,
+    adjustLane,
+    computeLaneMetrics,
+    laneOf,
+    normalizeLaneLines,
+    resizeLanes,
+    type LaneMetrics,
+} from '@/lib/lanes';
 
 
 const palette = {
@@ -27,202 +143,150 @@ const palette = {
     listBg: '#11161d',
     success: '#238636',
     danger: '#b91c1c',
+    sae: '#1f6feb',
 };
 
-type LineSample = {
+/** Per-event Dynamic Day state persisted so a crash or OS kill doesn't lose the run. */
+type DynamicEventState = {
     eventName: string;
-    timestamp: string;
+    useSAE: boolean;
+    /** With `useSAE`, fall back to manual taps while the leaderboard is stale. */
+    hybrid: boolean;
+    /** Stretches the SAE feed was stale, oldest first (see `updateFallbackPeriods`). */
+    saeFallback: FallbackPeriod[];
+    /** Total cars in line across all lanes; always the sum of `laneLines`. */
     lineLength: number;
-    runRate: number;
-    etaMinutes: number | null;
+    /** Cars in line per lane; a single entry for single-lane courses. */
+    laneLines: number[];
+    manualStartTs: string | null;
+    saeSeen: SAESeen[];
+    /** The leaderboard as of the last fresh poll, diffed against the next one; null before the first. */
+    saeBoard: LeaderboardRow[] | null;
+    /** Leaderboard changes seen between polls, newest first. */
+    saeChanges: LeaderboardChangeEvent[];
+    saeLastUpdateMs: number | null;
+    saeLastUpdateRaw: string | null;
+    /** Where results come from; the SAE leaderboard unless the event picks another source. */
+    resultsSource: ResultsSourceConfig;
+    ourCar: OurCar | null;
+    savedAt: string;
 };
 
-type Completion = { eventName: string; timestamp: string };
-type SAESeen = { carNo: string; firstSeenTs: string };
+/** A "Last Data Update" further ahead of the site clock than this means the venue zone is wrong. */
+const FUTURE_UPDATE_TOLERANCE_MS = 5 * 60 * 1000;
+/** Status prefix while the results parser can't make sense of the page. */
+const PARSER_BROKEN_STATUS = 'Parser may be broken';
+/** Poll-loop code for an event playing a replay instead of its live leaderboard. */
+const REPLAY_CODE_PREFIX = 'replay:';
 
-const SAE_EVENT_CODE: Record<string, string> = {
-    Acceleration: 'ACCEL',
-    Maneuverability: 'MANU',
-    Suspension: 'SPEC',
-};
+/**
+ * An event's poll-loop source key (see `resultsSourceKey`), or null if it has nothing to poll. A
+ * replaying event's key names the replay, so starting or stopping one restarts its loop.
+ */
+function pollKeyFor(s: DynamicEventState, catalog: EventDef[], replay: ReplayState | null) {
+    return replay?.eventName === s.eventName
+        ? `${REPLAY_CODE_PREFIX}${replay.startMs}`
+        : resultsSourceKey(s.resultsSource, saeCodeFor(catalog, s.eventName));
+}
+
+/** Whether a poll-loop source key polls without the network: replays and local results files do. */
+function pollsOffline(key: string) {
+    return key.startsWith(REPLAY_CODE_PREFIX) || key.startsWith('file:');
+}
 
-const SAE_BASE = 'https://results.bajasae.net/Leaderboard.aspx?Event=';
-const SAE_PROXY_BASE =
-    (typeof process !== 'undefined' ? (process as any).env?.EXPO_PUBLIC_SAE_PROXY_BASE : undefined) as
-    | string
-    | undefined;
-const SAE_FRESH_WINDOW_MS = 60 * 1000;
+const DYNAMIC_EVENT_TYPES: EventType[] = ['timed', 'queue-only'];
 
 const dropdownListMode = 'SCROLLVIEW';
 
+/** `lanes` is the per-lane breakdown, empty for single-lane events. */
+type EventMetrics = RunRate & { arrivalRate: number; eta: EtaRange; lanes: LaneMetrics[] };
+
+const RATE_MODEL_OPTIONS: { model: RateModel; label: string }[] = [
+    { model: 'cumulative', label: 'Cumulative' },
+    { model: 'window', label: 'Window' },
+    { model: 'ewma', label: 'Smoothed' },
+];
+
 /**
  * Exports utility functions for parsing and managing car data with results.
  * 
  * @exports parseCarsWithResults - Parses cars data and their associated results
  * @exports parseLastDataUpdate - Parses the timestamp of the last data update
  * @exports hasRecentNewCarSeen - Checks if a new car has been recently observed
- * @exports updateSeenCars - Updates the collection of cars that have been seen
+ * @exports restoreEventState - Rehydrates a saved per-event state, marking old SAE data stale
  */
 export {
     parseCarsWithResults,
     parseLastDataUpdate,
     hasRecentNewCarSeen,
-    updateSeenCars,
+    restoreEventState,
 };
 
-/**
- * Parses HTML content to extract car numbers that have valid results.
- *
- * @param html - The HTML string to parse. HTML tags are stripped and whitespace is normalized.
- * @returns An array of unique car numbers (as strings) that have valid results with positive time values.
- *
- * @remarks
- * The function searches for patterns matching: number, car number, optional text, "OK", and a positive time value.
- * Only car numbers with finite and positive time values are included in the result.
- * Results are deduplicated using a Set.
- *
- * @example
- * const html = '<div>123 456 Race OK 12.5</div>';
- * const cars = parseCarsWithResults(html);
- * // Returns: ['456']
- */
-function parseCarsWithResults(html: string): string[] {
-    const text = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ');
-    const re = /\b(\d{1,3})\s+(\d{1,4})\s+.*?\s+OK\s+(\d+(?:\.\d+)?)\b/g;
-
-    const cars = new Set<string>();
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(text))) {
-        const carNo = m[2];
-        const time = Number(m[3]);
-        if (Number.isFinite(time) && time > 0) cars.add(carNo);
-    }
-    return [...cars];
-}
+/** A per-event state as saved by any app version; fields added later may be missing. */
+type AddedFields =
+    | 'useSAE'
+    | 'hybrid'
+    | 'saeFallback'
+    | 'laneLines'
+    | 'ourCar'
+    | 'saeBoard'
+    | 'saeChanges'
+    | 'resultsSource';
+type SavedEventState = Omit<DynamicEventState, AddedFields> & Partial<Pick<DynamicEventState, AddedFields>>;
 
 /**
- * Parses the "Last Data Update" timestamp from HTML content.
- *
- * Extracts and converts a date-time string in the format "MM/DD/YYYY HH:MM:SS AM/PM"
- * from the provided HTML, removing all tags and normalizing whitespace.
- *
- * @param html - The HTML string to parse for the last data update timestamp
- * @returns An object containing the timestamp in milliseconds and the raw formatted string,
- *          or null if the timestamp pattern is not found or parsing fails
- * @returns {number} ms - Unix timestamp in milliseconds (local time)
- * @returns {string} raw - The original formatted timestamp string (e.g., "12/25/2023 03:45:30 PM")
+ * Rehydrates a saved per-event state for use after an app restart.
  *
- * @example
- * const result = parseLastDataUpdate('<p>Last Data Update: 12/25/2023 03:45:30 PM</p>');
- * // Returns: { ms: 1703505930000, raw: "12/25/2023 03:45:30 PM" }
- */
-function parseLastDataUpdate(html: string): { ms: number; raw: string } | null {
-    const text = html
-        .replace(/<[^>]*>/g, ' ')
-        .replace(/&nbsp;/gi, ' ')
-        .replace(/\s+/g, ' ')
-        .trim();
-    const re =
-        /Last\s*Data\s*Update\s*:\s*([0-9]{1,2}\/[0-9]{1,2}\/[0-9]{4})\s+([0-9]{1,2}:[0-9]{2}:[0-9]{2})\s*(AM|PM)/i;
-
-    const m = text.match(re);
-    if (!m) return null;
-
-    const datePart = m[1]; // MM/DD/YYYY
-    const timePart = m[2]; // HH:MM:SS
-    const ampm = m[3].toUpperCase(); // AM/PM
-
-    const [mmStr, ddStr, yyyyStr] = datePart.split('/');
-    const [hhStr, minStr, secStr] = timePart.split(':');
-
-    const mm = Number(mmStr);
-    const dd = Number(ddStr);
-    const yyyy = Number(yyyyStr);
-    let hh = Number(hhStr);
-    const min = Number(minStr);
-    const sec = Number(secStr);
-
-    if (![mm, dd, yyyy, hh, min, sec].every(Number.isFinite)) return null;
-
-    // 12h -> 24h
-    if (ampm === 'PM' && hh !== 12) hh += 12;
-    if (ampm === 'AM' && hh === 12) hh = 0;
-
-    const d = new Date(yyyy, mm - 1, dd, hh, min, sec); // local time
-    const ms = d.getTime();
-    if (!Number.isFinite(ms)) return null;
-
-    return { ms, raw: `${datePart} ${timePart} ${ampm}` };
-}
-
-/**
- * Determines whether a recently seen car has been observed within the freshness window.
- * @param seen - Array of SAESeen objects to check
+ * @param saved - The persisted state for the event, or undefined if nothing was saved
+ * @param eventName - The event being restored
  * @param nowMs - Current timestamp in milliseconds
- * @returns True if any car in the seen array was first observed within the freshness window, false otherwise
- */
-function hasRecentNewCarSeen(seen: SAESeen[], nowMs: number) {
-    return seen.some((s) => {
-        const t = new Date(s.firstSeenTs).getTime();
-        return Number.isFinite(t) && nowMs - t <= SAE_FRESH_WINDOW_MS;
-    });
-}
-
-/**
- * Fetches the leaderboard HTML content for a given event code.
- *
- * @param eventCode - The event code to fetch the leaderboard for.
- * @returns A promise that resolves to the HTML content of the leaderboard.
- * @throws {Error} If the fetch fails and no fallback URL is available, or if both primary and fallback URLs fail.
- *
- * @remarks
- * This function attempts to fetch leaderboard data with platform-specific URL preference:
- * - **Web**: Prefers proxy URL (to avoid CORS issues), falls back to direct URL
- * - **Native**: Prefers direct URL, falls back to proxy URL if available
- *
- * The fetch is configured with `cache: 'no-store'` to ensure fresh data is retrieved.
- */
-async function fetchLeaderboardHtml(eventCode: string): Promise<string> {
-    const directUrl = `${SAE_BASE}${encodeURIComponent(eventCode)}`;
-    const proxyUrl = SAE_PROXY_BASE ? `${SAE_PROXY_BASE}${encodeURIComponent(eventCode)}` : undefined;
-
-    // Web: prefer proxy (CORS). Native: prefer direct (usually works).
-    const primary = Platform.OS === 'web' ? (proxyUrl ?? directUrl) : directUrl;
-    const fallback = Platform.OS === 'web' ? (proxyUrl ? directUrl : undefined) : proxyUrl;
-
-    async function tryFetch(url: string) {
-        const res = await fetch(url, { cache: 'no-store' as any });
-        if (!res.ok) throw new Error(`SAE fetch failed: ${res.status}`);
-        return await res.text();
-    }
-
-    try {
-        return await tryFetch(primary);
-    } catch (e) {
-        if (fallback) return await tryFetch(fallback);
-        throw e;
-    }
-}
-
-/**
- * Updates the list of seen cars by adding new cars and maintaining a maximum history.
- * @param existing - The existing array of seen cars with their first seen timestamps
- * @param carsNow - The array of car numbers currently detected
- * @param nowIso - The current timestamp in ISO format
- * @returns A new array of seen cars with newly detected cars prepended, limited to 800 entries
+ * @returns The state to load into the tab. SAE results are kept (so they aren't re-detected as new)
+ *          but marked stale when the save is older than the freshness window, so the gap while the
+ *          app was closed doesn't get counted toward the SAE run rate.
  */
-function updateSeenCars(existing: SAESeen[], carsNow: string[], nowIso: string) {
-    const seenSet = new Set(existing.map((x) => x.carNo));
-    const additions: SAESeen[] = [];
-
-    for (const carNo of carsNow) {
-        if (!seenSet.has(carNo)) {
-            additions.push({ carNo, firstSeenTs: nowIso });
-            seenSet.add(carNo);
-        }
+function restoreEventState(
+    saved: SavedEventState | undefined,
+    eventName: string,
+    nowMs: number
+): DynamicEventState {
+    if (!saved) {
+        return {
+            eventName,
+            useSAE: true,
+            hybrid: false,
+            saeFallback: [],
+            lineLength: 0,
+            laneLines: [0],
+            manualStartTs: null,
+            saeSeen: [],
+            saeBoard: null,
+            saeChanges: [],
+            saeLastUpdateMs: null,
+            saeLastUpdateRaw: null,
+            resultsSource: DEFAULT_RESULTS_SOURCE,
+            ourCar: null,
+            savedAt: new Date(nowMs).toISOString(),
+        };
     }
 
-    return [...additions, ...existing].slice(0, 800);
+    const savedAtMs = new Date(saved.savedAt).getTime();
+    const saeIsOld = !Number.isFinite(savedAtMs) || nowMs - savedAtMs > SAE_FRESH_WINDOW_MS;
+    const lineLength = Math.max(0, Math.floor(Number(saved.lineLength)) || 0);
+
+    return {
+        ...saved,
+        useSAE: saved.useSAE ?? true,
+        hybrid: saved.hybrid ?? false,
+        saeFallback: saved.saeFallback ?? [],
+        ourCar: saved.ourCar ?? null,
+        lineLength,
+        laneLines: normalizeLaneLines(saved.laneLines, lineLength),
+        saeSeen: saeIsOld ? (saved.saeSeen ?? []).map((s) => ({ ...s, stale: true })) : saved.saeSeen ?? [],
+        // An old board would turn everything posted while the app was closed into new runs
+        saeBoard: saeIsOld ? null : saved.saeBoard ?? null,
+        saeChanges: saved.saeChanges ?? [],
+        resultsSource: saved.resultsSource ?? DEFAULT_RESULTS_SOURCE,
+    };
 }
 
 /**
@@ -236,11 +300,12 @@ function updateSeenCars(existing: SAESeen[], carsNow: string[], nowIso: string)
  * @returns {JSX.Element} The rendered dynamic tracking tab with event selection, queue controls, and metrics.
  *
  * @remarks
- * - **SAE Mode**: Automatically polls SAE leaderboard for selected event, tracking new car results and calculating run rates based on actual submissions.
+ * - **SAE Mode**: Automatically polls the SAE leaderboard for every tracked event, tracking new car results and calculating run rates based on actual submissions.
  * - **Manual Mode**: Allows manual queue input with completion tracking to derive run rates and ETAs.
- * - **Dual State Management**: Maintains separate state for SAE ("seen" cars, last update times) and manual mode (start timestamp).
+ * - **Parallel Events**: Every selected event keeps its own queue, mode, SAE poll loop and run rate; the overview card compares them side by side.
  * - **Real-time Updates**: Uses a 1-second ticker to smoothly update elapsed time metrics.
- * - **Event Isolation**: Resets all tracking state when event selection changes to prevent metric contamination.
+ * - **Event Isolation**: Each event's tracking state is kept separately to prevent metric contamination.
+ * - **Persistence**: Saves samples, completions and per-event state to AsyncStorage and restores them on launch.
  * - **Freshness Heuristics**: Employs dual validation (timestamp-based and fallback) to determine data freshness.
  * - **Activity Log**: Displays recent snapshots, completions, and SAE results in reverse chronological order.
  *
@@ -249,7 +314,7 @@ function updateSeenCars(existing: SAESeen[], carsNow: string[], nowIso: string)
  * <DynamicTab />
  * ```
  *
- * @see {@link SAE_EVENT_CODE} - Event code mapping for SAE leaderboard URLs
+ * @see {@link saeCodeFor} - Event code mapping for SAE leaderboard URLs (from the event catalogue)
  * @see {@link SAE_FRESH_WINDOW_MS} - Freshness window for SAE data validation
  * @see {@link LineSample} - Queue snapshot data structure
  * @see {@link Completion} - Completion record structure
@@ -257,30 +322,192 @@ function updateSeenCars(existing: SAESeen[], carsNow: string[], nowIso: string)
  */
 export default function DynamicTab() {
     const isOnline = useOnline();
+    const { catalog } = useEventCatalog();
+    const { competition } = useCompetition();
+    const { archive } = useLeaderboardArchive();
 
     const [eventName, setEventName] = useState('');
-    const [lineLength, setLineLength] = useState('0');
+    const [events, setEvents] = useState<Record<string, DynamicEventState>>({});
     const [samples, setSamples] = useState<LineSample[]>([]);
     const [completions, setCompletions] = useState<Completion[]>([]);
-
-    // SAE run-rate
-    const [useSAERunRate, setUseSAERunRate] = useState(true);
-    const [saeSeen, setSaeSeen] = useState<SAESeen[]>([]);
-    const [saeStatus, setSaeStatus] = useState<string>('SAE idle');
-
-    const [saeLastUpdateMs, setSaeLastUpdateMs] = useState<number | null>(null);
-    const [saeLastUpdateRaw, setSaeLastUpdateRaw] = useState<string | null>(null);
+    const [arrivals, setArrivals] = useState<Arrival[]>([]);
+    const [actionLog, setActionLog] = useState<ActionEntry[]>([]);
+    const [historyOpen, setHistoryOpen] = useState(false);
+    const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+    const [alertLog, setAlertLog] = useState<FiredAlert[]>([]);
+    const [alertBanner, setAlertBanner] = useState<FiredAlert | null>(null);
+    const [watchlist, setWatchlist] = useState<Watchlist>(DEFAULT_WATCHLIST);
+    const [watchHistory, setWatchHistory] = useState<WatchRecord[]>([]);
+    const [watchlistOpen, setWatchlistOpen] = useState(false);
+    const [pollSettings, setPollSettings] = useState<PollSettings>(DEFAULT_POLL_SETTINGS);
+    const [replay, setReplay] = useState<ReplayState | null>(null);
+    const [parseFailures, setParseFailures] = useState<ParseFailure[]>([]);
+    /** When each SAE poll loop polls next, and how many errors in a row it is backing off from. */
+    const [nextPoll, setNextPoll] = useState<Record<string, { at: number; errors: number }>>({});
+
+    // SAE status line per event (not persisted)
+    const [saeStatus, setSaeStatus] = useState<Record<string, string>>({});
 
     // Manual run-rate stability
     const [nowMs, setNowMs] = useState(() => Date.now());
-    const [manualStartTs, setManualStartTs] = useState<string | null>(null);
+    const [rateModel, setRateModel] = useState<RateModelConfig>(DEFAULT_RATE_MODEL);
+    const [snapshotSettings, setSnapshotSettings] = useState<SnapshotSettings>(DEFAULT_SNAPSHOT_SETTINGS);
+    const [chartRangeMin, setChartRangeMin] = useState<number | null>(120);
+
+    // Our-car entry form
+    const [ourCarInput, setOurCarInput] = useState('');
+    const [carNoInput, setCarNoInput] = useState('');
+    const [ourCarEntry, setOurCarEntry] = useState<OurCarEntry>('position');
+    const [ourCarAlertAt, setOurCarAlertAt] = useState(DEFAULT_OUR_CAR_ALERT_AT);
 
     const [open, setOpen] = useState(false);
-    const [items, setItems] = useState([
-        { label: 'Acceleration', value: 'Acceleration' },
-        { label: 'Maneuverability', value: 'Maneuverability' },
-        { label: 'Suspension', value: 'Suspension' },
-    ]);
+    // Dynamic Day events from the catalogue; a tracked event stays listed if it's disabled later
+    const items = useMemo(() => {
+        const names = enabledEvents(catalog, DYNAMIC_EVENT_TYPES).map((e) => e.name);
+        if (eventName && !names.includes(eventName)) names.push(eventName);
+        return names.map((name) => ({ label: name, value: name }));
+    }, [catalog, eventName]);
+
+    // Persistence: nothing is written back until the saved state has been loaded
+    const [hydrated, setHydrated] = useState(false);
+
+    const current: DynamicEventState | undefined = events[eventName];
+    const useSAERunRate = current?.useSAE ?? true;
+    const hybridMode = useSAERunRate && !!current?.hybrid;
+    const saeOnly = useSAERunRate && !hybridMode;
+
+    function updateEvent(name: string, fn: (s: DynamicEventState) => DynamicEventState) {
+        setEvents((prev) => {
+            const base = prev[name] ?? restoreEventState(undefined, name, Date.now());
+            return { ...prev, [name]: { ...fn(base), savedAt: new Date().toISOString() } };
+        });
+    }
+
+    function setEventStatus(name: string, msg: string) {
+        setSaeStatus((prev) => (prev[name] === msg ? prev : { ...prev, [name]: msg }));
+    }
+
+    // Restore samples, completions, every tracked event and the last selected event on launch
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            const [
+                savedSamples,
+                savedCompletions,
+                savedArrivals,
+                savedEvents,
+                savedSelected,
+                savedRateModel,
+                savedSnapshotSettings,
+                savedActionLog,
+                savedAlertRules,
+                savedAlertLog,
+                savedWatchlist,
+                savedWatchHistory,
+                savedPollSettings,
+                savedParseFailures,
+            ] = await Promise.all([
+                loadArray<LineSample>(STORAGE_KEYS.samples),
+                loadArray<Completion>(STORAGE_KEYS.completions),
+                loadArray<Arrival>(STORAGE_KEYS.arrivals),
+                loadArray<SavedEventState>(STORAGE_KEYS.dynamicEvents),
+                loadValue<string>(STORAGE_KEYS.dynamicSelectedEvent, ''),
+                loadValue<RateModelConfig>(STORAGE_KEYS.rateModel, DEFAULT_RATE_MODEL),
+                loadValue<SnapshotSettings>(STORAGE_KEYS.snapshotSettings, DEFAULT_SNAPSHOT_SETTINGS),
+                loadArray<ActionEntry>(STORAGE_KEYS.actionLog),
+                loadArray<AlertRule>(STORAGE_KEYS.alertRules),
+                loadArray<FiredAlert>(STORAGE_KEYS.alertLog),
+                loadValue<Watchlist>(STORAGE_KEYS.watchlist, DEFAULT_WATCHLIST),
+                loadArray<WatchRecord>(STORAGE_KEYS.watchHistory),
+                loadValue<PollSettings>(STORAGE_KEYS.pollSettings, DEFAULT_POLL_SETTINGS),
+                loadArray<ParseFailure>(STORAGE_KEYS.parseFailures),
+            ]);
+            if (cancelled) return;
+
+            const now = Date.now();
+            setEvents(
+                Object.fromEntries(savedEvents.map((s) => [s.eventName, restoreEventState(s, s.eventName, now)]))
+            );
+            setSamples(savedSamples);
+            setCompletions(savedCompletions);
+            setArrivals(savedArrivals);
+            setActionLog(savedActionLog);
+            setAlertRules(savedAlertRules);
+            setAlertLog(savedAlertLog);
+            setWatchlist({ ...DEFAULT_WATCHLIST, ...savedWatchlist });
+            setWatchHistory(savedWatchHistory);
+            setPollSettings({ ...DEFAULT_POLL_SETTINGS, ...savedPollSettings });
+            setParseFailures(savedParseFailures);
+            setEventName(savedSelected);
+            setRateModel({ ...DEFAULT_RATE_MODEL, ...savedRateModel });
+            setSnapshotSettings({ ...DEFAULT_SNAPSHOT_SETTINGS, ...savedSnapshotSettings });
+            setHydrated(true);
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    useEffect(() => {
+        if (hydrated) saveArray(STORAGE_KEYS.samples, samples);
+    }, [hydrated, samples]);
+
+    useEffect(() => {
+        if (hydrated) saveArray(STORAGE_KEYS.completions, completions);
+    }, [hydrated, completions]);
+
+    useEffect(() => {
+        if (hydrated) saveArray(STORAGE_KEYS.arrivals, arrivals);
+    }, [hydrated, arrivals]);
+
+    useEffect(() => {
+        if (hydrated) saveArray(STORAGE_KEYS.actionLog, actionLog);
+    }, [hydrated, actionLog]);
+
+    useEffect(() => {
+        if (hydrated) saveArray(STORAGE_KEYS.alertRules, alertRules);
+    }, [hydrated, alertRules]);
+
+    useEffect(() => {
+        if (hydrated) saveArray(STORAGE_KEYS.alertLog, alertLog);
+    }, [hydrated, alertLog]);
+
+    useEffect(() => {
+        if (hydrated) saveValue(STORAGE_KEYS.watchlist, watchlist);
+    }, [hydrated, watchlist]);
+
+    useEffect(() => {
+        if (hydrated) saveArray(STORAGE_KEYS.watchHistory, watchHistory);
+    }, [hydrated, watchHistory]);
+
+    useEffect(() => {
+        if (hydrated) saveValue(STORAGE_KEYS.dynamicSelectedEvent, eventName);
+    }, [hydrated, eventName]);
+
+    useEffect(() => {
+        if (hydrated) saveArray(STORAGE_KEYS.dynamicEvents, Object.values(events));
+    }, [hydrated, events]);
+
+    useEffect(() => {
+        if (hydrated) saveValue(STORAGE_KEYS.rateModel, rateModel);
+    }, [hydrated, rateModel]);
+
+    useEffect(() => {
+        if (hydrated) saveValue(STORAGE_KEYS.snapshotSettings, snapshotSettings);
+    }, [hydrated, snapshotSettings]);
+
+    useEffect(() => {
+        if (hydrated) saveArray(STORAGE_KEYS.parseFailures, parseFailures);
+    }, [hydrated, parseFailures]);
+
+    useEffect(() => {
+        if (hydrated) saveValue(STORAGE_KEYS.pollSettings, pollSettings);
+    }, [hydrated, pollSettings]);
+
+    // Apply the retention policy on launch and whenever it changes
+    useEffect(() => {
+        if (hydrated) setSamples((prev) => pruneSamples(prev, snapshotSettings.retentionHours, Date.now()));
+    }, [hydrated, snapshotSettings.retentionHours]);
 
     // Tick so manual/SAE rates update smoothly
     useEffect(() => {
@@ -288,58 +515,175 @@ export default function DynamicTab() {
         return () => clearInterval(id);
     }, []);
 
-    // When event changes, reset SAE “seen”, lastUpdate, and manual start (avoids mixing)
-    useEffect(() => {
-        setSaeSeen([]);
-        setSaeLastUpdateMs(null);
-        setSaeLastUpdateRaw(null);
-        setManualStartTs(null);
-    }, [eventName]);
+    // Selecting an event starts tracking it; its state is kept when switching away
+    function selectEvent(next: string, log = true) {
+        if (log && next !== eventName) logAction(next || eventName, { kind: 'event', from: eventName, to: next });
+        setEventName(next);
+        if (!next) return;
+        setEvents((prev) => (prev[next] ? prev : { ...prev, [next]: restoreEventState(undefined, next, Date.now()) }));
+    }
 
-    // Poll SAE leaderboard when enabled + online + event selected
-    useEffect(() => {
-        if (!useSAERunRate) {
-            setSaeStatus('SAE disabled (manual mode)');
-            return;
-        }
+    function logAction(name: string, action: Action) {
+        const entry = createAction(name, action, new Date().toISOString());
+        setActionLog((prev) => appendAction(prev, entry));
+    }
 
-        const code = SAE_EVENT_CODE[eventName];
-        if (!code) {
-            setSaeStatus('Select an event to pull SAE results');
-            return;
-        }
+    // Poll loops outlive renders, so they read the watchlist, venue time zone and archive through refs
+    const watchlistRef = useRef(watchlist);
+    const venueTimeZoneRef = useRef(competition.venueTimeZone);
+    const archiveRef = useRef(archive);
+    useEffect(() => {
+        watchlistRef.current = watchlist;
+        venueTimeZoneRef.current = competition.venueTimeZone;
+        archiveRef.current = archive;
+    });
 
-        if (!isOnline) {
-            setSaeStatus('Offline (SAE paused)');
-            return;
-        }
+    const pollSettingsRef = useRef(pollSettings);
+    useEffect(() => {
+        pollSettingsRef.current = pollSettings;
+    });
 
+    // Site-minus-device clock offset, from the `Date` header of recent SAE responses
+    const siteClockRef = useRef<{ samples: number[]; offsetMs: number | null }>({ samples: [], offsetMs: null });
+
+    /**
+     * Starts a results poll loop for one event.
+     * @param source - Where the event's results come from
+     * @param saeCode - The event's SAE code, for archiving SAE pages
+     * @param replaying - The replay `source` plays, which sets the loop's timing
+     * @returns A function that stops the loop
+     */
+    function startSaePoll(name: string, source: ResultsSource, saeCode?: string, replaying?: ReplayState) {
         let cancelled = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let consecutiveErrors = 0;
+        let lastChangeMs: number | null = null;
+        let lastSuccessMs: number | null = null;
+        // The last full page; reused when the server answers 304 or sends the same content again
+        let page: {
+            validators: PollValidators;
+            hash: string;
+            html: string;
+            rows: LeaderboardRow[];
+            hasLastUpdate: boolean;
+        } | null = null;
+        // The current page when the parser couldn't make sense of it
+        let broken: { hash: string; problems: ParseProblem[] } | null = null;
+        const clock = replaying ? replayClock(replaying.captures, replaying.speed, replaying.startMs) : null;
+
+        const schedule = () => {
+            const played = clock ? clock.dueIndex(Date.now()) : -1;
+            if (replaying && played >= replaying.captures.length - 1) {
+                setNextPoll((prev) => {
+                    const { [name]: _, ...rest } = prev;
+                    return rest;
+                });
+                return;
+            }
+            const delay = clock
+                ? Math.max(250, clock.dueAtMs(played + 1) - Date.now())
+                : nextPollDelayMs({
+                    settings: pollSettingsRef.current,
+                    consecutiveErrors,
+                    lastChangeMs,
+                    nowMs: Date.now(),
+                });
+            setNextPoll((prev) => ({ ...prev, [name]: { at: Date.now() + delay, errors: consecutiveErrors } }));
+            timer = setTimeout(tick, delay);
+        };
 
         const tick = async () => {
             try {
-                setSaeStatus('Fetching SAE…');
+                if (!replaying) setEventStatus(name, `Fetching ${source.label}…`);
 
-                const html = await fetchLeaderboardHtml(code);
+                const res = await source.fetch(page?.validators ?? null);
                 if (cancelled) return;
+                lastSuccessMs = Date.now();
+
+                const { clockOffsetMs } = res;
+                const hash = res.body !== null ? contentHash(res.body) : (broken?.hash ?? page?.hash);
+                if (res.body !== null && hash !== page?.hash && hash !== broken?.hash) {
+                    if (page) lastChangeMs = Date.now();
+                    let rows: LeaderboardRow[];
+                    let lastUpdate: LastUpdate | null;
+                    try {
+                        rows = source.parse(res.body);
+                        lastUpdate = source.lastUpdate(res.body, venueTimeZoneRef.current);
+                    } catch (e) {
+                        throw pageReadError(e, res.from);
+                    }
+                    const hasLastUpdate = lastUpdate !== null;
+                    const problems = checkParseHealth({
+                        body: res.body,
+                        rows,
+                        hasLastUpdate,
+                        expectLastUpdate: source.reportsLastUpdate,
+                        lastGood: page ? { rows: page.rows.length, hasLastUpdate: page.hasLastUpdate } : null,
+                    });
+                    if (problems.length > 0) {
+                        // Keep the last good parse and the offending page for a bug report
+                        broken = { hash: hash!, problems };
+                        const failure: ParseFailure = {
+                            capturedAt: new Date().toISOString(),
+                            html: res.body,
+                            eventName: name,
+                            source: source.label,
+                            problems,
+                            ...(saeCode ? { eventCode: saeCode } : {}),
+                        };
+                        setParseFailures((prev) => recordParseFailure(prev, failure));
+                    } else {
+                        broken = null;
+                        page = { validators: res.validators, hash: hash!, html: res.body, rows, hasLastUpdate };
+                    }
+                    if (saeCode) {
+                        archiveRef.current(
+                            createArchivedCapture({
+                                eventName: name,
+                                eventCode: saeCode,
+                                html: res.body,
+                                fetchedAt: new Date().toISOString(),
+                                lastUpdate,
+                            })
+                        );
+                    }
+                }
+                if (broken && hash === broken.hash) {
+                    setEventStatus(
+                        name,
+                        `${PARSER_BROKEN_STATUS} — ${describeParseProblems(broken.problems, page ? page.rows.length : null)}`
+                    );
+                    consecutiveErrors = 0;
+                    schedule();
+                    return;
+                }
+                if (!page) throw new Error(`${source.label} returned no page`);
+                const { html, rows } = page;
 
-                const carsNow = parseCarsWithResults(html);
-
-                const last = parseLastDataUpdate(html);
-                const now = Date.now();
-
-                if (last) {
-                    setSaeLastUpdateMs(last.ms);
-                    setSaeLastUpdateRaw(last.raw);
-                } else {
-                    setSaeLastUpdateMs(null);
-                    setSaeLastUpdateRaw(null);
+                // A replay moves capture time onto the device clock; at speed, rates run that much faster
+                if (clockOffsetMs !== null && !replaying) {
+                    siteClockRef.current = addClockSample(siteClockRef.current.samples, clockOffsetMs);
                 }
+                const siteOffsetMs = replaying ? clockOffsetMs : siteClockRef.current.offsetMs;
+                const played = clock ? clock.dueIndex(Date.now()) : -1;
+                const clockNote = replaying
+                    ? ` · replay ${replaying.speed}×, capture ${played + 1}/${replaying.captures.length}${played >= replaying.captures.length - 1 ? ' (finished)' : ''}`
+                    : siteOffsetMs !== null
+                        ? ` · ${describeClockOffset(siteOffsetMs)}`
+                        : '';
+
+                const carsNow = carsWithResults(rows);
+                // Site time, read in the venue's zone and moved onto the device clock
+                const parsed = source.lastUpdate(html, venueTimeZoneRef.current);
+                const last = parsed ? { ...parsed, ms: parsed.ms - (siteOffsetMs ?? 0) } : null;
+                const now = Date.now();
+                const nowIso = new Date(now).toISOString();
 
-                const nowIso = new Date().toISOString();
+                // Replayed results aren't real standings, so they stay out of the watchlist history
+                if (!replaying) setWatchHistory((prev) => recordWatchedResults(prev, name, rows, watchlistRef.current, nowIso));
 
-                setSaeSeen((prev) => {
-                    const updatedSeen = updateSeenCars(prev, carsNow, nowIso);
+                updateEvent(name, (s) => {
+                    const { updated: updatedSeen } = updateSeenCars(s.saeSeen, carsNow, nowIso);
 
                     const freshByTimestamp =
                         last && now - last.ms >= 0 && now - last.ms <= SAE_FRESH_WINDOW_MS;
@@ -348,38 +692,171 @@ export default function DynamicTab() {
 
                     const fresh = !!freshByTimestamp || !!freshByFallback;
 
-                    if (last) {
-                        setSaeStatus(
+                    if (last && last.ms - now > FUTURE_UPDATE_TOLERANCE_MS) {
+                        setEventStatus(
+                            name,
+                            `${source.label} stale — Last Data Update (${last.raw}) is ${Math.round((last.ms - now) / 60000)} min in the future; check the venue time zone in Settings${clockNote}`
+                        );
+                    } else if (last) {
+                        setEventStatus(
+                            name,
                             fresh
-                                ? `SAE OK — site updated ${Math.round((now - last.ms) / 1000)}s ago (Last Data Update: ${last.raw})`
-                                : `SAE stale — site updated ${Math.round((now - last.ms) / 1000)}s ago (Last Data Update: ${last.raw})`
+                                ? `${source.label} OK — site updated ${Math.round((now - last.ms) / 1000)}s ago (Last Data Update: ${last.raw})${clockNote}`
+                                : `${source.label} stale — site updated ${Math.round((now - last.ms) / 1000)}s ago (Last Data Update: ${last.raw})${clockNote}`
                         );
                     } else {
-                        setSaeStatus(
+                        setEventStatus(
+                            name,
                             fresh
-                                ? `SAE OK — (timestamp not found; using fallback)`
-                                : `SAE stale — (timestamp not found; using fallback)`
+                                ? `${source.label} OK — (timestamp not found; using fallback)${clockNote}`
+                                : `${source.label} stale — (timestamp not found; using fallback)${clockNote}`
                         );
                     }
 
-                    return fresh ? updatedSeen : prev;
+                    // Newly seen results are cars that ran ahead of ours; without an earlier board the
+                    // first one only sets the baseline
+                    const hasBaseline = s.saeBoard !== null || s.saeSeen.length > 0;
+                    const seenBefore = new Set(s.saeSeen.map((x) => x.carNo));
+                    const newlySeen = new Set(carsNow.filter((c) => !seenBefore.has(c))).size;
+
+                    // Second attempts and faster reruns are runs too; a car's first timed run is already
+                    // counted as newly seen, but a first DNF / DQ isn't
+                    const changes = s.saeBoard ? diffLeaderboards(s.saeBoard, rows) : [];
+                    const repeats: SAESeen[] = [];
+                    for (const [carNo, runs] of runsFromChanges(changes)) {
+                        const extra = !seenBefore.has(carNo) && carsNow.includes(carNo) ? runs - 1 : runs;
+                        for (let i = 0; i < extra; i++) repeats.push({ carNo, firstSeenTs: nowIso, repeat: true });
+                    }
+
+                    // Results posted as the feed catches up after a stale period ran during it;
+                    // in hybrid mode the manual taps from that period already counted them
+                    const recovering = fresh && isFallbackOpen(s.saeFallback);
+                    const isNew = (x: SAESeen) => x.firstSeenTs === nowIso && (x.repeat || !seenBefore.has(x.carNo));
+                    const saeSeen = [...repeats, ...updatedSeen].map((x) =>
+                        recovering && isNew(x) ? { ...x, backfill: true } : x
+                    );
+
+                    return {
+                        ...s,
+                        ourCar:
+                            fresh && hasBaseline && !(recovering && s.hybrid)
+                                ? advanceOurCar(s.ourCar, newlySeen + repeats.length)
+                                : s.ourCar,
+                        saeSeen: fresh ? saeSeen : s.saeSeen,
+                        saeBoard: fresh ? rows : s.saeBoard,
+                        saeChanges: fresh
+                            ? [...changes.map((c) => ({ ...c, ts: nowIso })).reverse(), ...s.saeChanges].slice(
+                                0,
+                                MAX_LEADERBOARD_CHANGES
+                            )
+                            : s.saeChanges,
+                        saeFallback: updateFallbackPeriods(
+                            s.saeFallback,
+                            fresh,
+                            saeStaleSinceMs(s.saeSeen, last ? last.ms : s.saeLastUpdateMs, now),
+                            now
+                        ),
+                        saeLastUpdateMs: last ? last.ms : null,
+                        saeLastUpdateRaw: last ? last.raw : null,
+                    };
                 });
-            } catch {
-                const msg =
-                    Platform.OS === 'web' && !SAE_PROXY_BASE
-                        ? 'Web can’t pull SAE directly (CORS). Set EXPO_PUBLIC_SAE_PROXY_BASE to enable web SAE pulls.'
-                        : 'SAE fetch failed (network/site). Manual still works.';
-                setSaeStatus(msg);
+                consecutiveErrors = 0;
+            } catch (e) {
+                if (cancelled) return;
+                consecutiveErrors++;
+                setEventStatus(name, describeFetchFailure(source.label, e, lastSuccessMs, Date.now()));
             }
+            if (!cancelled) schedule();
         };
 
         tick();
-        const id = setInterval(tick, 20000);
         return () => {
             cancelled = true;
-            clearInterval(id);
+            clearTimeout(timer);
+            setNextPoll((prev) => {
+                const { [name]: _, ...rest } = prev;
+                return rest;
+            });
+        };
+    }
+
+    // Events that should have a results poll loop running, as JSON [name, source key] pairs
+    const saePollKey = useMemo(
+        () =>
+            JSON.stringify(
+                Object.values(events)
+                    .filter((s) => s.useSAE)
+                    .map((s) => [s.eventName, pollKeyFor(s, catalog, replay)])
+                    .filter(([, key]) => key !== null)
+                    .sort()
+            ),
+        [events, catalog, replay]
+    );
+
+    // Keep one poll loop per results event while online; loops for unchanged events keep running.
+    // Pollers are keyed by name and source, so editing an event's code in Settings or its results
+    // source restarts its loop.
+    const pollersRef = useRef<Record<string, () => void>>({});
+    // The poller effect reads these through refs, so only the key and connectivity restart loops
+    const replayRef = useRef(replay);
+    const eventsRef = useRef(events);
+    const catalogRef = useRef(catalog);
+    const startSaePollRef = useRef(startSaePoll);
+    useEffect(() => {
+        replayRef.current = replay;
+        eventsRef.current = events;
+        catalogRef.current = catalog;
+        startSaePollRef.current = startSaePoll;
+    });
+    useEffect(() => {
+        const replaying = replayRef.current;
+        const wanted: [string, string][] = (JSON.parse(saePollKey) as [string, string][]).filter(
+            ([, key]) => isOnline || pollsOffline(key)
+        );
+        const wantedKeys = wanted.map((pair) => JSON.stringify(pair));
+        const pollers = pollersRef.current;
+
+        for (const key of Object.keys(pollers)) {
+            if (!wantedKeys.includes(key)) {
+                pollers[key]();
+                delete pollers[key];
+            }
+        }
+        wanted.forEach(([name, key], i) => {
+            if (pollers[wantedKeys[i]]) return;
+            if (key.startsWith(REPLAY_CODE_PREFIX) && replaying) {
+                const source = createReplaySource(replaying.captures, replaying.speed, replaying.startMs);
+                pollers[wantedKeys[i]] = startSaePollRef.current(name, source, undefined, replaying);
+                return;
+            }
+            const config = eventsRef.current[name]?.resultsSource ?? DEFAULT_RESULTS_SOURCE;
+            const saeCode = saeCodeFor(catalogRef.current, name);
+            const source = createResultsSource(config, saeCode);
+            if (source) {
+                pollers[wantedKeys[i]] = startSaePollRef.current(name, source, config.kind === 'sae' ? saeCode : undefined);
+            }
+        });
+    }, [saePollKey, isOnline]);
+
+    useEffect(() => {
+        const pollers = pollersRef.current;
+        return () => {
+            Object.values(pollers).forEach((stop) => stop());
         };
-    }, [eventName, isOnline, useSAERunRate]);
+    }, []);
+
+    function statusFor(s: DynamicEventState | undefined) {
+        if (!s) return 'Select an event to pull SAE results';
+        if (replay?.eventName === s.eventName && s.useSAE) return saeStatus[s.eventName] ?? 'Starting replay…';
+        if (!resultsSourceKey(s.resultsSource, saeCodeFor(catalog, s.eventName))) {
+            return s.resultsSource.kind === 'sae'
+                ? 'No SAE leaderboard for this event (use Manual or another results source)'
+                : 'Set a results URL or file for this event';
+        }
+        if (!s.useSAE) return 'SAE disabled (manual mode)';
+        if (!isOnline && s.resultsSource.kind !== 'file') return 'Offline (SAE paused)';
+        return saeStatus[s.eventName] ?? 'SAE idle';
+    }
 
     function requireEventOrAlert(): string | null {
         const e = eventName.trim();
@@ -390,92 +867,359 @@ export default function DynamicTab() {
         return e;
     }
 
-    function incrementLine() {
-        if (!requireEventOrAlert()) return;
-        setLineLength((prev) => String((Number(prev) || 0) + 1));
+    function setMode(useSAE: boolean, hybrid = false) {
+        const e = requireEventOrAlert();
+        if (!e || !current) return;
+        if (current.useSAE === useSAE && current.hybrid === hybrid) return;
+
+        logAction(e, { kind: 'mode', from: { useSAE: current.useSAE, hybrid: current.hybrid }, to: { useSAE, hybrid } });
+        updateEvent(e, (s) => ({ ...s, useSAE, hybrid }));
+    }
+
+    function setResultsSource(resultsSource: ResultsSourceConfig) {
+        const e = requireEventOrAlert();
+        if (!e) return;
+        // Results from another source aren't comparable with the old ones, so they start over
+        updateEvent(e, (s) => ({ ...clearSaeResults(s), resultsSource }));
+    }
+
+    function incrementLine(lane = 0) {
+        const e = requireEventOrAlert();
+        if (!e) return;
+        const arrival: Arrival = { eventName: e, timestamp: new Date().toISOString(), ...laneField(lane) };
+        applyQueue(e, lane, 1, arrival);
+        logAction(e, { kind: 'queue', lane, delta: 1, arrival });
     }
 
-    function decrementLine() {
-        if (!requireEventOrAlert()) return;
-        setLineLength((prev) => String(Math.max(0, (Number(prev) || 0) - 1)));
+    function decrementLine(lane = 0) {
+        const e = requireEventOrAlert();
+        if (!e || (current?.laneLines[lane] ?? 0) <= 0) return;
+        applyQueue(e, lane, -1);
+        logAction(e, { kind: 'queue', lane, delta: -1 });
+    }
+
+    function setLaneCount(count: number) {
+        const e = requireEventOrAlert();
+        if (!e || !current || current.laneLines.length === count) return;
+        logAction(e, { kind: 'lanes', from: current.laneLines.length, to: count });
+        updateEvent(e, (s) => ({ ...s, laneLines: resizeLanes(s.laneLines, count) }));
     }
 
-    // Manual completion: records completion AND removes one from queue
-    function plusOne() {
+    // Manual completion: records completion (with the car number, if entered) AND removes one from queue
+    function plusOne(lane = 0) {
         const e = requireEventOrAlert();
         if (!e) return;
 
-        const current = Number(lineLength) || 0;
-        if (current <= 0) {
+        if ((current?.laneLines[lane] ?? 0) <= 0) {
             Alert.alert('Queue empty', 'Add a car to the queue before recording a completion.');
             return;
         }
 
-        const ts = new Date().toISOString();
-        setCompletions((prev) => [{ eventName: e, timestamp: ts }, ...prev]);
+        const carNo = carNoInput.trim();
+        const completion: Completion = {
+            eventName: e,
+            timestamp: new Date().toISOString(),
+            ...(carNo ? { carNo } : {}),
+            ...laneField(lane),
+        };
+        applyCompletion(e, completion, true);
+        logAction(e, { kind: 'completion', op: 'add', completion });
+        setCarNoInput('');
+    }
 
-        // Start manual session timing on first completion for this event
-        setManualStartTs((prev) => prev ?? ts);
+    /** Queue change on one lane; `arrival` is added with a `+` (or removed when a `+` is undone). */
+    function applyQueue(e: string, lane: number, delta: number, arrival?: Arrival) {
+        if (arrival && delta > 0) setArrivals((prev) => [arrival, ...prev]);
+        if (arrival && delta < 0) setArrivals((prev) => removeFirst(prev, (a) => sameRecord(a, arrival)));
+        updateEvent(e, (s) => ({ ...s, ...withLaneDelta(s, lane, delta) }));
+    }
 
-        // completion removes from queue
-        setLineLength((prev) => String(Math.max(0, (Number(prev) || 0) - 1)));
+    /**
+     * Adds or removes a completion. A completion takes a car off its lane's queue (removing one puts
+     * it back), moves our car, and keeps the manual session start at the oldest completion.
+     */
+    function applyCompletion(e: string, completion: Completion, add: boolean) {
+        const next = add
+            ? [...completions, completion].sort((a, b) => +new Date(b.timestamp) - +new Date(a.timestamp))
+            : removeFirst(completions, (c) => sameRecord(c, completion));
+        setCompletions(next);
+
+        const oldest = next
+            .filter((c) => c.eventName.trim() === e)
+            .map((c) => new Date(c.timestamp).getTime())
+            .filter((t) => Number.isFinite(t))
+            .sort((a, b) => a - b)[0];
+
+        updateEvent(e, (s) => ({
+            ...s,
+            ...withLaneDelta(s, laneOf(completion, s.laneLines.length), add ? -1 : 1),
+            manualStartTs: oldest === undefined ? null : new Date(oldest).toISOString(),
+            ourCar: tapsMoveOurCar(s) ? advanceOurCar(s.ourCar, add ? 1 : -1) : s.ourCar,
+        }));
     }
 
-    function snapshot() {
-        const ll = Number(lineLength) || 0;
-        const e = eventName.trim() || 'Event';
+    /** Reverses (`undo`) or replays (`redo`) a logged action. */
+    function applyAction(entry: ActionEntry, direction: 'undo' | 'redo') {
+        const { action, eventName: e } = entry;
+        const forward = direction === 'redo';
+
+        switch (action.kind) {
+            case 'queue':
+                applyQueue(e, action.lane, forward ? action.delta : -action.delta, action.arrival);
+                break;
+            case 'completion':
+                applyCompletion(e, action.completion, (action.op === 'add') === forward);
+                break;
+            case 'snapshot':
+                if (forward) addSamples([action.sample]);
+                else setSamples((prev) => removeFirst(prev, (x) => sameRecord(x, action.sample)));
+                break;
+            case 'mode': {
+                const mode = forward ? action.to : action.from;
+                updateEvent(e, (s) => ({ ...s, ...mode }));
+                break;
+            }
+            case 'event':
+                selectEvent(forward ? action.to : action.from, false);
+                break;
+            case 'lanes': {
+                const count = forward ? action.to : action.from;
+                updateEvent(e, (s) => ({ ...s, laneLines: resizeLanes(s.laneLines, count) }));
+                break;
+            }
+        }
+    }
+
+    const undoRedo = useMemo(() => undoRedoState(actionLog), [actionLog]);
+
+    function undo() {
+        const target = undoRedo.undoable;
+        if (!target) return;
+        applyAction(target, 'undo');
+        logAction(target.eventName, { kind: 'undo', target: target.id });
+    }
+
+    function redo() {
+        const target = undoRedo.redoable;
+        if (!target) return;
+        applyAction(target, 'redo');
+        logAction(target.eventName, { kind: 'redo', target: target.id });
+    }
+
+    function trackOurCar() {
+        const e = requireEventOrAlert();
+        if (!e) return;
+
+        const ourCar = createOurCar(Number(ourCarInput), ourCarEntry, ourCarAlertAt, new Date().toISOString());
+        if (!ourCar || !ourCarInput.trim()) {
+            Alert.alert(
+                'Invalid entry',
+                ourCarEntry === 'position' ? 'Enter our position in line (1 = next to run).' : 'Enter how many cars are ahead of us.'
+            );
+            return;
+        }
+
+        updateEvent(e, (s) => ({ ...s, ourCar }));
+        setOurCarInput('');
+        Keyboard.dismiss();
+    }
+
+    function adjustOurCar(delta: number) {
+        const e = requireEventOrAlert();
+        if (!e) return;
+        updateEvent(e, (s) => ({ ...s, ourCar: advanceOurCar(s.ourCar, -delta) }));
+    }
+
+    function clearOurCar() {
+        const e = requireEventOrAlert();
+        if (!e) return;
+        updateEvent(e, (s) => ({ ...s, ourCar: null }));
+    }
+
+    // Run-time alert: one haptic buzz when our car gets within its alert distance of the front
+    useEffect(() => {
+        for (const s of Object.values(events)) {
+            if (!needsRunAlert(s.ourCar)) continue;
+
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning).catch(() => { });
+            updateEvent(s.eventName, (prev) => (prev.ourCar ? { ...prev, ourCar: { ...prev.ourCar, alerted: true } } : prev));
+        }
+    }, [events]);
+
+    const metricsByEvent = useMemo(() => {
+        const out: Record<string, EventMetrics> = {};
+        for (const s of Object.values(events)) {
+            // Results count while the event's source is being polled, so the same rule as the poll loops
+            const sourceKey = pollKeyFor(s, catalog, replay);
+            const saeActive = s.useSAE && sourceKey !== null && (isOnline || pollsOffline(sourceKey));
+            const r = computeRunRate({
+                useSAE: saeActive,
+                saeFresh: saeActive && isSaeFresh(s.saeSeen, s.saeLastUpdateMs, nowMs),
+                saeSeen: s.saeSeen,
+                completions: completions.filter((c) => c.eventName.trim() === s.eventName),
+                manualStartTs: s.manualStartTs,
+                nowMs,
+                model: rateModel,
+                hybrid: s.hybrid,
+                fallback: s.saeFallback,
+            });
+            const arrived = computeArrivalRate(
+                arrivals.filter((a) => a.eventName === s.eventName).map((a) => a.timestamp),
+                r.startMs,
+                nowMs,
+                rateModel
+            );
+            const eta = computeEtaRange({
+                lineLength: s.lineLength,
+                serviceRate: r.rate,
+                serviceCount: r.count,
+                arrivalRate: arrived.rate,
+                arrivalCount: arrived.count,
+            });
+            const lanes =
+                s.laneLines.length > 1
+                    ? computeLaneMetrics({
+                        laneLines: s.laneLines,
+                        completions: completions.filter((c) => c.eventName.trim() === s.eventName),
+                        arrivals: arrivals.filter((a) => a.eventName === s.eventName),
+                        nowMs,
+                        model: rateModel,
+                    })
+                    : [];
+            out[s.eventName] = { ...r, arrivalRate: arrived.rate, eta, lanes };
+        }
+        return out;
+    }, [events, completions, arrivals, isOnline, nowMs, rateModel, catalog, replay]);
+
+    const { rate, count, sourceLabel, parts, arrivalRate, eta, lanes } = metricsByEvent[eventName] ?? EMPTY_METRICS;
+
+    // Check alert rules against every tracked event; a rule fires once per crossing of its threshold
+    function evaluateAlerts() {
+        const inputs: Record<string, AlertInputs> = {};
+        for (const s of Object.values(events)) {
+            const runTimes = completions
+                .filter((c) => c.eventName.trim() === s.eventName)
+                .map((c) => new Date(c.timestamp).getTime());
+            if (s.useSAE) {
+                runTimes.push(...s.saeSeen.filter((x) => !x.stale).map((x) => new Date(x.firstSeenTs).getTime()));
+            }
+            const last = Math.max(...runTimes.filter(Number.isFinite));
+            inputs[s.eventName] = {
+                lineLength: s.lineLength,
+                etaMinutes: metricsByEvent[s.eventName]?.eta.likely,
+                lastRunMs: Number.isFinite(last) ? last : null,
+            };
+        }
+
+        const result = evaluateAlertRules(alertRules, inputs, nowMs);
+        if (result.rules !== alertRules) setAlertRules(result.rules);
+        if (result.fired.length === 0) return;
+
+        setAlertLog((prev) => [...[...result.fired].reverse(), ...prev].slice(0, MAX_ALERT_LOG));
+        setAlertBanner(result.fired[result.fired.length - 1]);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning).catch(() => { });
+    }
+
+    const evaluateAlertsRef = useRef(evaluateAlerts);
+    useEffect(() => {
+        evaluateAlertsRef.current = evaluateAlerts;
+    });
+
+    useEffect(() => {
+        if (hydrated) evaluateAlertsRef.current();
+    }, [hydrated, nowMs]);
+
 
+    function buildSample(name: string, lineLength: number, m: EventMetrics, timestamp: string, auto?: boolean) {
         const entry: LineSample = {
-            eventName: e,
-            lineLength: ll,
-            runRate: Number(rate.toFixed(4)),
-            etaMinutes: Number.isFinite(eta!) ? Number(eta!.toFixed(2)) : null,
-            timestamp: new Date().toISOString(),
+            eventName: name,
+            lineLength,
+            rateModel: rateModel.model,
+            windowMin: rateModel.model === 'cumulative' ? null : rateModel.windowMin,
+            runRate: Number(m.rate.toFixed(4)),
+            arrivalRate: Number(m.arrivalRate.toFixed(4)),
+            etaMinutes: roundOrNull(m.eta.likely, 2),
+            etaBestMinutes: roundOrNull(m.eta.best, 2),
+            etaWorstMinutes: roundOrNull(m.eta.worst, 2),
+            rateSource: m.sourceLabel,
+            timestamp,
+            ...(auto ? { auto } : {}),
+            ...(m.sourceLabel === 'Manual fallback' ? { fallback: true } : {}),
+            ...(m.lanes.length > 1
+                ? {
+                    lanes: m.lanes.map((l) => ({
+                        lineLength: l.lineLength,
+                        runRate: Number(l.rate.toFixed(4)),
+                        etaMinutes: roundOrNull(l.eta.likely, 2),
+                    })),
+                }
+                : {}),
         };
-        setSamples((prev) => [entry, ...prev].slice(0, 50));
-    }
-
-    function csvEscape(value: unknown) {
-        const s = String(value ?? '');
-        // Escape quotes and wrap if needed
-        if (/[",\n\r]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
-        return s;
-    }
-
-    function buildLineSamplesCsv(rows: LineSample[]) {
-        const header = ['eventName', 'timestamp', 'lineLength', 'runRate', 'etaMinutes'];
-        const lines = [
-            header.join(','),
-            ...rows.map((r) =>
-                [
-                    csvEscape(r.eventName),
-                    csvEscape(r.timestamp),
-                    csvEscape(r.lineLength),
-                    csvEscape(r.runRate),
-                    csvEscape(r.etaMinutes ?? ''),
-                ].join(',')
-            ),
-        ];
-        return lines.join('\r\n') + '\r\n';
+        return entry;
+    }
+
+    function addSamples(entries: LineSample[]) {
+        setSamples((prev) => pruneSamples([...entries, ...prev], snapshotSettings.retentionHours, Date.now()));
     }
 
+    function snapshot() {
+        const e = eventName.trim() || 'Event';
+        const sample = buildSample(e, current?.lineLength ?? 0, metricsByEvent[eventName] ?? EMPTY_METRICS, new Date().toISOString());
+        addSamples([sample]);
+        logAction(e, { kind: 'snapshot', sample });
+    }
+
+    // Auto snapshots cover every tracked event so each one's history stays complete
+    function autoSnapshot() {
+        const ts = new Date().toISOString();
+        addSamples(
+            Object.values(events).map((s) =>
+                buildSample(s.eventName, s.lineLength, metricsByEvent[s.eventName] ?? EMPTY_METRICS, ts, true)
+            )
+        );
+    }
+
+    const autoSnapshotRef = useRef(autoSnapshot);
+    useEffect(() => {
+        autoSnapshotRef.current = autoSnapshot;
+    });
+
+    // Auto-snapshot scheduler: runs while enabled and an event is selected
+    const hasEvent = !!eventName;
+    useEffect(() => {
+        if (!hydrated || !snapshotSettings.autoEnabled || !hasEvent) return;
+        const id = setInterval(() => autoSnapshotRef.current(), snapshotSettings.intervalMin * 60000);
+        return () => clearInterval(id);
+    }, [hydrated, snapshotSettings.autoEnabled, snapshotSettings.intervalMin, hasEvent]);
+
     async function exportLineSamplesCsv() {
         if (samples.length === 0) {
             Alert.alert('Nothing to export', 'Take at least one snapshot first.');
             return;
         }
+        await exportCsv(buildSamplesCSV(samples), 'LineSamples', 'Export Line Samples CSV');
+    }
 
-        try {
-            const csv = buildLineSamplesCsv(samples);
+    async function exportCompletionsCsv() {
+        if (completions.length === 0) {
+            Alert.alert('Nothing to export', 'Record at least one completion first.');
+            return;
+        }
+        await exportCsv(buildCompletionsCSV(completions), 'Completions', 'Export Completions CSV');
+    }
+
+    async function exportCsv(csv: string, prefix: string, dialogTitle: string) {
+        const safeEvent = (eventName || 'Event').replace(/[^a-z0-9-_]+/gi, '_');
+        await exportFile(csv, `${prefix}_${safeEvent}_${Date.now()}.csv`, dialogTitle, CSV_FILE_TYPE);
+    }
 
+    async function exportFile(text: string, filename: string, dialogTitle: string, type: ExportFileType) {
+        try {
             // Web: trigger download via Blob
             if (Platform.OS === 'web') {
-                const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+                const blob = new Blob([text], { type: type.blobType });
                 const url = URL.createObjectURL(blob);
 
-                const safeEvent = (eventName || 'Event').replace(/[^a-z0-9-_]+/gi, '_');
-                const filename = `LineSamples_${safeEvent}_${Date.now()}.csv`;
-
                 const a = document.createElement('a');
                 a.href = url;
                 a.download = filename;
@@ -486,11 +1230,9 @@ export default function DynamicTab() {
             }
 
             // Native: write file then share
-            const safeEvent = (eventName || 'Event').replace(/[^a-z0-9-_]+/gi, '_');
-            const filename = `LineSamples_${safeEvent}_${Date.now()}.csv`;
             const uri = `${FileSystem.cacheDirectory}${filename}`;
 
-            await FileSystem.writeAsStringAsync(uri, csv, {
+            await FileSystem.writeAsStringAsync(uri, text, {
                 encoding: FileSystem.EncodingType.UTF8,
             });
 
@@ -501,81 +1243,184 @@ export default function DynamicTab() {
             }
 
             await Sharing.shareAsync(uri, {
-                mimeType: 'text/csv',
-                dialogTitle: 'Export Line Samples CSV',
-                UTI: 'public.comma-separated-values-text',
+                mimeType: type.mimeType,
+                dialogTitle,
+                UTI: type.UTI,
             });
         } catch (err: any) {
             Alert.alert('Export failed', err?.message ?? 'Unknown error');
         }
     }
 
+    async function shareParseFailure() {
+        const failure = parseFailures.find((f) => f.eventName === eventName);
+        if (!failure) return;
+        const safeEvent = eventName.replace(/[^a-z0-9-_]+/gi, '_');
+        // A capture bundle, so the page also replays in the Replay card
+        await exportFile(
+            JSON.stringify({ exportedAt: new Date().toISOString(), captures: [failure] }, null, 2),
+            `mobilescout-export-parse-failure-${safeEvent}-${Date.now()}.json`,
+            'Share page for bug report',
+            JSON_FILE_TYPE
+        );
+    }
 
-    const saeIsFresh = useMemo(() => {
-        if (!useSAERunRate || !isOnline || !SAE_EVENT_CODE[eventName]) return false;
-        if (saeLastUpdateMs == null) {
-            // if we couldn't parse the site's timestamp, fall back to the “seen recently” heuristic
-            return hasRecentNewCarSeen(saeSeen, nowMs);
-        }
-        const age = nowMs - saeLastUpdateMs;
-        return age >= 0 && age <= SAE_FRESH_WINDOW_MS;
-    }, [useSAERunRate, isOnline, eventName, saeLastUpdateMs, saeSeen, nowMs]);
+    function startReplay(captures: ReplayCapture[], label: string, speed: number) {
+        const e = requireEventOrAlert();
+        if (!e) return;
 
-    const { rate, count, sourceLabel } = useMemo(() => {
-        // SAE mode
-        if (useSAERunRate && isOnline && SAE_EVENT_CODE[eventName]) {
-            if (!saeIsFresh) return { rate: 0, count: 0, sourceLabel: 'SAE (stale)' as const };
+        const start = () => {
+            updateEvent(e, (s) => ({ ...clearSaeResults(s), useSAE: true }));
+            setReplay({ eventName: e, label, captures, speed, startMs: Date.now() });
+        };
+        const msg = `Replay ${label} into ${e}? Its SAE results are cleared now and again when the replay stops.`;
 
-            if (saeSeen.length === 0) return { rate: 0, count: 0, sourceLabel: 'SAE' as const };
+        if (Platform.OS === 'web') {
+            if (confirm(msg)) start();
+            return;
+        }
 
-            const times = saeSeen
-                .map((s) => new Date(s.firstSeenTs).getTime())
-                .filter((t) => Number.isFinite(t))
-                .sort((a, b) => a - b);
+        Alert.alert('Start replay?', msg, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Replay', onPress: start },
+        ]);
+    }
 
-            if (times.length === 0) return { rate: 0, count: 0, sourceLabel: 'SAE' as const };
+    function stopReplay() {
+        if (!replay) return;
+        // The live feed starts over rather than diffing against replayed results
+        updateEvent(replay.eventName, clearSaeResults);
+        setReplay(null);
+    }
 
-            const start = times[0];
-            const elapsedMin = Math.max(0.25, (nowMs - start) / 60000); // min 15s
-            return { rate: times.length / elapsedMin, count: times.length, sourceLabel: 'SAE' as const };
-        }
+    function stopTrackingEvent() {
+        const e = requireEventOrAlert();
+        if (!e) return;
 
-        // Manual mode
-        const e = eventName.trim() || 'Event';
-        const eventCompletions = completions.filter((c) => c.eventName.trim() === e);
-        const cCount = eventCompletions.length;
+        const stop = () => {
+            setEvents((prev) => {
+                const next = { ...prev };
+                delete next[e];
+                return next;
+            });
+            setEventName('');
+        };
+        const msg = `Stop tracking ${e}? Its queue count and SAE results are cleared; completions and snapshots are kept.`;
 
-        if (cCount === 0 || !manualStartTs) {
-            return { rate: 0, count: cCount, sourceLabel: 'Manual' as const };
+        if (Platform.OS === 'web') {
+            if (confirm(msg)) stop();
+            return;
         }
 
-        const start = new Date(manualStartTs).getTime();
-        const elapsedMin = Math.max(0.25, (nowMs - start) / 60000); // min 15s
-        return { rate: cCount / elapsedMin, count: cCount, sourceLabel: 'Manual' as const };
-    }, [useSAERunRate, isOnline, eventName, saeSeen, completions, manualStartTs, nowMs, saeIsFresh]);
+        Alert.alert('Stop tracking?', msg, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Stop', style: 'destructive', onPress: stop },
+        ]);
+    }
+
+    // Tracked events in dropdown order, then any others (e.g. restored from an older list)
+    const trackedEvents = useMemo(() => {
+        const order = items.map((i) => i.value);
+        return Object.values(events).sort((a, b) => {
+            const ia = order.indexOf(a.eventName);
+            const ib = order.indexOf(b.eventName);
+            return (ia < 0 ? order.length : ia) - (ib < 0 ? order.length : ib) || a.eventName.localeCompare(b.eventName);
+        });
+    }, [events, items]);
 
-    const eta = useMemo(() => {
-        const ll = Number(lineLength) || 0;
-        return rate > 0 ? ll / rate : undefined;
-    }, [rate, lineLength]);
+    const watchedCars = useMemo(
+        () => new Set([...watchlist.cars, watchlist.ourCarNo].filter(Boolean)),
+        [watchlist]
+    );
 
     const recent = useMemo(() => {
         const merged = [
-            ...samples.map((s) => ({ ts: s.timestamp, text: `[Snapshot] ${s.eventName}: line=${s.lineLength}` })),
-            ...completions.map((c) => ({ ts: c.timestamp, text: `[Completion] ${c.eventName}` })),
-            ...(useSAERunRate
-                ? saeSeen.slice(0, 10).map((s) => ({ ts: s.firstSeenTs, text: `[SAE] New result: Car ${s.carNo}` }))
-                : []),
+            ...samples
+                .filter((s) => !s.auto)
+                .map((s) => ({ ts: s.timestamp, text: `[Snapshot] ${s.eventName}: line=${s.lineLength}` })),
+            ...completions.map((c) => ({ ts: c.timestamp, text: `[Completion] ${c.eventName}${describeCarNo(c)}` })),
+            ...trackedEvents
+                .filter((s) => s.useSAE)
+                .flatMap((s) => [
+                    // Repeat runs show up as changes below
+                    ...s.saeSeen
+                        .filter((seen) => !seen.repeat)
+                        .slice(0, 10)
+                        .map((seen) => ({
+                            ts: seen.firstSeenTs,
+                            text: `[SAE] ${s.eventName}: New result: Car ${seen.carNo}${seen.stale ? ' (stale)' : ''}`,
+                        })),
+                    // First results are already listed above; rank moves are only shown for watched cars
+                    ...s.saeChanges
+                        .filter((c) =>
+                            c.kind === 'newResult'
+                                ? c.attempt !== null && c.attempt > 1
+                                : c.kind !== 'rankChange' || watchedCars.has(c.carNo)
+                        )
+                        .slice(0, 10)
+                        .map((c) => ({ ts: c.ts, text: `[SAE] ${s.eventName}: ${describeLeaderboardChange(c)}` })),
+                ]),
         ]
             .sort((a, b) => +new Date(b.ts) - +new Date(a.ts))
             .slice(0, 12);
 
         return merged;
-    }, [samples, completions, saeSeen, useSAERunRate]);
 
-    const currentLine = Number(lineLength) || 0;
+        // In SAE mode, recorded car numbers are checked against the event's leaderboard
+        function describeCarNo(c: Completion) {
+            if (!c.carNo) return '';
+            const s = events[c.eventName.trim()];
+            if (!s?.useSAE || s.saeSeen.length === 0) return `: Car ${c.carNo}`;
+            return `: Car ${c.carNo}${s.saeSeen.some((x) => x.carNo === c.carNo) ? ' ✓ on SAE' : ' (not on SAE)'}`;
+        }
+    }, [samples, completions, trackedEvents, events, watchedCars]);
+
+    // Charts redraw every 15 s rather than on every tick
+    const chartNowMs = Math.floor(nowMs / 15000) * 15000;
+
+    const charts = useMemo(() => {
+        if (!current) return null;
+
+        const eventCompletionTimes = completions
+            .filter((c) => c.eventName.trim() === eventName)
+            .map((c) => new Date(c.timestamp).getTime())
+            .filter((t) => Number.isFinite(t));
+        const saeTimes = current.saeSeen
+            .filter((s) => !s.stale)
+            .map((s) => new Date(s.firstSeenTs).getTime())
+            .filter((t) => Number.isFinite(t));
+        const sampleTimes = samples
+            .filter((s) => s.eventName === eventName)
+            .map((s) => new Date(s.timestamp).getTime())
+            .filter((t) => Number.isFinite(t));
+
+        const earliest = Math.min(chartNowMs - 60000, ...sampleTimes, ...eventCompletionTimes, ...saeTimes);
+        const startMs = chartRangeMin == null ? earliest : chartNowMs - chartRangeMin * 60000;
+
+        const saeMarkers: ChartMarker[] = saeTimes.slice(0, 200).map((t) => ({ t, color: palette.sae }));
+        const completionMarkers: ChartMarker[] = eventCompletionTimes
+            .slice(0, 200)
+            .map((t) => ({ t, color: palette.success }));
+
+        return {
+            startMs,
+            endMs: chartNowMs,
+            hasSamples: sampleTimes.length > 0,
+            line: downsample(seriesFromSamples(samples, eventName, 'lineLength', startMs)),
+            rate: downsample(seriesFromSamples(samples, eventName, 'runRate', startMs)),
+            eta: downsample(seriesFromSamples(samples, eventName, 'etaMinutes', startMs)),
+            saeMarkers,
+            completionMarkers,
+        };
+    }, [current, completions, samples, eventName, chartRangeMin, chartNowMs]);
+
+    const currentLine = current?.lineLength ?? 0;
 
-    const canDecrementQueue = currentLine > 0;
+    const ourCar = current?.ourCar ?? null;
+    const ourRunTime = ourCar ? predictRunTime(ourCar.carsAhead, rate, count, nowMs) : null;
+
+    const laneLines = current?.laneLines ?? [0];
+    const multiLane = laneLines.length > 1;
 
     const manualCompletionsForEvent = useMemo(() => {
         const e = eventName.trim() || 'Event';
@@ -584,37 +1429,33 @@ export default function DynamicTab() {
 
     const manualCompletionCount = manualCompletionsForEvent.length;
 
-    const canUndoCompletion = !useSAERunRate && manualCompletionCount > 0;
+    // Most recent distinct car numbers across all events, for one-tap entry
+    const recentCarNumbers = useMemo(() => {
+        const out: string[] = [];
+        for (const c of completions) {
+            if (c.carNo && !out.includes(c.carNo)) out.push(c.carNo);
+            if (out.length >= RECENT_CAR_NUMBERS) break;
+        }
+        return out;
+    }, [completions]);
 
-    const canAddCompletion = !useSAERunRate && currentLine > 0;
+    const carNoCheck = useMemo(() => {
+        if (!current?.useSAE || current.saeSeen.length === 0) return null;
+        const check = crossCheckCarNumbers(manualCompletionsForEvent.map((c) => c.carNo), current.saeSeen);
+        return check.matched.length + check.missing.length > 0 ? check : null;
+    }, [current, manualCompletionsForEvent]);
 
-    function undoCompletion() {
+    // Takes back the lane's latest completion and returns the car to that lane's queue (logged, so it can be undone)
+    function undoCompletion(lane = 0) {
         const e = requireEventOrAlert();
         if (!e) return;
 
-        setCompletions((prev) => {
-            const idx = prev.findIndex((c) => c.eventName.trim() === e);
-            if (idx < 0) return prev;
-
-            const next = [...prev.slice(0, idx), ...prev.slice(idx + 1)];
-
-            // Recompute manual session start for this event (oldest completion timestamp).
-            const remainingForEvent = next.filter((c) => c.eventName.trim() === e);
-            if (remainingForEvent.length === 0) {
-                setManualStartTs(null);
-            } else {
-                const oldest = remainingForEvent
-                    .map((c) => new Date(c.timestamp).getTime())
-                    .filter((t) => Number.isFinite(t))
-                    .sort((a, b) => a - b)[0];
-                setManualStartTs(new Date(oldest).toISOString());
-            }
-
-            return next;
-        });
+        const laneCount = current?.laneLines.length ?? 1;
+        const completion = completions.find((c) => c.eventName.trim() === e && laneOf(c, laneCount) === lane);
+        if (!completion) return;
 
-        // Undo should also return one car back into the queue.
-        setLineLength((prev) => String((Number(prev) || 0) + 1));
+        applyCompletion(e, completion, false);
+        logAction(e, { kind: 'completion', op: 'remove', completion });
     }
 
     return (
@@ -626,6 +1467,20 @@ export default function DynamicTab() {
                 keyboardShouldPersistTaps="handled"
                 showsVerticalScrollIndicator={false}
             >
+                {alertBanner && (
+                    <Pressable
+                        onPress={() => setAlertBanner(null)}
+                        style={[styles.alertBanner, { marginTop: 0, marginBottom: 16 }]}
+                        accessibilityRole="button"
+                        accessibilityLabel="Dismiss alert"
+                    >
+                        <Text style={styles.alertBannerText}>⚠ {alertBanner.message}</Text>
+                        <Text style={styles.metricSub}>
+                            {new Date(alertBanner.ts).toLocaleTimeString()} · tap to dismiss
+                        </Text>
+                    </Pressable>
+                )}
+
                 {/* Context */}
                 <Card>
                     <Text style={styles.sectionTitle}>Event</Text>
@@ -636,8 +1491,7 @@ export default function DynamicTab() {
                             value={eventName}
                             items={items}
                             setOpen={setOpen}
-                            setValue={(cb) => setEventName(cb(eventName))}
-                            setItems={setItems}
+                            setValue={(cb) => selectEvent(cb(eventName))}
                             style={{ backgroundColor: palette.inputBg, borderColor: palette.border }}
                             dropDownContainerStyle={{ backgroundColor: palette.listBg, borderColor: palette.border }}
                             listItemLabelStyle={{ color: palette.dim }}
@@ -658,26 +1512,41 @@ export default function DynamicTab() {
                     </View>
 
                     <View style={styles.contextRow}>
-                        <Text style={styles.contextLabel}>SAE / Manual</Text>
+                        <Text style={styles.contextLabel}>Rate source</Text>
 
                         <View style={styles.segment}>
                             <Pressable
-                                onPress={() => setUseSAERunRate(true)}
+                                onPress={() => setMode(true)}
                                 style={({ pressed }) => [
                                     styles.segmentBtn,
-                                    useSAERunRate && styles.segmentBtnActive,
+                                    saeOnly && styles.segmentBtnActive,
                                     pressed && styles.segmentBtnPressed,
                                 ]}
                                 hitSlop={8}
                                 accessibilityRole="button"
-                                accessibilityState={{ selected: useSAERunRate }}
+                                accessibilityState={{ selected: saeOnly }}
                                 accessibilityLabel="Use SAE mode"
                             >
-                                <Text style={[styles.segmentText, useSAERunRate && styles.segmentTextActive]}>SAE</Text>
+                                <Text style={[styles.segmentText, saeOnly && styles.segmentTextActive]}>SAE</Text>
                             </Pressable>
 
                             <Pressable
-                                onPress={() => setUseSAERunRate(false)}
+                                onPress={() => setMode(true, true)}
+                                style={({ pressed }) => [
+                                    styles.segmentBtn,
+                                    hybridMode && styles.segmentBtnActive,
+                                    pressed && styles.segmentBtnPressed,
+                                ]}
+                                hitSlop={8}
+                                accessibilityRole="button"
+                                accessibilityState={{ selected: hybridMode }}
+                                accessibilityLabel="Use Hybrid mode"
+                            >
+                                <Text style={[styles.segmentText, hybridMode && styles.segmentTextActive]}>Hybrid</Text>
+                            </Pressable>
+
+                            <Pressable
+                                onPress={() => setMode(false)}
                                 style={({ pressed }) => [
                                     styles.segmentBtn,
                                     !useSAERunRate && styles.segmentBtnActive,
@@ -693,88 +1562,601 @@ export default function DynamicTab() {
                         </View>
                     </View>
 
+                    {useSAERunRate && !!current && (
+                        <View style={{ marginBottom: 8 }}>
+                            <ResultsSourcePicker
+                                value={current.resultsSource}
+                                saeCode={saeCodeFor(catalog, current.eventName)}
+                                onChange={setResultsSource}
+                            />
+                        </View>
+                    )}
 
                     <Text style={styles.statusText}>
-                        {useSAERunRate ? saeStatus : 'Manual mode: use controls below'}
+                        {useSAERunRate ? statusFor(current) : 'Manual mode: use controls below'}
                     </Text>
-                    {useSAERunRate && !!saeLastUpdateRaw && (
+                    {useSAERunRate && !!current?.saeLastUpdateRaw && (
+                        <Text style={[styles.statusText, { marginTop: 2 }]}>
+                            Last Data Update (site): {current.saeLastUpdateRaw}
+                        </Text>
+                    )}
+                    {useSAERunRate && !!nextPoll[eventName] && (
                         <Text style={[styles.statusText, { marginTop: 2 }]}>
-                            Last Data Update (site): {saeLastUpdateRaw}
+                            {describeNextPoll(nextPoll[eventName].at, nowMs)}
+                            {nextPoll[eventName].errors > 0
+                                ? ` · backing off after ${nextPoll[eventName].errors} failed poll${nextPoll[eventName].errors === 1 ? '' : 's'}`
+                                : ''}
                         </Text>
                     )}
+                    {useSAERunRate &&
+                        !!saeStatus[eventName]?.startsWith(PARSER_BROKEN_STATUS) &&
+                        parseFailures.some((f) => f.eventName === eventName) && (
+                        <View style={{ marginTop: 8 }}>
+                            <PrimaryButton title="Share Page for Bug Report" onPress={shareParseFailure} />
+                        </View>
+                    )}
                 </Card>
 
                 {/* Operations */}
                 <Card>
+                    {!!current && (
+                        <View style={[styles.chipRow, { marginBottom: 12 }]}>
+                            {LANE_OPTIONS.map((n) => {
+                                const selected = laneLines.length === n;
+                                return (
+                                    <Pressable
+                                        key={n}
+                                        onPress={() => setLaneCount(n)}
+                                        style={[styles.chip, selected && styles.chipActive]}
+                                        accessibilityRole="button"
+                                        accessibilityState={{ selected }}
+                                        accessibilityLabel={`Use ${n} lane${n === 1 ? '' : 's'}`}
+                                    >
+                                        <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                                            {n} lane{n === 1 ? '' : 's'}
+                                        </Text>
+                                    </Pressable>
+                                );
+                            })}
+                        </View>
+                    )}
+
                     <View style={styles.twoColHeader}>
                         <Text style={styles.colTitle}>Queue</Text>
                         <Text style={styles.colTitle}>Completions</Text>
                     </View>
 
-                    <View style={styles.twoCol}>
-                        {/* Queue */}
-                        <View style={styles.col}>
-                            <RoundButton label="+" variant="primary" onPress={incrementLine} />
-                            <View style={styles.valuePill}>
-                                <Text style={styles.valueLabel}>Cars in line</Text>
-                                <Text style={styles.valueNumber}>{currentLine}</Text>
+                    {laneLines.map((laneLine, lane) => {
+                        const laneCompletionCount = multiLane
+                            ? manualCompletionsForEvent.filter((c) => laneOf(c, laneLines.length) === lane).length
+                            : manualCompletionCount;
+                        const lanePrefix = multiLane ? `Lane ${lane + 1} ` : '';
+
+                        return (
+                            <View key={lane} style={multiLane && styles.laneBlock}>
+                                {multiLane && <Text style={styles.laneTitle}>Lane {lane + 1}</Text>}
+                                <View style={styles.twoCol}>
+                                    {/* Queue */}
+                                    <View style={styles.col}>
+                                        <RoundButton label="+" variant="primary" onPress={() => incrementLine(lane)} />
+                                        <View
+                                            style={styles.valuePill}
+                                            accessible
+                                            accessibilityLabel={`${multiLane ? lanePrefix + 'cars' : 'Cars'} in line: ${laneLine}`}
+                                        >
+                                            <Text style={styles.valueLabel}>Cars in line</Text>
+                                            <Text style={styles.valueNumber}>{laneLine}</Text>
+                                        </View>
+                                        <RoundButton
+                                            label="−"
+                                            variant={laneLine > 0 ? 'danger' : 'disabled'}
+                                            onPress={laneLine > 0 ? () => decrementLine(lane) : undefined}
+                                        />
+                                    </View>
+
+                                    {/* Completions */}
+                                    <View style={styles.col}>
+                                        <RoundButton
+                                            label="+"
+                                            variant={laneLine > 0 ? 'primary' : 'disabled'}
+                                            onPress={laneLine > 0 ? () => plusOne(lane) : undefined}
+                                        />
+                                        <View style={styles.valuePill}>
+                                            <Text style={styles.valueLabel}>Manual total</Text>
+                                            <Text style={styles.valueNumber}>{laneCompletionCount}</Text>
+                                        </View>
+                                        <RoundButton
+                                            label="−"
+                                            variant={laneCompletionCount > 0 ? 'danger' : 'disabled'}
+                                            onPress={laneCompletionCount > 0 ? () => undoCompletion(lane) : undefined}
+                                        />
+                                    </View>
+                                </View>
                             </View>
-                            <RoundButton
-                                label="−"
-                                variant={canDecrementQueue ? 'danger' : 'disabled'}
-                                onPress={canDecrementQueue ? decrementLine : undefined}
-                            />
+                        );
+                    })}
+
+                    {multiLane && (
+                        <View style={styles.laneTotals} accessible accessibilityLabel={`Cars in line: ${currentLine}`}>
+                            <Text style={styles.valueLabel}>All lanes</Text>
+                            <Text style={styles.itemText}>
+                                {currentLine} in line · {manualCompletionCount} manual completions
+                            </Text>
                         </View>
+                    )}
 
-                        {/* Completions */}
-                        <View style={styles.col}>
-                            <RoundButton
-                                label="+"
-                                variant={canAddCompletion ? 'primary' : 'disabled'}
-                                onPress={canAddCompletion ? plusOne : undefined}
-                            />
-                            <View style={styles.valuePill}>
-                                <Text style={styles.valueLabel}>Manual total</Text>
-                                <Text style={styles.valueNumber}>{manualCompletionCount}</Text>
-                            </View>
-                            <RoundButton
-                                label="−"
-                                variant={canUndoCompletion ? 'danger' : 'disabled'}
-                                onPress={canUndoCompletion ? undoCompletion : undefined}
-                            />
+                    <TextInput
+                        value={carNoInput}
+                        onChangeText={setCarNoInput}
+                        placeholder="Car # for next completion (optional)"
+                        placeholderTextColor={palette.dim}
+                        style={[styles.input, { marginTop: 12 }]}
+                        keyboardType="number-pad"
+                        inputMode="numeric"
+                        returnKeyType="done"
+                        accessibilityLabel="Completed car number"
+                    />
+                    {recentCarNumbers.length > 0 && (
+                        <View style={styles.chipRow}>
+                            {recentCarNumbers.map((carNo) => {
+                                const selected = carNoInput.trim() === carNo;
+                                return (
+                                    <Pressable
+                                        key={carNo}
+                                        onPress={() => setCarNoInput(selected ? '' : carNo)}
+                                        style={[styles.chip, selected && styles.chipActive]}
+                                        accessibilityRole="button"
+                                        accessibilityState={{ selected }}
+                                        accessibilityLabel={`Use car ${carNo}`}
+                                    >
+                                        <Text style={[styles.chipText, selected && styles.chipTextActive]}>#{carNo}</Text>
+                                    </Pressable>
+                                );
+                            })}
                         </View>
-                    </View>
+                    )}
 
                     {useSAERunRate && (
                         <Text style={styles.helperText}>
-                            SAE rate is derived from leaderboard updates.
+                            {hybridMode
+                                ? 'Rate follows leaderboard updates; manual completions count while SAE is stale.'
+                                : 'SAE rate is derived from leaderboard updates; manual completions only update the queue.'}
+                        </Text>
+                    )}
+                    {!!carNoCheck && (
+                        <Text style={styles.helperText}>
+                            Leaderboard check: {carNoCheck.matched.length} of{' '}
+                            {carNoCheck.matched.length + carNoCheck.missing.length} car numbers posted
+                            {carNoCheck.missing.length > 0 ? ` — not yet on SAE: ${carNoCheck.missing.join(', ')}` : ''}
+                        </Text>
+                    )}
+
+                    <View style={styles.historyRow}>
+                        <PrimaryButton
+                            title="Undo"
+                            onPress={undoRedo.undoable ? undo : undefined}
+                            style={undoRedo.undoable ? styles.historyBtn : styles.historyBtnDisabled}
+                        />
+                        <PrimaryButton
+                            title="Redo"
+                            onPress={undoRedo.redoable ? redo : undefined}
+                            style={undoRedo.redoable ? styles.historyBtn : styles.historyBtnDisabled}
+                        />
+                        <PrimaryButton title="History" onPress={() => setHistoryOpen(true)} style={styles.historyBtn} />
+                    </View>
+                    {!!undoRedo.undoable && (
+                        <Text style={[styles.helperText, { marginTop: 6 }]}>
+                            Undo: {describeAction(undoRedo.undoable, actionLog)} ({undoRedo.undoable.eventName})
                         </Text>
                     )}
                 </Card>
 
+                {/* Our car */}
+                {!!current && (
+                    <Card>
+                        <Text style={styles.sectionTitle}>Our Car</Text>
+
+                        {ourCar ? (
+                            <>
+                                <View style={styles.ourCarRow}>
+                                    <RoundButton label="−" variant={ourCar.carsAhead > 0 ? 'danger' : 'disabled'} onPress={ourCar.carsAhead > 0 ? () => adjustOurCar(-1) : undefined} />
+                                    <View
+                                        style={[styles.valuePill, styles.ourCarPill]}
+                                        accessible
+                                        accessibilityLabel={`Cars ahead of us: ${ourCar.carsAhead}`}
+                                    >
+                                        <Text style={styles.valueLabel}>Cars ahead of us</Text>
+                                        <Text style={styles.valueNumber}>{ourCar.carsAhead}</Text>
+                                    </View>
+                                    <RoundButton label="+" variant="primary" onPress={() => adjustOurCar(1)} />
+                                </View>
+
+                                <Text style={styles.ourCarEta}>
+                                    {ourCar.carsAhead === 0
+                                        ? 'We’re at the front — run now'
+                                        : ourRunTime?.likely != null
+                                            ? `We run at ~${fmtClock(ourRunTime.likely)}`
+                                            : 'Run time needs a run rate'}
+                                </Text>
+                                {ourCar.carsAhead > 0 && ourRunTime?.likely != null && (
+                                    <Text style={styles.metricSub}>
+                                        Earliest {ourRunTime.earliest != null ? fmtClock(ourRunTime.earliest) : '–'} · Latest{' '}
+                                        {ourRunTime.latest != null ? fmtClock(ourRunTime.latest) : '–'}
+                                    </Text>
+                                )}
+
+                                {ourCar.carsAhead <= ourCar.alertAt && (
+                                    <View style={styles.alertBanner}>
+                                        <Text style={styles.alertBannerText}>
+                                            Stage the car — {ourCar.carsAhead} car{ourCar.carsAhead === 1 ? '' : 's'} ahead
+                                        </Text>
+                                    </View>
+                                )}
+
+                                <Text style={styles.helperText}>
+                                    Counts down with each completion{useSAERunRate ? ' and each new SAE result' : ''}. Alert at{' '}
+                                    {ourCar.alertAt} ahead.
+                                </Text>
+                                <View style={{ height: 10 }} />
+                                <PrimaryButton title="Clear Our Car" onPress={clearOurCar} style={{ width: '100%' }} />
+                            </>
+                        ) : (
+                            <>
+                                <View style={styles.chipRow}>
+                                    {(['position', 'ahead'] as const).map((entry) => {
+                                        const selected = ourCarEntry === entry;
+                                        return (
+                                            <Pressable
+                                                key={entry}
+                                                onPress={() => setOurCarEntry(entry)}
+                                                style={[styles.chip, selected && styles.chipActive]}
+                                                accessibilityRole="button"
+                                                accessibilityState={{ selected }}
+                                            >
+                                                <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                                                    {entry === 'position' ? 'Position in line' : 'Cars ahead'}
+                                                </Text>
+                                            </Pressable>
+                                        );
+                                    })}
+                                </View>
+
+                                <TextInput
+                                    value={ourCarInput}
+                                    onChangeText={setOurCarInput}
+                                    placeholder={ourCarEntry === 'position' ? 'e.g., 8 (1 = next)' : 'e.g., 7'}
+                                    placeholderTextColor={palette.dim}
+                                    style={styles.input}
+                                    keyboardType="number-pad"
+                                    inputMode="numeric"
+                                    returnKeyType="done"
+                                    onSubmitEditing={trackOurCar}
+                                    accessibilityLabel="Our car position"
+                                />
+
+                                <Text style={styles.chipLabel}>Alert when this many cars ahead</Text>
+                                <View style={styles.chipRow}>
+                                    {OUR_CAR_ALERT_OPTIONS.map((n) => {
+                                        const selected = ourCarAlertAt === n;
+                                        return (
+                                            <Pressable
+                                                key={n}
+                                                onPress={() => setOurCarAlertAt(n)}
+                                                style={[styles.chip, selected && styles.chipActive]}
+                                                accessibilityRole="button"
+                                                accessibilityState={{ selected }}
+                                                accessibilityLabel={`Alert at ${n} cars ahead`}
+                                            >
+                                                <Text style={[styles.chipText, selected && styles.chipTextActive]}>{n}</Text>
+                                            </Pressable>
+                                        );
+                                    })}
+                                </View>
+
+                                <PrimaryButton title="Track Our Car" onPress={trackOurCar} style={{ width: '100%' }} />
+                            </>
+                        )}
+                    </Card>
+                )}
+
+                {/* Alerts */}
+                {!!eventName && (
+                    <Card>
+                        <Text style={styles.sectionTitle}>Alerts</Text>
+                        <AlertRulesEditor eventName={eventName} rules={alertRules} log={alertLog} onChange={setAlertRules} />
+                    </Card>
+                )}
+
+                {/* Watchlist */}
+                <Card>
+                    <Text style={styles.sectionTitle}>Watchlist</Text>
+                    <Text style={[styles.helperText, { marginTop: 0 }]}>
+                        {watchlist.cars.length > 0
+                            ? `Watching ${watchlist.cars.map((c) => `#${c}`).join(', ')}`
+                            : 'No cars watched yet.'}
+                        {watchlist.ourCarNo ? ` · Our car #${watchlist.ourCarNo}` : ''}
+                    </Text>
+                    <View style={{ height: 10 }} />
+                    <PrimaryButton title="Open Watchlist" onPress={() => setWatchlistOpen(true)} style={{ width: '100%' }} />
+                </Card>
+
                 {/* Metrics */}
                 <Card>
                     <Text style={styles.sectionTitle}>Metrics</Text>
+
+                    <View style={styles.chipRow}>
+                        {RATE_MODEL_OPTIONS.map((o) => {
+                            const selected = rateModel.model === o.model;
+                            return (
+                                <Pressable
+                                    key={o.model}
+                                    onPress={() => setRateModel((prev) => ({ ...prev, model: o.model }))}
+                                    style={[styles.chip, selected && styles.chipActive]}
+                                    accessibilityRole="button"
+                                    accessibilityState={{ selected }}
+                                    accessibilityLabel={`Use ${o.label} rate`}
+                                >
+                                    <Text style={[styles.chipText, selected && styles.chipTextActive]}>{o.label}</Text>
+                                </Pressable>
+                            );
+                        })}
+                    </View>
+                    {rateModel.model !== 'cumulative' && (
+                        <View style={styles.chipRow}>
+                            {RATE_WINDOW_OPTIONS_MIN.map((min) => {
+                                const selected = rateModel.windowMin === min;
+                                return (
+                                    <Pressable
+                                        key={min}
+                                        onPress={() => setRateModel((prev) => ({ ...prev, windowMin: min }))}
+                                        style={[styles.chip, selected && styles.chipActive]}
+                                        accessibilityRole="button"
+                                        accessibilityState={{ selected }}
+                                        accessibilityLabel={`Use ${min} minute rate window`}
+                                    >
+                                        <Text style={[styles.chipText, selected && styles.chipTextActive]}>{min} min</Text>
+                                    </Pressable>
+                                );
+                            })}
+                        </View>
+                    )}
+
                     <View style={styles.metricRow}>
-                        <Text style={styles.metricKey}>Run Rate ({sourceLabel})</Text>
+                        <Text style={styles.metricKey}>Run Rate ({sourceLabel}, {describeRateModel(rateModel)})</Text>
                         <Text style={styles.metricVal}>{rate.toFixed(2)} cars / min</Text>
                     </View>
                     <View style={styles.metricRow}>
-                        <Text style={styles.metricKey}>ETA</Text>
-                        <Text style={styles.metricVal}>{eta && isFinite(eta) ? eta.toFixed(1) : '–'} minutes</Text>
+                        <Text style={styles.metricKey}>Arrivals</Text>
+                        <Text style={styles.metricVal}>{arrivalRate.toFixed(2)} cars / min</Text>
                     </View>
+                    <View style={styles.metricRow}>
+                        <Text style={styles.metricKey}>ETA (line clears)</Text>
+                        <Text style={styles.metricVal}>{fmtEtaMinutes(eta.likely)} minutes</Text>
+                        {eta.likely !== undefined && (
+                            <Text style={styles.metricSub}>
+                                Best {fmtEtaMinutes(eta.best)} · Worst {fmtEtaMinutes(eta.worst)} minutes
+                            </Text>
+                        )}
+                    </View>
+                    {lanes.length > 1 && (
+                        <View style={styles.metricRow}>
+                            <Text style={styles.metricKey}>By lane (manual taps)</Text>
+                            {lanes.map((l, i) => (
+                                <Text key={i} style={styles.metricSub}>
+                                    Lane {i + 1}: line {l.lineLength} · {l.rate.toFixed(2)} / min · ETA {fmtEtaMinutes(l.eta.likely)} min
+                                </Text>
+                            ))}
+                        </View>
+                    )}
                     <View style={[styles.metricRow, { marginBottom: 0 }]}>
                         <Text style={styles.metricKey}>Total Completions ({sourceLabel})</Text>
                         <Text style={styles.metricVal}>{count}</Text>
+                        {hybridMode && (
+                            <Text style={styles.metricSub}>
+                                {parts.sae} from SAE · {parts.manual} manual while SAE was stale
+                            </Text>
+                        )}
                     </View>
                 </Card>
 
+                {/* Overview */}
+                {trackedEvents.length > 0 && (
+                    <Card>
+                        <Text style={styles.sectionTitle}>All Events</Text>
+                        <View style={{ gap: 8 }}>
+                            {trackedEvents.map((s) => {
+                                const m = metricsByEvent[s.eventName] ?? EMPTY_METRICS;
+                                const selected = s.eventName === eventName;
+                                return (
+                                    <Pressable
+                                        key={s.eventName}
+                                        onPress={() => selectEvent(s.eventName)}
+                                        style={[styles.listItem, selected && styles.overviewRowActive]}
+                                        accessibilityRole="button"
+                                        accessibilityState={{ selected }}
+                                        accessibilityLabel={`Show ${s.eventName}`}
+                                    >
+                                        <Text style={styles.overviewName}>{s.eventName}</Text>
+                                        <Text style={styles.itemText}>
+                                            Line {s.lineLength} · {m.rate.toFixed(2)} / min ({m.sourceLabel}) · ETA{' '}
+                                            {m.eta.likely === undefined ? '–' : `${fmtEtaMinutes(m.eta.likely)} min`}
+                                        </Text>
+                                        {!!s.ourCar && (
+                                            <Text style={styles.metricSub}>Our car: {s.ourCar.carsAhead} ahead</Text>
+                                        )}
+                                    </Pressable>
+                                );
+                            })}
+                        </View>
+                    </Card>
+                )}
+
+                {/* History */}
+                {!!charts && (
+                    <Card>
+                        <Text style={styles.sectionTitle}>History</Text>
+
+                        <View style={styles.chipRow}>
+                            {CHART_RANGES.map((r) => {
+                                const selected = chartRangeMin === r.minutes;
+                                return (
+                                    <Pressable
+                                        key={r.label}
+                                        onPress={() => setChartRangeMin(r.minutes)}
+                                        style={[styles.chip, selected && styles.chipActive]}
+                                        accessibilityRole="button"
+                                        accessibilityState={{ selected }}
+                                        accessibilityLabel={`Show ${r.label} of history`}
+                                    >
+                                        <Text style={[styles.chipText, selected && styles.chipTextActive]}>{r.label}</Text>
+                                    </Pressable>
+                                );
+                            })}
+                        </View>
+
+                        {!charts.hasSamples && (
+                            <Text style={[styles.helperText, { marginTop: 0, marginBottom: 10 }]}>
+                                Record line samples or turn on Auto sample to build history for this event.
+                            </Text>
+                        )}
+
+                        <TimeSeriesChart
+                            title="Cars in line"
+                            points={charts.line}
+                            startMs={charts.startMs}
+                            endMs={charts.endMs}
+                            formatValue={(v) => String(Math.round(v))}
+                            markers={charts.saeMarkers}
+                        />
+                        <TimeSeriesChart
+                            title="Run rate (cars / min)"
+                            points={charts.rate}
+                            startMs={charts.startMs}
+                            endMs={charts.endMs}
+                            formatValue={(v) => v.toFixed(2)}
+                            markers={[...charts.completionMarkers, ...charts.saeMarkers]}
+                        />
+                        <TimeSeriesChart
+                            title="ETA (minutes)"
+                            points={charts.eta}
+                            startMs={charts.startMs}
+                            endMs={charts.endMs}
+                            formatValue={(v) => v.toFixed(1)}
+                            markers={charts.saeMarkers}
+                        />
+
+                        <View style={styles.legendRow}>
+                            <View style={[styles.legendSwatch, { backgroundColor: palette.sae }]} />
+                            <Text style={styles.legendText}>SAE result</Text>
+                            <View style={[styles.legendSwatch, { backgroundColor: palette.success }]} />
+                            <Text style={styles.legendText}>Manual completion</Text>
+                        </View>
+                    </Card>
+                )}
+
                 {/* Utilities */}
                 <Card>
                     <Text style={styles.sectionTitle}>Utilities</Text>
                     <PrimaryButton title="Snapshot Line Length" onPress={snapshot} style={{ width: '100%' }} />
-                    <View style={{ height: 10 }} />
+
+                    <Text style={styles.chipLabel}>Auto sample</Text>
+                    <View style={styles.chipRow}>
+                        {[null, ...SNAPSHOT_INTERVAL_OPTIONS_MIN].map((min) => {
+                            const selected = min == null
+                                ? !snapshotSettings.autoEnabled
+                                : snapshotSettings.autoEnabled && snapshotSettings.intervalMin === min;
+                            return (
+                                <Pressable
+                                    key={min ?? 'off'}
+                                    onPress={() =>
+                                        setSnapshotSettings((prev) =>
+                                            min == null
+                                                ? { ...prev, autoEnabled: false }
+                                                : { ...prev, autoEnabled: true, intervalMin: min }
+                                        )
+                                    }
+                                    style={[styles.chip, selected && styles.chipActive]}
+                                    accessibilityRole="button"
+                                    accessibilityState={{ selected }}
+                                    accessibilityLabel={min == null ? 'Turn auto snapshot off' : `Auto snapshot every ${min} minutes`}
+                                >
+                                    <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                                        {min == null ? 'Off' : `${min} min`}
+                                    </Text>
+                                </Pressable>
+                            );
+                        })}
+                    </View>
+
+                    <Text style={styles.chipLabel}>Poll SAE every</Text>
+                    <View style={styles.chipRow}>
+                        {POLL_INTERVAL_OPTIONS_SEC.map((sec) => {
+                            const selected = pollSettings.intervalSec === sec;
+                            return (
+                                <Pressable
+                                    key={sec}
+                                    onPress={() => setPollSettings((prev) => ({ ...prev, intervalSec: sec }))}
+                                    style={[styles.chip, selected && styles.chipActive]}
+                                    accessibilityRole="button"
+                                    accessibilityState={{ selected }}
+                                    accessibilityLabel={`Poll SAE every ${sec} seconds`}
+                                >
+                                    <Text style={[styles.chipText, selected && styles.chipTextActive]}>{sec} s</Text>
+                                </Pressable>
+                            );
+                        })}
+                        <Pressable
+                            onPress={() => setPollSettings((prev) => ({ ...prev, fasterWhenActive: !prev.fasterWhenActive }))}
+                            style={[styles.chip, pollSettings.fasterWhenActive && styles.chipActive]}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected: pollSettings.fasterWhenActive }}
+                            accessibilityLabel="Poll faster while the site is updating"
+                        >
+                            <Text style={[styles.chipText, pollSettings.fasterWhenActive && styles.chipTextActive]}>
+                                Faster while active
+                            </Text>
+                        </Pressable>
+                    </View>
+
+                    <Text style={styles.chipLabel}>Keep samples for</Text>
+                    <View style={styles.chipRow}>
+                        {SNAPSHOT_RETENTION_OPTIONS_HOURS.map((hours) => {
+                            const selected = snapshotSettings.retentionHours === hours;
+                            return (
+                                <Pressable
+                                    key={hours ?? 'all'}
+                                    onPress={() => setSnapshotSettings((prev) => ({ ...prev, retentionHours: hours }))}
+                                    style={[styles.chip, selected && styles.chipActive]}
+                                    accessibilityRole="button"
+                                    accessibilityState={{ selected }}
+                                    accessibilityLabel={`Keep samples for ${describeRetention(hours)}`}
+                                >
+                                    <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                                        {describeRetention(hours)}
+                                    </Text>
+                                </Pressable>
+                            );
+                        })}
+                    </View>
+                    <Text style={[styles.helperText, { marginTop: 0, marginBottom: 10 }]}>
+                        {samples.length} sample{samples.length === 1 ? '' : 's'} stored
+                    </Text>
+
                     <PrimaryButton title="Export Line Samples CSV" onPress={exportLineSamplesCsv} style={{ width: '100%' }} />
+                    <View style={{ height: 10 }} />
+                    <PrimaryButton title="Export Completions CSV" onPress={exportCompletionsCsv} style={{ width: '100%' }} />
+                    {!!current && (
+                        <>
+                            <View style={{ height: 10 }} />
+                            <PrimaryButton title="Stop Tracking Event" danger onPress={stopTrackingEvent} style={{ width: '100%' }} />
+                        </>
+                    )}
+                </Card>
+
+                {/* Replay */}
+                <Card>
+                    <Text style={styles.sectionTitle}>Replay</Text>
+                    <ReplayControls eventName={eventName} replay={replay} onStart={startReplay} onStop={stopReplay} />
                 </Card>
 
                 {/* Recent */}
@@ -795,10 +2177,100 @@ export default function DynamicTab() {
                     )}
                 </Card>
             </ScrollView>
+
+            <ActionHistory
+                visible={historyOpen}
+                log={actionLog}
+                onClose={() => setHistoryOpen(false)}
+                onUndo={undo}
+                onRedo={redo}
+            />
+            <WatchlistScreen
+                visible={watchlistOpen}
+                eventNames={trackedEvents.map((s) => s.eventName)}
+                initialEvent={eventName}
+                watchlist={watchlist}
+                history={watchHistory}
+                onChange={setWatchlist}
+                onClose={() => setWatchlistOpen(false)}
+            />
         </View>
     );
 }
 
+const RECENT_CAR_NUMBERS = 8;
+
+type ExportFileType = { blobType: string; mimeType: string; UTI: string };
+const CSV_FILE_TYPE: ExportFileType = {
+    blobType: 'text/csv;charset=utf-8',
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+};
+const JSON_FILE_TYPE: ExportFileType = { blobType: 'application/json', mimeType: 'application/json', UTI: 'public.json' };
+
+/** Removes the first element matching `pred` (the newest, for newest-first lists). */
+function removeFirst<T>(list: T[], pred: (item: T) => boolean) {
+    const idx = list.findIndex(pred);
+    return idx < 0 ? list : [...list.slice(0, idx), ...list.slice(idx + 1)];
+}
+
+/** Whether two completions, arrivals or samples are the same record (same event, time and lane). */
+function sameRecord(a: { eventName: string; timestamp: string; lane?: number }, b: typeof a) {
+    return a.eventName === b.eventName && a.timestamp === b.timestamp && a.lane === b.lane;
+}
+
+/** Clears an event's SAE results, leaving its queue and mode alone. */
+function clearSaeResults(s: DynamicEventState): DynamicEventState {
+    return {
+        ...s,
+        saeSeen: [],
+        saeBoard: null,
+        saeChanges: [],
+        saeFallback: [],
+        saeLastUpdateMs: null,
+        saeLastUpdateRaw: null,
+    };
+}
+
+/** Per-lane queue change; keeps `lineLength` equal to the lane total. */
+function withLaneDelta(s: DynamicEventState, lane: number, delta: number) {
+    const laneLines = adjustLane(s.laneLines, lane, delta);
+    return { laneLines, lineLength: laneLines.reduce((a, b) => a + b, 0) };
+}
+
+/** Only records on multi-lane courses carry a lane, so single-lane data is unchanged. */
+function laneField(lane: number) {
+    return lane > 0 ? { lane } : {};
+}
+
+/** Manual taps move our car in Manual mode, and in Hybrid mode while the leaderboard is stale. */
+function tapsMoveOurCar(s: DynamicEventState) {
+    return !s.useSAE || (s.hybrid && isFallbackOpen(s.saeFallback));
+}
+
+const EMPTY_METRICS: EventMetrics = {
+    rate: 0,
+    count: 0,
+    sourceLabel: 'Manual',
+    startMs: null,
+    parts: { sae: 0, manual: 0 },
+    lanes: [],
+    arrivalRate: 0,
+    eta: { likely: undefined, best: undefined, worst: undefined },
+};
+
+/** Formats an ETA for display: "–" without a rate, "∞" when the line isn't draining. */
+function fmtEtaMinutes(minutes: number | undefined) {
+    if (minutes === undefined) return '–';
+    if (!Number.isFinite(minutes)) return '∞';
+    return minutes.toFixed(1);
+}
+
+/** Rounds a finite number for storage; unknown or unbounded values become null. */
+function roundOrNull(value: number | undefined, digits: number) {
+    return value !== undefined && Number.isFinite(value) ? Number(value.toFixed(digits)) : null;
+}
+
 const styles = StyleSheet.create({
     screen: { flex: 1, backgroundColor: palette.bg, paddingHorizontal: 12, paddingTop: 12 },
     scrollContent: { paddingBottom: 24 },
@@ -867,7 +2339,51 @@ const styles = StyleSheet.create({
         marginBottom: 10,
     },
     metricKey: { color: palette.dim, fontWeight: '700' },
+    chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 10 },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999,
+        borderWidth: 1,
+        borderColor: palette.border,
+        backgroundColor: palette.inputBg,
+    },
+    chipActive: { borderColor: palette.success, backgroundColor: 'rgba(35, 134, 54, 0.22)' },
+    chipText: { color: palette.dim, fontWeight: '800' },
+    chipTextActive: { color: palette.text },
+    input: {
+        backgroundColor: palette.inputBg,
+        color: palette.text,
+        borderColor: palette.border,
+        borderWidth: 1,
+        borderRadius: 10,
+        padding: 10,
+        marginBottom: 4,
+    },
+    historyRow: { flexDirection: 'row', gap: 8, marginTop: 12 },
+    historyBtn: { flex: 1, alignItems: 'center' },
+    historyBtnDisabled: { flex: 1, alignItems: 'center', opacity: 0.4 },
+    laneBlock: { borderTopWidth: 1, borderTopColor: palette.border, paddingTop: 10, marginTop: 10 },
+    laneTitle: { color: palette.dim, fontSize: 13, fontWeight: '700', marginBottom: 8 },
+    laneTotals: { marginTop: 12, alignItems: 'center' },
+    ourCarRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+    ourCarPill: { flex: 1, width: undefined },
+    ourCarEta: { color: palette.text, fontWeight: '900', fontSize: 18, marginTop: 12 },
+    alertBanner: {
+        marginTop: 10,
+        padding: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: palette.danger,
+        backgroundColor: 'rgba(185, 28, 28, 0.22)',
+    },
+    alertBannerText: { color: palette.text, fontWeight: '800' },
+    legendRow: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+    legendSwatch: { width: 10, height: 10, borderRadius: 2 },
+    legendText: { color: palette.dim, fontSize: 12, marginRight: 8 },
+    chipLabel: { color: palette.dim, fontWeight: '700', marginTop: 12, marginBottom: 6 },
     metricVal: { color: palette.text, fontWeight: '900', fontSize: 16, marginTop: 4 },
+    metricSub: { color: palette.dim, marginTop: 4 },
 
     listItem: {
         backgroundColor: palette.listBg,
@@ -877,6 +2393,8 @@ const styles = StyleSheet.create({
         padding: 10,
     },
     itemText: { color: palette.text },
+    overviewName: { color: palette.text, fontWeight: '800', marginBottom: 2 },
+    overviewRowActive: { borderColor: palette.success },
 
     emptyText: { color: palette.dim },
 
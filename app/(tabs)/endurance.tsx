@@ -24,9 +24,17 @@ const P = { bg: '#0b0b0c', txt: '#fff', dim: '#c9d1d9', input: '#161b22', border
 type Direction = 'in' | 'out';
 type Station = 'entry' | 'exit';
 type Pit = { carNumber: string; direction: Direction; station: Station; timestamp: string; sessionId: string };
+/** A car passing the timing point; consecutive passes in the same session make a lap. */
+type Lap = { carNumber: string; timestamp: string; sessionId: string };
+type Mode = 'pits' | 'laps';
 
 const CAR_INPUT_ACCESSORY = 'carNumberAccessory';
 const STORAGE_KEY_PITLOGS = 'mobilescout:pitlogs:v1';
+const STORAGE_KEY_LAPLOGS = 'mobilescout:laplogs:v1';
+/** Passes kept; enough for a full endurance race of a large field. */
+const MAX_LAP_PASSES = 5000;
+/** Pit entries kept; as many as passes, so pit laps keep their stops for the whole race. */
+const MAX_PIT_LOGS = MAX_LAP_PASSES;
 
 /**
  * Renders an input accessory view with a "Done" button for iOS platforms.
@@ -66,8 +74,12 @@ function DoneAccessory({ nativeID }: { nativeID: string }) {
  * @exports parseISO - Parses an ISO 8601 date string into a Date object
  * @exports fmtDuration - Formats a duration into a human-readable string
  * @exports computeOffTrack - Computes off-track metrics or statistics
+ * @exports computeLapStats - Computes lap times for one car, leaving pit stops out of its pace
+ * @exports computeLapBoard - Computes lap stats for every timed car
+ * @exports MAX_PIT_LOGS - Pit entries kept before the oldest are dropped
  */
-export { parseISO, fmtDuration, computeOffTrack };
+export { parseISO, fmtDuration, computeOffTrack, computeLapStats, computeLapBoard, MAX_PIT_LOGS };
+export type { Pit, Lap };
 
 /**
  * Parses an ISO 8601 date string and returns a Date object.
@@ -172,13 +184,109 @@ function computeOffTrack(logs: Pit[], carNumber: string, nowMs: number) {
     };
 }
 
+/**
+ * Pit stop intervals for one car, in milliseconds; a stop without a Pit Out runs to the end of time.
+ * @param logs - Pit log entries
+ * @param car - The car number (trimmed)
+ * @returns In/out intervals in chronological order
+ */
+function pitIntervals(logs: Pit[], car: string) {
+    const events = logs
+        .filter(l => l.carNumber.trim() === car)
+        .map(l => ({ direction: l.direction, ms: parseISO(l.timestamp)?.getTime() ?? NaN }))
+        .filter(e => Number.isFinite(e.ms))
+        .sort((a, b) => a.ms - b.ms);
+
+    const intervals: { inMs: number; outMs: number }[] = [];
+    let openIn: number | null = null;
+    for (const e of events) {
+        if (e.direction === 'in') {
+            openIn = e.ms;
+        } else if (openIn !== null) {
+            intervals.push({ inMs: openIn, outMs: e.ms });
+            openIn = null;
+        }
+    }
+    if (openIn !== null) intervals.push({ inMs: openIn, outMs: Infinity });
+    return intervals;
+}
+
+/**
+ * Computes lap times for one car from its passes of the timing point.
+ *
+ * @param laps - Pass entries for all cars
+ * @param pits - Pit log entries for all cars
+ * @param carNumber - The car number to analyze (will be trimmed)
+ *
+ * @returns An object containing:
+ *   - `laps`: Laps completed (pit laps included)
+ *   - `lastSeconds`: The most recent lap time, or null before the second pass
+ *   - `lastWasPit`: Whether the most recent lap included a pit stop
+ *   - `bestSeconds`: Fastest lap without a pit stop, or null
+ *   - `averageSeconds`: Mean lap without a pit stop, or null
+ *   - `cleanLaps`: Laps counted in best and average
+ *
+ * @remarks
+ * - A lap is the time between consecutive passes in the same session; passes on different days don't make a lap
+ * - A lap overlapping a logged Pit In / Pit Out interval (or a stop still open) is a pit lap and stays out of the pace
+ * - Once the pit log is full ({@link MAX_PIT_LOGS}), its oldest stops are gone, so laps starting before its
+ *   oldest entry can't be checked and stay out of the pace too
+ */
+function computeLapStats(laps: Lap[], pits: Pit[], carNumber: string) {
+    const car = carNumber.trim();
+    const passes = laps
+        .filter(l => l.carNumber.trim() === car)
+        .map(l => ({ sessionId: l.sessionId, ms: parseISO(l.timestamp)?.getTime() ?? NaN }))
+        .filter(p => Number.isFinite(p.ms))
+        .sort((a, b) => a.ms - b.ms);
+    const stops = pitIntervals(pits, car);
+    const pitHistoryFromMs =
+        pits.length >= MAX_PIT_LOGS
+            ? Math.min(...pits.map(p => parseISO(p.timestamp)?.getTime() ?? Infinity))
+            : -Infinity;
+
+    const times: { seconds: number; pit: boolean; checked: boolean }[] = [];
+    for (let i = 1; i < passes.length; i++) {
+        const start = passes[i - 1];
+        const end = passes[i];
+        if (start.sessionId !== end.sessionId) continue;
+        const pit = stops.some(s => s.inMs < end.ms && s.outMs > start.ms);
+        times.push({ seconds: (end.ms - start.ms) / 1000, pit, checked: start.ms >= pitHistoryFromMs });
+    }
+
+    const clean = times.filter(t => !t.pit && t.checked).map(t => t.seconds);
+    const last = times[times.length - 1];
+    return {
+        laps: times.length,
+        lastSeconds: last ? last.seconds : null,
+        lastWasPit: !!last?.pit,
+        bestSeconds: clean.length ? Math.min(...clean) : null,
+        averageSeconds: clean.length ? clean.reduce((sum, t) => sum + t, 0) / clean.length : null,
+        cleanLaps: clean.length,
+    };
+}
+
+/**
+ * Computes lap stats for every car with a pass, most laps first, then fastest best lap.
+ * @param laps - Pass entries for all cars
+ * @param pits - Pit log entries for all cars
+ * @returns One row per car
+ */
+function computeLapBoard(laps: Lap[], pits: Pit[]) {
+    const cars = [...new Set(laps.map(l => l.carNumber.trim()).filter(Boolean))];
+    return cars
+        .map(carNumber => ({ carNumber, ...computeLapStats(laps, pits, carNumber) }))
+        .sort((a, b) => b.laps - a.laps || (a.bestSeconds ?? Infinity) - (b.bestSeconds ?? Infinity));
+}
+
 /**
  * EnduranceTab component for tracking pit events and calculating off-track duration for race cars.
  * 
  * This component manages:
  * - Recording pit in/out events with car numbers and timestamps
- * - Persisting pit logs to AsyncStorage with a 200-entry limit
+ * - Persisting pit logs to AsyncStorage with a {@link MAX_PIT_LOGS}-entry limit
  * - Calculating total and current off-track duration for a selected car
+ * - A lap-timing mode: one pass per car at a timing point, with last / best / average lap and laps per car
  * - Real-time duration updates via a 1-second interval timer
  * - Platform-specific keyboard handling (iOS, Android, Web)
  * 
@@ -202,24 +310,44 @@ export default function EnduranceTab() {
     const [car, setCar] = useState('');
     const [lookupCar, setLookupCar] = useState('');
     const [logs, setLogs] = useState<Pit[]>([]);
+    const [laps, setLaps] = useState<Lap[]>([]);
+    const [mode, setMode] = useState<Mode>('pits');
     const [nowMs, setNowMs] = useState(() => Date.now());
 
+    // Nothing is written back until both saved logs have been read
+    const [hydrated, setHydrated] = useState(false);
+
     useEffect(() => {
         (async () => {
             try {
-                const raw = await AsyncStorage.getItem(STORAGE_KEY_PITLOGS);
+                const [raw, rawLaps] = await Promise.all([
+                    AsyncStorage.getItem(STORAGE_KEY_PITLOGS),
+                    AsyncStorage.getItem(STORAGE_KEY_LAPLOGS),
+                ]);
                 if (raw) setLogs(JSON.parse(raw));
+                if (rawLaps) setLaps(JSON.parse(rawLaps));
             } catch { }
+            setHydrated(true);
         })();
     }, []);
 
     useEffect(() => {
+        if (!hydrated) return;
         (async () => {
             try {
                 await AsyncStorage.setItem(STORAGE_KEY_PITLOGS, JSON.stringify(logs));
             } catch { }
         })();
-    }, [logs]);
+    }, [hydrated, logs]);
+
+    useEffect(() => {
+        if (!hydrated) return;
+        (async () => {
+            try {
+                await AsyncStorage.setItem(STORAGE_KEY_LAPLOGS, JSON.stringify(laps));
+            } catch { }
+        })();
+    }, [hydrated, laps]);
 
     useEffect(() => {
         const id = setInterval(() => setNowMs(Date.now()), 1000);
@@ -240,11 +368,30 @@ export default function EnduranceTab() {
             sessionId: new Date().toISOString().slice(0, 10),
         };
 
-        setLogs(prev => [newEntry, ...prev].slice(0, 200));
+        setLogs(prev => [newEntry, ...prev].slice(0, MAX_PIT_LOGS));
         setCar('');
         Keyboard.dismiss();
     }
 
+    // The keyboard stays up so the next car can be entered straight away
+    function addLap() {
+        const trimmed = car.trim();
+        if (!trimmed) return;
+
+        const newEntry: Lap = {
+            carNumber: trimmed,
+            timestamp: new Date().toISOString(),
+            sessionId: new Date().toISOString().slice(0, 10),
+        };
+
+        setLaps(prev => [newEntry, ...prev].slice(0, MAX_LAP_PASSES));
+        setCar('');
+    }
+
+    function undoLap() {
+        setLaps(prev => prev.slice(1));
+    }
+
     function onWebKeyPress(e: NativeSyntheticEvent<TextInputKeyPressEventData>) {
         if (Platform.OS !== 'web') return;
         const key = e.nativeEvent.key;
@@ -261,6 +408,75 @@ export default function EnduranceTab() {
     }) as any;
 
     const off = useMemo(() => computeOffTrack(logs, lookupCar, nowMs), [logs, lookupCar, nowMs]);
+    const board = useMemo(() => computeLapBoard(laps, logs), [laps, logs]);
+
+    const modeChips = (
+        <View style={styles.row}>
+            {([['pits', 'Pit Logs'], ['laps', 'Lap Timing']] as const).map(([m, label]) => {
+                const selected = mode === m;
+                return (
+                    <Pressable
+                        key={m}
+                        onPress={() => setMode(m)}
+                        style={[styles.chip, selected && styles.chipActive]}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected }}
+                        accessibilityLabel={`Show ${label}`}
+                    >
+                        <Text style={{ color: P.txt }}>{label}</Text>
+                    </Pressable>
+                );
+            })}
+        </View>
+    );
+
+    const lapHeader = (
+        <>
+            {modeChips}
+            <Text style={styles.h2}>Lap Timing</Text>
+
+            <Text style={styles.label}>Car number passing the timing point</Text>
+            <TextInput
+                value={car}
+                onChangeText={setCar}
+                placeholder="e.g., 42"
+                placeholderTextColor={P.dim}
+                style={styles.input}
+                keyboardType={carKeyboardType}
+                inputMode="numeric"
+                returnKeyType="done"
+                blurOnSubmit={false}
+                onSubmitEditing={addLap}
+                inputAccessoryViewID={Platform.OS === 'ios' ? CAR_INPUT_ACCESSORY : undefined}
+            />
+            <DoneAccessory nativeID={CAR_INPUT_ACCESSORY} />
+
+            <View style={styles.row}>
+                <PrimaryButton title="Log Lap" onPress={addLap} />
+                <PrimaryButton title="Undo Last Pass" onPress={undoLap} />
+            </View>
+
+            <View style={styles.section}>
+                <Text style={styles.h3}>Laps per car</Text>
+                <Text style={styles.label}>Best and average leave out laps with a logged pit stop.</Text>
+                {board.length === 0 ? (
+                    <Text style={styles.empty}>No passes yet.</Text>
+                ) : (
+                    board.map(r => (
+                        <Text key={r.carNumber} style={styles.metric}>
+                            <Text style={styles.metricKey}>Car {r.carNumber}: </Text>
+                            {r.laps} lap{r.laps === 1 ? '' : 's'} · last{' '}
+                            {r.lastSeconds !== null ? `${fmtDuration(r.lastSeconds)}${r.lastWasPit ? ' (pit)' : ''}` : '—'} · best{' '}
+                            {r.bestSeconds !== null ? fmtDuration(r.bestSeconds) : '—'} · avg{' '}
+                            {r.averageSeconds !== null ? fmtDuration(r.averageSeconds) : '—'}
+                        </Text>
+                    ))
+                )}
+            </View>
+
+            <Text style={styles.h3}>Recent passes</Text>
+        </>
+    );
 
     return (
         <DismissKeyboard>
@@ -273,6 +489,23 @@ export default function EnduranceTab() {
                     <AppHeader />
 
                     <Card style={styles.card}>
+                        {mode === 'laps' ? (
+                        <FlatList
+                            data={laps}
+                            keyExtractor={(item, idx) => item.timestamp + idx}
+                            keyboardShouldPersistTaps="always"
+                            contentContainerStyle={styles.listContent}
+                            ListHeaderComponent={lapHeader}
+                            renderItem={({ item }) => (
+                                <View style={styles.item}>
+                                    <Text style={{ color: P.txt }}>
+                                        {new Date(item.timestamp).toLocaleTimeString()} — Car {item.carNumber}
+                                    </Text>
+                                </View>
+                            )}
+                            ListEmptyComponent={<Text style={styles.empty}>No passes yet.</Text>}
+                        />
+                        ) : (
                         <FlatList
                             data={logs}
                             keyExtractor={(item, idx) => item.timestamp + idx}
@@ -280,6 +513,7 @@ export default function EnduranceTab() {
                             contentContainerStyle={styles.listContent}
                             ListHeaderComponent={
                                 <>
+                                    {modeChips}
                                     <Text style={styles.h2}>Pit Logs</Text>
 
                                     <Text style={styles.label}>Car number</Text>
@@ -366,6 +600,7 @@ export default function EnduranceTab() {
                                 <Text style={styles.empty}>No pit events yet.</Text>
                             }
                         />
+                        )}
                     </Card>
                 </View>
             </KeyboardAvoidingView>
@@ -394,6 +629,8 @@ const styles = StyleSheet.create({
         marginBottom: 10,
     },
     row: { flexDirection: 'row', gap: 8, flexWrap: 'wrap', marginVertical: 4 },
+    chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, borderColor: P.border },
+    chipActive: { backgroundColor: P.green, borderColor: P.green },
     item: {
         backgroundColor: '#11161d',
         borderColor: P.border,
@@ -1,12 +1,15 @@
 import AppHeader from '@/components/ui/AppHeader';
 import Card from '@/components/ui/Card';
+import EventCatalogEditor from '@/components/ui/EventCatalogEditor';
+import LeaderboardArchiveBrowser from '@/components/ui/LeaderboardArchiveBrowser';
 import PrimaryButton from '@/components/ui/PrimaryButton';
+import VenueTimeZoneEditor from '@/components/ui/VenueTimeZoneEditor';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from "expo-file-system/legacy";
 import * as Updates from 'expo-updates';
 import * as Sharing from 'expo-sharing';
 import { useState } from 'react';
-import { Alert, Platform, StyleSheet, Text, View, DevSettings } from 'react-native';
+import { Alert, Platform, ScrollView, StyleSheet, Text, View, DevSettings } from 'react-native';
 
 const P = { bg: '#0b0b0c', txt: '#fff', dim: '#8b949e' };
 
@@ -135,6 +138,9 @@ async function eraseAllLocalData() {
  * 
  * Provides functionality to:
  * - Toggle between local and UTC timezone display
+ * - Edit the event catalogue used by every event picker
+ * - Set the venue time zone used to read the SAE "Last Data Update"
+ * - Browse and export the raw leaderboard archive
  * - Export all AsyncStorage data to a JSON file
  * - Erase all locally stored application data with confirmation
  * 
@@ -198,24 +204,50 @@ export default function SettingsTab() {
         <View style={{ flex: 1, backgroundColor: P.bg, padding: 12 }}>
             <AppHeader />
 
-            <Card>
-                <Text style={styles.h2}>Settings</Text>
+            <ScrollView contentContainerStyle={{ gap: 12, paddingBottom: 24 }}>
+                <Card>
+                    <Text style={styles.h2}>Settings</Text>
 
-                <Text style={{ color: P.txt, marginBottom: 8 }}>Timezone display</Text>
-                <View style={{ flexDirection: 'row', gap: 8, marginBottom: 12 }}>
-                    <PrimaryButton title={`Local${tz === 'local' ? ' ✓' : ''}`} onPress={() => setTz('local')} />
-                    <PrimaryButton title={`UTC${tz === 'utc' ? ' ✓' : ''}`} onPress={() => setTz('utc')} />
-                </View>
+                    <Text style={{ color: P.txt, marginBottom: 8 }}>Timezone display</Text>
+                    <View style={{ flexDirection: 'row', gap: 8, marginBottom: 12 }}>
+                        <PrimaryButton title={`Local${tz === 'local' ? ' ✓' : ''}`} onPress={() => setTz('local')} />
+                        <PrimaryButton title={`UTC${tz === 'utc' ? ' ✓' : ''}`} onPress={() => setTz('utc')} />
+                    </View>
 
-                <Text style={styles.hint}>Export/erase local app data stored on this device.</Text>
+                    <Text style={styles.hint}>Export/erase local app data stored on this device.</Text>
 
-                <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
-                    <PrimaryButton title="Export Endurance Data" onPress={onExportAll} />
-                    <PrimaryButton title="Erase All Data" danger onPress={onEraseAll} />
-                </View>
+                    <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+                        <PrimaryButton title="Export Endurance Data" onPress={onExportAll} />
+                        <PrimaryButton title="Erase All Data" danger onPress={onEraseAll} />
+                    </View>
 
-                {!!status && <Text style={styles.status}>{status}</Text>}
-            </Card>
+                    {!!status && <Text style={styles.status}>{status}</Text>}
+                </Card>
+
+                <Card>
+                    <Text style={styles.h2}>Events</Text>
+                    <Text style={[styles.hint, { marginTop: 0 }]}>
+                        Events offered in the Dynamic Day and pit log pickers. Add new events (and their SAE leaderboard code) here.
+                    </Text>
+                    <EventCatalogEditor />
+                </Card>
+
+                <Card>
+                    <Text style={styles.h2}>Competition</Text>
+                    <Text style={[styles.hint, { marginTop: 0 }]}>
+                        The venue&apos;s time zone. SAE &quot;Last Data Update&quot; times are read in this zone, so a phone still on home time sees fresh results.
+                    </Text>
+                    <VenueTimeZoneEditor />
+                </Card>
+
+                <Card>
+                    <Text style={styles.h2}>Leaderboard Archive</Text>
+                    <Text style={[styles.hint, { marginTop: 0 }]}>
+                        Keeps every distinct SAE leaderboard page the Dynamic tab fetches, so results can be re-parsed later. The export replays in the Dynamic tab.
+                    </Text>
+                    <LeaderboardArchiveBrowser />
+                </Card>
+            </ScrollView>
         </View>
     );
 }
@@ -1,5 +1,8 @@
 import { Stack, Redirect } from 'expo-router';
 import { OnlineProvider } from '@/offline/OnlineProvider';
+import { EventCatalogProvider } from '@/catalog/EventCatalogProvider';
+import { CompetitionProvider } from '@/catalog/CompetitionProvider';
+import { LeaderboardArchiveProvider } from '@/catalog/LeaderboardArchiveProvider';
 import { useEffect } from 'react';
 import { Platform } from 'react-native';
 import { registerServiceWorker } from '@/web/register-sw';
@@ -7,8 +10,9 @@ import { registerServiceWorker } from '@/web/register-sw';
 /**
  * Root layout component that serves as the main wrapper for the application.
  * 
- * Registers a service worker on web platforms and provides online status context
- * to all child routes through the OnlineProvider.
+ * Registers a service worker on web platforms and provides online status, the event catalogue,
+ * the competition settings and the leaderboard archive to all child routes through the
+ * OnlineProvider, EventCatalogProvider, CompetitionProvider and LeaderboardArchiveProvider.
  * 
  * @returns {JSX.Element} The root layout structure with navigation stack and context providers
  */
@@ -21,9 +25,15 @@ export default function RootLayout() {
 
   return (
     <OnlineProvider>
-      <Stack screenOptions={{ headerShown: false }}> 
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-      </Stack>
+      <EventCatalogProvider>
+        <CompetitionProvider>
+          <LeaderboardArchiveProvider>
+            <Stack screenOptions={{ headerShown: false }}> 
+              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            </Stack>
+          </LeaderboardArchiveProvider>
+        </CompetitionProvider>
+      </EventCatalogProvider>
     </OnlineProvider>
   );
 }
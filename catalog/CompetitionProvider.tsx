@@ -0,0 +1,57 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { STORAGE_KEYS, loadValue, saveValue } from '@/lib/persistence';
+
+/** Settings that apply to the whole competition rather than one event. */
+export type CompetitionSettings = {
+    /** IANA zone the venue (and its results site) runs on; blank means the device's zone. */
+    venueTimeZone: string;
+};
+
+export const DEFAULT_COMPETITION_SETTINGS: CompetitionSettings = { venueTimeZone: '' };
+
+type CompetitionContextValue = {
+    competition: CompetitionSettings;
+    setCompetition: (next: CompetitionSettings) => void;
+};
+const CompetitionContext = createContext<CompetitionContextValue>({
+    competition: DEFAULT_COMPETITION_SETTINGS,
+    setCompetition: () => { },
+});
+
+/**
+ * Provides the competition settings (such as the venue time zone) to its child components via context.
+ *
+ * Loads the settings from AsyncStorage on mount and saves every change.
+ *
+ * @param props - The provider props
+ * @param props.children - Child components that will have access to the settings
+ * @returns A context provider component that wraps children with the competition settings
+ */
+export function CompetitionProvider({ children }: { children: React.ReactNode }) {
+    const [competition, setCompetitionState] = useState<CompetitionSettings>(DEFAULT_COMPETITION_SETTINGS);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadValue<Partial<CompetitionSettings>>(STORAGE_KEYS.competition, {}).then((saved) => {
+            if (!cancelled) setCompetitionState({ ...DEFAULT_COMPETITION_SETTINGS, ...saved });
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    function setCompetition(next: CompetitionSettings) {
+        setCompetitionState(next);
+        saveValue(STORAGE_KEYS.competition, next);
+    }
+
+    return (
+        <CompetitionContext.Provider value={{ competition, setCompetition }}>
+            {children}
+        </CompetitionContext.Provider>
+    );
+}
+
+export function useCompetition() {
+    return useContext(CompetitionContext);
+}
@@ -0,0 +1,48 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { DEFAULT_EVENT_CATALOG, normalizeCatalog, type EventDef } from '@/lib/eventCatalog';
+import { STORAGE_KEYS, loadValue, saveValue } from '@/lib/persistence';
+
+type EventCatalogContextValue = { catalog: EventDef[]; setCatalog: (next: EventDef[]) => void };
+const EventCatalogContext = createContext<EventCatalogContextValue>({
+    catalog: DEFAULT_EVENT_CATALOG,
+    setCatalog: () => { },
+});
+
+/**
+ * Provides the editable event catalogue to its child components via context.
+ *
+ * Loads the catalogue from AsyncStorage on mount (falling back to the built-in list) and saves
+ * every change, so events added in Settings show up in every picker without a new build.
+ *
+ * @param props - The provider props
+ * @param props.children - Child components that will have access to the catalogue
+ * @returns A context provider component that wraps children with the event catalogue
+ */
+export function EventCatalogProvider({ children }: { children: React.ReactNode }) {
+    const [catalog, setCatalogState] = useState<EventDef[]>(DEFAULT_EVENT_CATALOG);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadValue<unknown>(STORAGE_KEYS.eventCatalog, null).then((raw) => {
+            if (!cancelled && raw != null) setCatalogState(normalizeCatalog(raw));
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    function setCatalog(next: EventDef[]) {
+        setCatalogState(next);
+        saveValue(STORAGE_KEYS.eventCatalog, next);
+    }
+
+    return (
+        <EventCatalogContext.Provider value={{ catalog, setCatalog }}>
+            {children}
+        </EventCatalogContext.Provider>
+    );
+}
+
+export function useEventCatalog() {
+    return useContext(EventCatalogContext);
+}
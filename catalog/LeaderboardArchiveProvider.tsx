@@ -0,0 +1,88 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import {
+    DEFAULT_ARCHIVE_SETTINGS,
+    appendCapture,
+    pruneArchive,
+    type ArchiveSettings,
+    type ArchivedCapture,
+} from '@/lib/leaderboardArchive';
+import { STORAGE_KEYS, loadArray, loadValue, saveArray, saveValue } from '@/lib/persistence';
+
+type LeaderboardArchiveContextValue = {
+    settings: ArchiveSettings;
+    setSettings: (next: ArchiveSettings) => void;
+    /** Archived pages, oldest first. */
+    entries: ArchivedCapture[];
+    /** Adds a page if archiving is on; repeats of an event's last page are skipped. */
+    archive: (capture: ArchivedCapture) => void;
+    clear: () => void;
+};
+const LeaderboardArchiveContext = createContext<LeaderboardArchiveContextValue>({
+    settings: DEFAULT_ARCHIVE_SETTINGS,
+    setSettings: () => { },
+    entries: [],
+    archive: () => { },
+    clear: () => { },
+});
+
+/**
+ * Provides the raw leaderboard archive to its child components via context: the Dynamic tab adds
+ * pages as it polls and Settings browses and exports them.
+ *
+ * Loads the archive and its settings from AsyncStorage on mount and saves every change.
+ *
+ * @param props - The provider props
+ * @param props.children - Child components that will have access to the archive
+ * @returns A context provider component that wraps children with the archive
+ */
+export function LeaderboardArchiveProvider({ children }: { children: React.ReactNode }) {
+    const [settings, setSettingsState] = useState<ArchiveSettings>(DEFAULT_ARCHIVE_SETTINGS);
+    const [entries, setEntries] = useState<ArchivedCapture[]>([]);
+    const [hydrated, setHydrated] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            const [saved, savedEntries] = await Promise.all([
+                loadValue<Partial<ArchiveSettings>>(STORAGE_KEYS.archiveSettings, {}),
+                loadArray<ArchivedCapture>(STORAGE_KEYS.leaderboardArchive),
+            ]);
+            if (cancelled) return;
+            const merged = { ...DEFAULT_ARCHIVE_SETTINGS, ...saved };
+            setSettingsState(merged);
+            // Keep anything archived while loading
+            setEntries((prev) => pruneArchive([...savedEntries, ...prev], merged.maxMb));
+            setHydrated(true);
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    useEffect(() => {
+        if (hydrated) saveArray(STORAGE_KEYS.leaderboardArchive, entries);
+    }, [entries, hydrated]);
+
+    function setSettings(next: ArchiveSettings) {
+        setSettingsState(next);
+        saveValue(STORAGE_KEYS.archiveSettings, next);
+        setEntries((prev) => pruneArchive(prev, next.maxMb));
+    }
+
+    function archive(capture: ArchivedCapture) {
+        if (!settings.enabled) return;
+        setEntries((prev) => appendCapture(prev, capture, settings.maxMb));
+    }
+
+    return (
+        <LeaderboardArchiveContext.Provider
+            value={{ settings, setSettings, entries, archive, clear: () => setEntries([]) }}
+        >
+            {children}
+        </LeaderboardArchiveContext.Provider>
+    );
+}
+
+export function useLeaderboardArchive() {
+    return useContext(LeaderboardArchiveContext);
+}
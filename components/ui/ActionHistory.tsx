@@ -0,0 +1,91 @@
+import PrimaryButton from '@/components/ui/PrimaryButton';
+import { describeAction, undoRedoState, type ActionEntry } from '@/lib/actionLog';
+import { useMemo } from 'react';
+import { FlatList, Modal, StyleSheet, Text, View } from 'react-native';
+
+const P = { bg: '#0b0b0c', txt: '#fff', dim: '#8b949e', border: '#30363d', listBg: '#11161d' };
+
+type Props = {
+    visible: boolean;
+    log: ActionEntry[];
+    onClose: () => void;
+    onUndo: () => void;
+    onRedo: () => void;
+};
+
+/**
+ * Full-screen history of Dynamic Day actions, newest first, with undo and redo.
+ *
+ * Undone actions stay in the list (struck through) because the log is append-only; the undo and
+ * redo entries themselves are listed too, so every change can be traced.
+ *
+ * @component
+ * @param {Props} props - The component props
+ * @param {boolean} props.visible - Whether the history screen is shown
+ * @param {ActionEntry[]} props.log - The action log, oldest first
+ * @param {() => void} props.onClose - Called when the screen is closed
+ * @param {() => void} props.onUndo - Reverses the latest applied action
+ * @param {() => void} props.onRedo - Replays the latest undone action
+ * @returns {JSX.Element} A modal listing the action log
+ */
+export default function ActionHistory({ visible, log, onClose, onUndo, onRedo }: Props) {
+    const { undoable, redoable, undoneIds } = useMemo(() => undoRedoState(log), [log]);
+    const rows = useMemo(() => [...log].reverse(), [log]);
+
+    return (
+        <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+            <View style={styles.screen}>
+                <Text style={styles.title}>History</Text>
+                <Text style={styles.hint}>
+                    {undoable ? `Undo reverses: ${describeAction(undoable, log)} (${undoable.eventName})` : 'Nothing to undo.'}
+                    {redoable ? `\nRedo replays: ${describeAction(redoable, log)} (${redoable.eventName})` : ''}
+                </Text>
+
+                <View style={styles.buttons}>
+                    <PrimaryButton title="Undo" onPress={undoable ? onUndo : undefined} style={undoable ? undefined : styles.disabled} />
+                    <PrimaryButton title="Redo" onPress={redoable ? onRedo : undefined} style={redoable ? undefined : styles.disabled} />
+                    <PrimaryButton title="Close" onPress={onClose} />
+                </View>
+
+                <FlatList
+                    data={rows}
+                    keyExtractor={(item) => item.id}
+                    ListEmptyComponent={<Text style={styles.hint}>No actions yet.</Text>}
+                    renderItem={({ item }) => {
+                        const undone = undoneIds.has(item.id);
+                        return (
+                            <View style={styles.row}>
+                                <Text style={styles.time}>
+                                    {new Date(item.ts).toLocaleTimeString()} · {item.eventName || '—'}
+                                </Text>
+                                <Text style={[styles.text, undone && styles.undone]}>
+                                    {describeAction(item, log)}
+                                    {undone ? ' (undone)' : ''}
+                                </Text>
+                            </View>
+                        );
+                    }}
+                />
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    screen: { flex: 1, backgroundColor: P.bg, padding: 16, paddingTop: 48 },
+    title: { color: P.txt, fontSize: 18, fontWeight: '800', marginBottom: 6 },
+    hint: { color: P.dim, fontSize: 13, marginBottom: 12 },
+    buttons: { flexDirection: 'row', gap: 8, marginBottom: 12 },
+    disabled: { opacity: 0.4 },
+    row: {
+        backgroundColor: P.listBg,
+        borderColor: P.border,
+        borderWidth: 1,
+        borderRadius: 10,
+        padding: 10,
+        marginBottom: 8,
+    },
+    time: { color: P.dim, fontSize: 12, marginBottom: 2 },
+    text: { color: P.txt, fontSize: 14 },
+    undone: { color: P.dim, textDecorationLine: 'line-through' },
+});
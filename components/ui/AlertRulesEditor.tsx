@@ -0,0 +1,155 @@
+import PrimaryButton from '@/components/ui/PrimaryButton';
+import {
+    ALERT_RULE_KINDS,
+    createAlertRule,
+    describeAlertRule,
+    type AlertRule,
+    type AlertRuleKind,
+    type FiredAlert,
+} from '@/lib/alerts';
+import { useState } from 'react';
+import { Alert, Pressable, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+
+const P = { txt: '#fff', dim: '#8b949e', border: '#30363d', inputBg: '#161b22', accent: '#238636', danger: '#f85149' };
+
+const KIND_LABEL: Record<AlertRuleKind, string> = {
+    lineBelow: 'Line below',
+    etaUnder: 'ETA under (min)',
+    rateZero: 'No runs for (min)',
+};
+
+/** Fired alerts listed under the rules. */
+const RECENT_ALERTS = 5;
+
+type Props = {
+    eventName: string;
+    rules: AlertRule[];
+    log: FiredAlert[];
+    onChange: (rules: AlertRule[]) => void;
+};
+
+/**
+ * Editor for the selected event's alert rules, with the most recent alerts they fired.
+ *
+ * @component
+ * @param {Props} props - The component props
+ * @param {string} props.eventName - The event whose rules are shown; new rules are added to it
+ * @param {AlertRule[]} props.rules - All alert rules (every event)
+ * @param {FiredAlert[]} props.log - Fired alerts, newest first
+ * @param {(rules: AlertRule[]) => void} props.onChange - Called with the full updated rule list
+ * @returns {JSX.Element} The rule list, an add form and the recent alerts
+ */
+export default function AlertRulesEditor({ eventName, rules, log, onChange }: Props) {
+    const [kind, setKind] = useState<AlertRuleKind>('lineBelow');
+    const [threshold, setThreshold] = useState('');
+
+    const eventRules = rules.filter((r) => r.eventName === eventName);
+    const recent = log.filter((a) => a.eventName === eventName).slice(0, RECENT_ALERTS);
+
+    function add() {
+        const rule = createAlertRule(eventName, kind, Number(threshold), new Date().toISOString());
+        if (!rule) {
+            Alert.alert('Check alert', 'Enter a threshold greater than zero.');
+            return;
+        }
+        onChange([...rules, rule]);
+        setThreshold('');
+    }
+
+    function setEnabled(id: string, enabled: boolean) {
+        onChange(rules.map((r) => (r.id === id ? { ...r, enabled, fired: false } : r)));
+    }
+
+    function remove(id: string) {
+        onChange(rules.filter((r) => r.id !== id));
+    }
+
+    return (
+        <View>
+            {eventRules.length === 0 && <Text style={styles.meta}>No alerts for this event.</Text>}
+            {eventRules.map((r) => (
+                <View key={r.id} style={styles.row}>
+                    <Text style={[styles.name, !r.enabled && { color: P.dim }]}>{describeAlertRule(r)}</Text>
+                    <Pressable onPress={() => remove(r.id)} hitSlop={8} accessibilityRole="button" accessibilityLabel={`Remove ${describeAlertRule(r)}`}>
+                        <Text style={styles.remove}>Remove</Text>
+                    </Pressable>
+                    <Switch
+                        value={r.enabled}
+                        onValueChange={(v) => setEnabled(r.id, v)}
+                        accessibilityLabel={`${describeAlertRule(r)} enabled`}
+                    />
+                </View>
+            ))}
+
+            <View style={styles.chipRow}>
+                {ALERT_RULE_KINDS.map((k) => {
+                    const selected = kind === k;
+                    return (
+                        <Pressable
+                            key={k}
+                            onPress={() => setKind(k)}
+                            style={[styles.chip, selected && styles.chipActive]}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected }}
+                        >
+                            <Text style={styles.chipText}>{KIND_LABEL[k]}</Text>
+                        </Pressable>
+                    );
+                })}
+            </View>
+            <View style={styles.addRow}>
+                <TextInput
+                    value={threshold}
+                    onChangeText={setThreshold}
+                    placeholder={kind === 'lineBelow' ? 'Cars, e.g., 5' : 'Minutes, e.g., 10'}
+                    placeholderTextColor={P.dim}
+                    keyboardType="numeric"
+                    style={styles.input}
+                    accessibilityLabel="Alert threshold"
+                />
+                <PrimaryButton title="Add Alert" onPress={add} />
+            </View>
+
+            {recent.length > 0 && (
+                <View style={{ marginTop: 10 }}>
+                    <Text style={styles.meta}>Recent alerts</Text>
+                    {recent.map((a) => (
+                        <Text key={`${a.ruleId}-${a.ts}`} style={styles.logLine}>
+                            {new Date(a.ts).toLocaleTimeString()} · {a.message}
+                        </Text>
+                    ))}
+                </View>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 8,
+        borderBottomWidth: 1,
+        borderBottomColor: P.border,
+    },
+    name: { flex: 1, color: P.txt, fontSize: 15, fontWeight: '600' },
+    meta: { color: P.dim, fontSize: 12, marginBottom: 4 },
+    remove: { color: P.danger, fontWeight: '600' },
+    chipRow: { flexDirection: 'row', gap: 8, flexWrap: 'wrap', marginTop: 10 },
+    chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, borderColor: P.border },
+    chipActive: { backgroundColor: P.accent, borderColor: P.accent },
+    chipText: { color: P.txt, fontSize: 13 },
+    addRow: { flexDirection: 'row', gap: 8, alignItems: 'center', marginTop: 8 },
+    input: {
+        flex: 1,
+        backgroundColor: P.inputBg,
+        color: P.txt,
+        borderColor: P.border,
+        borderWidth: 1,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+    },
+    logLine: { color: P.txt, fontSize: 13, marginTop: 2 },
+});
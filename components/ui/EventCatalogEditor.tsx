@@ -0,0 +1,187 @@
+import { useEventCatalog } from '@/catalog/EventCatalogProvider';
+import PrimaryButton from '@/components/ui/PrimaryButton';
+import {
+    DEFAULT_EVENT_CATALOG,
+    EVENT_TYPES,
+    upsertEventDef,
+    validateEventDef,
+    type EventDef,
+} from '@/lib/eventCatalog';
+import { useState } from 'react';
+import { Alert, Platform, Pressable, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+
+const P = { txt: '#fff', dim: '#8b949e', border: '#30363d', inputBg: '#161b22', accent: '#238636' };
+
+const TYPE_LABEL: Record<EventDef['type'], string> = {
+    timed: 'Timed',
+    'queue-only': 'Queue only',
+    endurance: 'Endurance',
+};
+
+/** Form state for adding (`originalName` undefined) or editing an event. */
+type Draft = { originalName?: string; name: string; saeCode: string; type: EventDef['type']; enabled: boolean };
+
+/**
+ * Settings editor for the event catalogue: enable/disable, add, edit and remove events.
+ *
+ * Changes are saved through {@link useEventCatalog} and show up in every event picker immediately.
+ * Removing an event only takes it out of the pickers; data already recorded for it is kept.
+ *
+ * @component
+ * @returns {JSX.Element} The list of catalogue events with an add/edit form
+ */
+export default function EventCatalogEditor() {
+    const { catalog, setCatalog } = useEventCatalog();
+    const [draft, setDraft] = useState<Draft | null>(null);
+
+    function startEdit(def?: EventDef) {
+        setDraft(
+            def
+                ? { originalName: def.name, name: def.name, saeCode: def.saeCode ?? '', type: def.type, enabled: def.enabled }
+                : { name: '', saeCode: '', type: 'timed', enabled: true }
+        );
+    }
+
+    function saveDraft() {
+        if (!draft) return;
+        const def: EventDef = { name: draft.name, saeCode: draft.saeCode || null, type: draft.type, enabled: draft.enabled };
+        const error = validateEventDef(def, catalog, draft.originalName);
+        if (error) {
+            Alert.alert('Check event', error);
+            return;
+        }
+        setCatalog(upsertEventDef(catalog, def, draft.originalName));
+        setDraft(null);
+    }
+
+    function toggleEnabled(name: string, enabled: boolean) {
+        setCatalog(catalog.map((e) => (e.name === name ? { ...e, enabled } : e)));
+    }
+
+    function remove(name: string) {
+        setCatalog(catalog.filter((e) => e.name !== name));
+        if (draft?.originalName === name) setDraft(null);
+    }
+
+    function restoreDefaults() {
+        const msg = 'Replace the event list with the built-in events? Recorded data is kept.';
+        const reset = () => {
+            setCatalog(DEFAULT_EVENT_CATALOG);
+            setDraft(null);
+        };
+
+        if (Platform.OS === 'web') {
+            if (confirm(msg)) reset();
+            return;
+        }
+
+        Alert.alert('Restore default events?', msg, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Restore', style: 'destructive', onPress: reset },
+        ]);
+    }
+
+    return (
+        <View>
+            {catalog.map((e) => (
+                <View key={e.name} style={styles.row}>
+                    <View style={{ flex: 1 }}>
+                        <Text style={[styles.name, !e.enabled && { color: P.dim }]}>{e.name}</Text>
+                        <Text style={styles.meta}>
+                            {TYPE_LABEL[e.type]} · {e.saeCode ? `SAE ${e.saeCode}` : 'no SAE leaderboard'}
+                        </Text>
+                    </View>
+                    <Pressable onPress={() => startEdit(e)} hitSlop={8} accessibilityRole="button" accessibilityLabel={`Edit ${e.name}`}>
+                        <Text style={styles.link}>Edit</Text>
+                    </Pressable>
+                    <Switch
+                        value={e.enabled}
+                        onValueChange={(v) => toggleEnabled(e.name, v)}
+                        accessibilityLabel={`${e.name} enabled`}
+                    />
+                </View>
+            ))}
+
+            {draft ? (
+                <View style={styles.form}>
+                    <Text style={styles.formTitle}>{draft.originalName ? `Edit ${draft.originalName}` : 'New event'}</Text>
+                    <TextInput
+                        value={draft.name}
+                        onChangeText={(name) => setDraft({ ...draft, name })}
+                        placeholder="Display name, e.g., Hill Climb"
+                        placeholderTextColor={P.dim}
+                        style={styles.input}
+                        accessibilityLabel="Event name"
+                    />
+                    <TextInput
+                        value={draft.saeCode}
+                        onChangeText={(saeCode) => setDraft({ ...draft, saeCode })}
+                        placeholder="SAE leaderboard code (optional), e.g., HILL"
+                        placeholderTextColor={P.dim}
+                        style={styles.input}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                        accessibilityLabel="SAE code"
+                    />
+                    <View style={styles.chipRow}>
+                        {EVENT_TYPES.map((type) => {
+                            const selected = draft.type === type;
+                            return (
+                                <Pressable
+                                    key={type}
+                                    onPress={() => setDraft({ ...draft, type })}
+                                    style={[styles.chip, selected && styles.chipActive]}
+                                    accessibilityRole="button"
+                                    accessibilityState={{ selected }}
+                                >
+                                    <Text style={styles.chipText}>{TYPE_LABEL[type]}</Text>
+                                </Pressable>
+                            );
+                        })}
+                    </View>
+                    <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+                        <PrimaryButton title="Save Event" onPress={saveDraft} />
+                        <PrimaryButton title="Cancel" onPress={() => setDraft(null)} />
+                        {!!draft.originalName && (
+                            <PrimaryButton title="Remove" danger onPress={() => remove(draft.originalName!)} />
+                        )}
+                    </View>
+                </View>
+            ) : (
+                <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap', marginTop: 8 }}>
+                    <PrimaryButton title="Add Event" onPress={() => startEdit()} />
+                    <PrimaryButton title="Restore Defaults" onPress={restoreDefaults} />
+                </View>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 8,
+        borderBottomWidth: 1,
+        borderBottomColor: P.border,
+    },
+    name: { color: P.txt, fontSize: 15, fontWeight: '600' },
+    meta: { color: P.dim, fontSize: 12, marginTop: 2 },
+    link: { color: P.accent, fontWeight: '600' },
+    form: { marginTop: 12, gap: 8 },
+    formTitle: { color: P.txt, fontWeight: '700' },
+    input: {
+        backgroundColor: P.inputBg,
+        color: P.txt,
+        borderColor: P.border,
+        borderWidth: 1,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+    },
+    chipRow: { flexDirection: 'row', gap: 8, flexWrap: 'wrap' },
+    chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, borderColor: P.border },
+    chipActive: { backgroundColor: P.accent, borderColor: P.accent },
+    chipText: { color: P.txt, fontSize: 13 },
+});
@@ -1,3 +1,5 @@
+import { useEventCatalog } from '@/catalog/EventCatalogProvider';
+import { enabledEvents, type EventType } from '@/lib/eventCatalog';
 import { Picker } from '@react-native-picker/picker';
 import React from 'react';
 import { StyleSheet, Text, View } from 'react-native';
@@ -6,12 +8,11 @@ type Props = {
     value: string;
     onChange: (val: string) => void;
     label?: string;
+    types?: EventType[];
 };
 
-const OPTIONS = ['Acceleration', 'Stability', 'Suspension'];
-
 /**
- * A dropdown selector component for choosing an event.
+ * A dropdown selector component for choosing an event from the enabled events in the catalogue.
  * 
  * @component
  * @example
@@ -22,16 +23,20 @@ const OPTIONS = ['Acceleration', 'Stability', 'Suspension'];
  * @param {string} props.value - The currently selected event value
  * @param {(value: string) => void} props.onChange - Callback fired when the selected event changes
  * @param {string} [props.label='Event name'] - The label displayed above the dropdown. Defaults to 'Event name'
+ * @param {EventType[]} [props.types] - Only offer events of these types. Defaults to all types
  * @returns {React.ReactElement} A picker component wrapped in a labeled container
  */
-export default function EventSelector({ value, onChange, label = 'Event name' }: Props) {
+export default function EventSelector({ value, onChange, label = 'Event name', types }: Props) {
+    const { catalog } = useEventCatalog();
+    const options = enabledEvents(catalog, types).map((e) => e.name);
+
     return (
         <View style={styles.container}>
             <Text style={styles.label}>{label}</Text>
             <View style={styles.pickerWrapper}>
                 <Picker selectedValue={value} onValueChange={onChange} mode="dropdown">
                     <Picker.Item label="Select event…" value="" />
-                    {OPTIONS.map(opt => (
+                    {options.map(opt => (
                         <Picker.Item key={opt} label={opt} value={opt} />
                     ))}
                 </Picker>
@@ -0,0 +1,217 @@
+import { useLeaderboardArchive } from '@/catalog/LeaderboardArchiveProvider';
+import PrimaryButton from '@/components/ui/PrimaryButton';
+import { parseLeaderboardRows } from '@/lib/leaderboard';
+import {
+    ARCHIVE_SIZE_OPTIONS_MB,
+    buildArchiveBundle,
+    captureBytes,
+    describeBytes,
+    summarizeArchive,
+} from '@/lib/leaderboardArchive';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { useMemo, useState } from 'react';
+import { Alert, Platform, Pressable, StyleSheet, Text, View } from 'react-native';
+
+const P = { txt: '#fff', dim: '#8b949e', border: '#30363d', listBg: '#11161d', accent: '#238636' };
+
+/** Captures listed per expanded event; the export always has all of them. */
+const MAX_LISTED = 50;
+
+/**
+ * Writes the archive bundle to a file and shares (native) or downloads (web) it.
+ * @param json - The bundle text
+ * @returns The file name
+ */
+async function exportBundle(json: string) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    // The export prefix lets "Erase All Data" clean these up too
+    const filename = `mobilescout-export-archive-${stamp}.json`;
+
+    if (Platform.OS === 'web') {
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filename;
+        a.click();
+        URL.revokeObjectURL(url);
+        return filename;
+    }
+
+    const baseDir = FileSystem.cacheDirectory ?? FileSystem.documentDirectory;
+    if (!baseDir) throw new Error('No writable directory available');
+    const fileUri = `${baseDir}${filename}`;
+    await FileSystem.writeAsStringAsync(fileUri, json, { encoding: FileSystem.EncodingType.UTF8 });
+
+    if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(fileUri, {
+            mimeType: 'application/json',
+            dialogTitle: 'Export leaderboard archive',
+            UTI: 'public.json',
+        });
+    } else {
+        Alert.alert('Export created', `Saved to:\n${fileUri}`);
+    }
+    return filename;
+}
+
+/**
+ * Settings browser for the raw leaderboard archive: turn it on, pick a size limit, look through
+ * the archived pages per event (re-parsed with the current parser) and export or clear them.
+ *
+ * @component
+ * @returns {JSX.Element} Archive settings, per-event page lists and export / clear buttons
+ */
+export default function LeaderboardArchiveBrowser() {
+    const { settings, setSettings, entries, clear } = useLeaderboardArchive();
+    const [openCode, setOpenCode] = useState<string | null>(null);
+    const [status, setStatus] = useState('');
+
+    const groups = useMemo(() => summarizeArchive(entries), [entries]);
+    const totalBytes = useMemo(() => entries.reduce((sum, e) => sum + captureBytes(e), 0), [entries]);
+
+    // Re-parse only the open event's pages, newest first
+    const openCaptures = useMemo(
+        () =>
+            openCode === null
+                ? []
+                : entries
+                    .filter((e) => e.eventCode === openCode)
+                    .slice(-MAX_LISTED)
+                    .reverse()
+                    .map((e) => ({ ...e, rows: parseLeaderboardRows(e.html).length })),
+        [entries, openCode]
+    );
+
+    async function onExport() {
+        if (entries.length === 0) {
+            Alert.alert('Nothing to export', 'The archive is empty.');
+            return;
+        }
+        try {
+            setStatus('Exporting...');
+            const filename = await exportBundle(buildArchiveBundle(entries, new Date().toISOString()));
+            setStatus(`Exported ${entries.length} pages to ${filename}`);
+        } catch (e: any) {
+            setStatus('');
+            Alert.alert('Export failed', e?.message ?? 'Unknown error');
+        }
+    }
+
+    function onClear() {
+        const msg = `Delete all ${entries.length} archived leaderboard pages? Export them first to keep them.`;
+        const doClear = () => {
+            clear();
+            setOpenCode(null);
+            setStatus('Archive cleared.');
+        };
+
+        if (Platform.OS === 'web') {
+            if (confirm(msg)) doClear();
+            return;
+        }
+
+        Alert.alert('Clear archive?', msg, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Clear', style: 'destructive', onPress: doClear },
+        ]);
+    }
+
+    return (
+        <View>
+            <View style={styles.chipRow}>
+                {[false, true].map((enabled) => {
+                    const selected = settings.enabled === enabled;
+                    return (
+                        <Pressable
+                            key={String(enabled)}
+                            onPress={() => setSettings({ ...settings, enabled })}
+                            style={[styles.chip, selected && styles.chipActive]}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected }}
+                            accessibilityLabel={enabled ? 'Archive leaderboard pages' : 'Stop archiving leaderboard pages'}
+                        >
+                            <Text style={styles.chipText}>{enabled ? 'Archive on' : 'Off'}</Text>
+                        </Pressable>
+                    );
+                })}
+            </View>
+
+            <Text style={styles.label}>Keep up to</Text>
+            <View style={styles.chipRow}>
+                {ARCHIVE_SIZE_OPTIONS_MB.map((mb) => {
+                    const selected = settings.maxMb === mb;
+                    return (
+                        <Pressable
+                            key={mb}
+                            onPress={() => setSettings({ ...settings, maxMb: mb })}
+                            style={[styles.chip, selected && styles.chipActive]}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected }}
+                            accessibilityLabel={`Keep up to ${mb} megabytes of pages`}
+                        >
+                            <Text style={styles.chipText}>{mb} MB</Text>
+                        </Pressable>
+                    );
+                })}
+            </View>
+
+            <Text style={styles.usage}>
+                {entries.length} page{entries.length === 1 ? '' : 's'}, {describeBytes(totalBytes)} of {settings.maxMb} MB.
+                The oldest pages are dropped to stay under the limit.
+            </Text>
+
+            {groups.map((g) => {
+                const open = openCode === g.eventCode;
+                return (
+                    <View key={g.eventCode} style={styles.group}>
+                        <Pressable
+                            onPress={() => setOpenCode(open ? null : g.eventCode)}
+                            accessibilityRole="button"
+                            accessibilityState={{ expanded: open }}
+                            accessibilityLabel={`Show archived pages for ${g.eventName}`}
+                        >
+                            <Text style={styles.groupTitle}>
+                                {open ? '▾' : '▸'} {g.eventName} ({g.eventCode})
+                            </Text>
+                            <Text style={styles.groupMeta}>
+                                {g.count} pages · {describeBytes(g.bytes)} · {new Date(g.firstAt).toLocaleString()} –{' '}
+                                {new Date(g.lastAt).toLocaleTimeString()}
+                            </Text>
+                        </Pressable>
+                        {open &&
+                            openCaptures.map((c) => (
+                                <Text key={c.capturedAt + c.hash} style={styles.capture}>
+                                    {new Date(c.capturedAt).toLocaleTimeString()} · {c.rows} rows ·{' '}
+                                    {c.lastUpdateRaw ? `Last Data Update ${c.lastUpdateRaw}` : 'no Last Data Update'}
+                                </Text>
+                            ))}
+                        {open && g.count > MAX_LISTED && (
+                            <Text style={styles.groupMeta}>Showing the newest {MAX_LISTED}; the export has all {g.count}.</Text>
+                        )}
+                    </View>
+                );
+            })}
+
+            <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap', marginTop: 12 }}>
+                <PrimaryButton title="Export Archive" onPress={onExport} />
+                <PrimaryButton title="Clear Archive" danger onPress={onClear} />
+            </View>
+            {!!status && <Text style={styles.usage}>{status}</Text>}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    label: { color: P.txt, marginTop: 12, marginBottom: 8 },
+    usage: { color: P.dim, fontSize: 13, marginTop: 10 },
+    chipRow: { flexDirection: 'row', gap: 8, flexWrap: 'wrap' },
+    chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, borderColor: P.border },
+    chipActive: { backgroundColor: P.accent, borderColor: P.accent },
+    chipText: { color: P.txt, fontSize: 13 },
+    group: { backgroundColor: P.listBg, borderRadius: 10, padding: 10, marginTop: 8, gap: 4 },
+    groupTitle: { color: P.txt, fontWeight: '600' },
+    groupMeta: { color: P.dim, fontSize: 12 },
+    capture: { color: P.txt, fontSize: 12 },
+});
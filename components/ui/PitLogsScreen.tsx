@@ -5,7 +5,7 @@ import EventSelector from '../ui/EventSelector';
 /**
  * Screen component for managing pit log entries in MobileScout.
  * 
- * Allows users to input a car number, select an event from a predefined list,
+ * Allows users to input a car number, select an event from the event catalogue,
  * and log pit in/out actions. The component maintains state for both the car number
  * and selected event name, and logs the action data when pit buttons are pressed.
  * 
@@ -21,7 +21,7 @@ export default function PitLogsScreen() {
     const [eventName, setEventName] = useState(''); // ← controlled by the dropdown
 
     const handlePitIn = () => {
-        // use eventName here; it will only be one of the three options (or "")
+        // use eventName here; it will only be one of the enabled catalogue events (or "")
         console.log({ carNumber, eventName, action: 'Pit In' });
     };
 
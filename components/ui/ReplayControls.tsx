@@ -0,0 +1,207 @@
+import PrimaryButton from '@/components/ui/PrimaryButton';
+import { REPLAY_SPEEDS, capturesFromFiles, parseReplayBundle, type ReplayCapture } from '@/lib/replay';
+import * as FileSystem from 'expo-file-system/legacy';
+import { useState } from 'react';
+import { Alert, Platform, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+const P = { txt: '#fff', dim: '#8b949e', border: '#30363d', inputBg: '#161b22', accent: '#238636' };
+
+/** Folder under the app's documents where capture bundles and folders of pages are looked for. */
+export const REPLAY_DIR = 'replays/';
+
+/** A replay in progress: captures played into one event from device time `startMs`. */
+export type ReplayState = { eventName: string; label: string; captures: ReplayCapture[]; speed: number; startMs: number };
+
+/**
+ * Reads captures from a bundle file or a folder of pages in {@link REPLAY_DIR}.
+ * @param entry - File or folder name inside the replay folder
+ * @returns The captures, oldest first
+ */
+async function loadDeviceReplay(entry: string): Promise<ReplayCapture[]> {
+    const uri = `${FileSystem.documentDirectory}${REPLAY_DIR}${entry}`;
+    const info = await FileSystem.getInfoAsync(uri);
+    const names = info.isDirectory ? await FileSystem.readDirectoryAsync(uri) : [entry];
+    const base = info.isDirectory ? `${uri}/` : `${FileSystem.documentDirectory}${REPLAY_DIR}`;
+    const files = await Promise.all(
+        names.map(async (name) => ({ name, content: await FileSystem.readAsStringAsync(`${base}${name}`) }))
+    );
+    return capturesFromFiles(files);
+}
+
+/**
+ * Loads recorded leaderboard captures and plays them into the selected event, so scouts can
+ * rehearse between events and field parsing bugs can be reproduced.
+ *
+ * @component
+ * @param props - Component props
+ * @param props.eventName - The selected event; replays play into it
+ * @param props.replay - The replay in progress, if any
+ * @param props.onStart - Called with the loaded captures, a label and the chosen speed
+ * @param props.onStop - Called to end the replay
+ * @returns {JSX.Element} Source pickers, speed chips and start / stop controls
+ */
+export default function ReplayControls({
+    eventName,
+    replay,
+    onStart,
+    onStop,
+}: {
+    eventName: string;
+    replay: ReplayState | null;
+    onStart: (captures: ReplayCapture[], label: string, speed: number) => void;
+    onStop: () => void;
+}) {
+    const [url, setUrl] = useState('');
+    const [speed, setSpeed] = useState(REPLAY_SPEEDS[0]);
+    const [loaded, setLoaded] = useState<{ label: string; captures: ReplayCapture[] } | null>(null);
+    const [deviceEntries, setDeviceEntries] = useState<string[] | null>(null);
+
+    function acceptCaptures(label: string, captures: ReplayCapture[]) {
+        if (captures.length === 0) {
+            Alert.alert('Nothing to replay', `${label} has no timestamped leaderboard captures.`);
+            return;
+        }
+        setLoaded({ label, captures });
+    }
+
+    async function loadUrl() {
+        const target = url.trim();
+        if (!target) return;
+        try {
+            const res = await fetch(target, { cache: 'no-store' as any });
+            if (!res.ok) throw new Error(`Download failed: ${res.status}`);
+            acceptCaptures(target.split('/').pop() || target, parseReplayBundle(await res.text()));
+        } catch (err: any) {
+            Alert.alert('Load failed', err?.message ?? 'Unknown error');
+        }
+    }
+
+    async function scanDevice() {
+        try {
+            const dir = `${FileSystem.documentDirectory}${REPLAY_DIR}`;
+            await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+            setDeviceEntries((await FileSystem.readDirectoryAsync(dir)).sort());
+        } catch (err: any) {
+            Alert.alert('Load failed', err?.message ?? 'Unknown error');
+        }
+    }
+
+    async function loadEntry(entry: string) {
+        try {
+            acceptCaptures(entry, await loadDeviceReplay(entry));
+        } catch (err: any) {
+            Alert.alert('Load failed', err?.message ?? 'Unknown error');
+        }
+    }
+
+    if (replay) {
+        return (
+            <View>
+                <Text style={styles.current}>
+                    Replaying {replay.label} into {replay.eventName} at {replay.speed}×
+                </Text>
+                <Text style={styles.helper}>{replay.captures.length} captures. Live SAE polling for this event is paused.</Text>
+                <PrimaryButton title="Stop Replay" danger onPress={onStop} style={{ width: '100%' }} />
+            </View>
+        );
+    }
+
+    return (
+        <View>
+            <View style={styles.inputRow}>
+                <TextInput
+                    value={url}
+                    onChangeText={setUrl}
+                    onSubmitEditing={loadUrl}
+                    placeholder="Capture bundle URL (.json)"
+                    placeholderTextColor={P.dim}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                    style={styles.input}
+                    accessibilityLabel="Replay bundle URL"
+                />
+                <PrimaryButton title="Load" onPress={loadUrl} />
+            </View>
+
+            {Platform.OS !== 'web' && (
+                <>
+                    <View style={{ height: 8 }} />
+                    <PrimaryButton title="Find Replays on Device" onPress={scanDevice} style={{ width: '100%' }} />
+                    {deviceEntries && (
+                        <View style={[styles.chipRow, { marginTop: 8 }]}>
+                            {deviceEntries.length === 0 ? (
+                                <Text style={styles.helper}>Put bundles or folders of pages in {REPLAY_DIR} in the app’s documents.</Text>
+                            ) : (
+                                deviceEntries.map((entry) => (
+                                    <Pressable
+                                        key={entry}
+                                        onPress={() => loadEntry(entry)}
+                                        style={[styles.chip, loaded?.label === entry && styles.chipActive]}
+                                        accessibilityRole="button"
+                                        accessibilityLabel={`Load replay ${entry}`}
+                                    >
+                                        <Text style={styles.chipText}>{entry}</Text>
+                                    </Pressable>
+                                ))
+                            )}
+                        </View>
+                    )}
+                </>
+            )}
+
+            {loaded && (
+                <>
+                    <Text style={[styles.helper, { marginTop: 8 }]}>
+                        {loaded.label}: {loaded.captures.length} captures,{' '}
+                        {new Date(loaded.captures[0].capturedAt).toLocaleString()} to{' '}
+                        {new Date(loaded.captures[loaded.captures.length - 1].capturedAt).toLocaleTimeString()}
+                    </Text>
+                    <View style={styles.chipRow}>
+                        {REPLAY_SPEEDS.map((n) => {
+                            const selected = speed === n;
+                            return (
+                                <Pressable
+                                    key={n}
+                                    onPress={() => setSpeed(n)}
+                                    style={[styles.chip, selected && styles.chipActive]}
+                                    accessibilityRole="button"
+                                    accessibilityState={{ selected }}
+                                    accessibilityLabel={`Replay at ${n} times speed`}
+                                >
+                                    <Text style={styles.chipText}>{n}×</Text>
+                                </Pressable>
+                            );
+                        })}
+                    </View>
+                    <View style={{ height: 8 }} />
+                    <PrimaryButton
+                        title={eventName ? `Replay into ${eventName}` : 'Select an event to replay into'}
+                        onPress={() => eventName && onStart(loaded.captures, loaded.label, speed)}
+                        style={{ width: '100%' }}
+                    />
+                </>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    current: { color: P.txt, fontWeight: '600', marginBottom: 4 },
+    helper: { color: P.dim, fontSize: 12, marginBottom: 8 },
+    chipRow: { flexDirection: 'row', gap: 8, flexWrap: 'wrap' },
+    chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, borderColor: P.border },
+    chipActive: { backgroundColor: P.accent, borderColor: P.accent },
+    chipText: { color: P.txt, fontSize: 13 },
+    inputRow: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+    input: {
+        flex: 1,
+        backgroundColor: P.inputBg,
+        color: P.txt,
+        borderColor: P.border,
+        borderWidth: 1,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+    },
+});
@@ -0,0 +1,122 @@
+import PrimaryButton from '@/components/ui/PrimaryButton';
+import { describeResultsSource, type ResultsSourceConfig, type ResultsSourceKind } from '@/lib/resultsSources';
+import { useEffect, useState } from 'react';
+import { Platform, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+const P = { txt: '#fff', dim: '#8b949e', border: '#30363d', inputBg: '#161b22', accent: '#1f6feb' };
+
+const KINDS: { kind: ResultsSourceKind; label: string }[] = [
+    { kind: 'sae', label: 'SAE leaderboard' },
+    { kind: 'url', label: 'Results URL' },
+    { kind: 'file', label: 'Local file' },
+];
+
+/**
+ * Picks where one event's results come from: the SAE leaderboard, a CSV / JSON / HTML results URL
+ * (for regional or practice competitions) or a results file on the device.
+ *
+ * @component
+ * @param props - Component props
+ * @param props.value - The event's current source
+ * @param props.saeCode - The event's SAE code from the catalogue, if it has one
+ * @param props.onChange - Called with the new source once it's complete
+ * @returns {JSX.Element} Source chips and, for a URL or file, a field for its location
+ */
+export default function ResultsSourcePicker({
+    value,
+    saeCode,
+    onChange,
+}: {
+    value: ResultsSourceConfig;
+    saeCode: string | undefined;
+    onChange: (next: ResultsSourceConfig) => void;
+}) {
+    const [kind, setKind] = useState<ResultsSourceKind>(value.kind);
+    const [input, setInput] = useState(value.kind === 'url' ? value.url : value.kind === 'file' ? value.path : '');
+
+    useEffect(() => {
+        setKind(value.kind);
+        setInput(value.kind === 'url' ? value.url : value.kind === 'file' ? value.path : '');
+    }, [value]);
+
+    function choose(next: ResultsSourceKind) {
+        setKind(next);
+        if (next === 'sae' && value.kind !== 'sae') onChange({ kind: 'sae' });
+    }
+
+    function apply() {
+        const text = input.trim();
+        if (!text) return;
+        onChange(kind === 'url' ? { kind: 'url', url: text } : { kind: 'file', path: text });
+    }
+
+    return (
+        <View>
+            <View style={styles.chipRow}>
+                {KINDS.map((k) => {
+                    const selected = kind === k.kind;
+                    return (
+                        <Pressable
+                            key={k.kind}
+                            onPress={() => choose(k.kind)}
+                            style={[styles.chip, selected && styles.chipActive]}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected }}
+                            accessibilityLabel={`Get results from ${k.label}`}
+                        >
+                            <Text style={styles.chipText}>{k.label}</Text>
+                        </Pressable>
+                    );
+                })}
+            </View>
+
+            {kind !== 'sae' && (
+                <>
+                    <View style={styles.inputRow}>
+                        <TextInput
+                            value={input}
+                            onChangeText={setInput}
+                            onSubmitEditing={apply}
+                            placeholder={kind === 'url' ? 'https://…/results.csv' : 'results/practice.csv'}
+                            placeholderTextColor={P.dim}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            keyboardType={kind === 'url' ? 'url' : 'default'}
+                            style={styles.input}
+                            accessibilityLabel={kind === 'url' ? 'Results URL' : 'Results file path'}
+                        />
+                        <PrimaryButton title="Use" onPress={apply} />
+                    </View>
+                    <Text style={styles.helper}>
+                        CSV with a header row, JSON rows or an HTML table; needs a car column and a time or status column.
+                        {kind === 'file' &&
+                            (Platform.OS === 'web'
+                                ? ' On web the path is fetched from this site.'
+                                : ' Paths are inside the app’s documents.')}
+                    </Text>
+                </>
+            )}
+
+            <Text style={styles.helper}>Using: {describeResultsSource(value, saeCode)}</Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    chipRow: { flexDirection: 'row', gap: 8, flexWrap: 'wrap' },
+    chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, borderColor: P.border },
+    chipActive: { backgroundColor: P.accent, borderColor: P.accent },
+    chipText: { color: P.txt, fontSize: 13 },
+    inputRow: { flexDirection: 'row', gap: 8, alignItems: 'center', marginTop: 8 },
+    input: {
+        flex: 1,
+        backgroundColor: P.inputBg,
+        color: P.txt,
+        borderColor: P.border,
+        borderWidth: 1,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+    },
+    helper: { color: P.dim, fontSize: 12, marginTop: 6 },
+});
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { LayoutChangeEvent, StyleSheet, Text, View } from 'react-native';
+import { fmtClock, niceMax, type ChartMarker, type ChartPoint } from '@/lib/charts';
+
+type Props = {
+    title: string;
+    points: ChartPoint[];
+    startMs: number;
+    endMs: number;
+    formatValue: (v: number) => string;
+    color?: string;
+    markers?: ChartMarker[];
+    height?: number;
+};
+
+const palette = {
+    text: '#ffffff',
+    dim: '#c9d1d9',
+    border: '#30363d',
+    plotBg: '#11161d',
+    line: '#238636',
+};
+
+const DOT = 6;
+const STROKE = 2;
+
+/**
+ * A dependency-free time-series line chart drawn with plain Views, so it renders the same on native and web.
+ *
+ * @param {Props} props - The component props
+ * @param {string} props.title - Chart heading
+ * @param {ChartPoint[]} props.points - Values sorted by time; null values break the line
+ * @param {number} props.startMs - Left edge of the time axis
+ * @param {number} props.endMs - Right edge of the time axis
+ * @param {(v: number) => string} props.formatValue - Formats y-axis and latest-value labels
+ * @param {string} [props.color] - Line and dot colour
+ * @param {ChartMarker[]} [props.markers] - Vertical ticks drawn behind the line (e.g. SAE results)
+ * @param {number} [props.height=120] - Plot height in pixels
+ * @returns {React.ReactElement} The chart with its title, y-axis maximum and time labels
+ */
+export default function TimeSeriesChart({
+    title,
+    points,
+    startMs,
+    endMs,
+    formatValue,
+    color = palette.line,
+    markers = [],
+    height = 120,
+}: Props) {
+    const [width, setWidth] = useState(0);
+
+    const values = points.map((p) => p.v).filter((v): v is number => v != null);
+    const yMax = niceMax(values.length ? Math.max(...values) : 0);
+    const span = Math.max(1, endMs - startMs);
+    const latest = [...points].reverse().find((p) => p.v != null)?.v;
+
+    const xOf = (t: number) => ((t - startMs) / span) * width;
+    const yOf = (v: number) => height - (v / yMax) * height;
+
+    const plotted = width > 0 ? points.map((p) => (p.v == null ? null : { x: xOf(p.t), y: yOf(p.v) })) : [];
+
+    function onLayout(e: LayoutChangeEvent) {
+        setWidth(e.nativeEvent.layout.width);
+    }
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.header}>
+                <Text style={styles.title}>{title}</Text>
+                <Text style={styles.latest}>{latest != null ? formatValue(latest) : '–'}</Text>
+            </View>
+
+            <View style={styles.plotRow}>
+                <View style={[styles.yAxis, { height }]}>
+                    <Text style={styles.axisText}>{formatValue(yMax)}</Text>
+                    <Text style={styles.axisText}>0</Text>
+                </View>
+
+                <View style={[styles.plot, { height }]} onLayout={onLayout}>
+                    {width > 0 &&
+                        markers
+                            .filter((m) => m.t >= startMs && m.t <= endMs)
+                            .map((m, i) => (
+                                <View
+                                    key={`m${i}`}
+                                    style={[styles.marker, { left: xOf(m.t), height, backgroundColor: m.color }]}
+                                />
+                            ))}
+
+                    {plotted.map((p, i) => {
+                        const next = plotted[i + 1];
+                        if (!p || !next) return null;
+                        const dx = next.x - p.x;
+                        const dy = next.y - p.y;
+                        const len = Math.hypot(dx, dy);
+                        return (
+                            <View
+                                key={`s${i}`}
+                                style={[
+                                    styles.segment,
+                                    {
+                                        width: len,
+                                        left: (p.x + next.x) / 2 - len / 2,
+                                        top: (p.y + next.y) / 2 - STROKE / 2,
+                                        backgroundColor: color,
+                                        transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }],
+                                    },
+                                ]}
+                            />
+                        );
+                    })}
+
+                    {plotted.map((p, i) =>
+                        p ? (
+                            <View
+                                key={`d${i}`}
+                                style={[styles.dot, { left: p.x - DOT / 2, top: p.y - DOT / 2, backgroundColor: color }]}
+                            />
+                        ) : null
+                    )}
+                </View>
+            </View>
+
+            <View style={styles.xAxis}>
+                <Text style={styles.axisText}>{fmtClock(startMs)}</Text>
+                <Text style={styles.axisText}>{fmtClock(endMs)}</Text>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: { marginBottom: 14 },
+    header: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 6 },
+    title: { color: palette.dim, fontWeight: '700' },
+    latest: { color: palette.text, fontWeight: '900' },
+    plotRow: { flexDirection: 'row', gap: 6 },
+    yAxis: { justifyContent: 'space-between', alignItems: 'flex-end', minWidth: 28 },
+    plot: {
+        flex: 1,
+        borderWidth: 1,
+        borderColor: palette.border,
+        borderRadius: 8,
+        backgroundColor: palette.plotBg,
+        overflow: 'hidden',
+    },
+    marker: { position: 'absolute', top: 0, width: 1, opacity: 0.6 },
+    segment: { position: 'absolute', height: STROKE, borderRadius: STROKE / 2 },
+    dot: { position: 'absolute', width: DOT, height: DOT, borderRadius: DOT / 2 },
+    xAxis: { flexDirection: 'row', justifyContent: 'space-between', marginLeft: 34, marginTop: 4 },
+    axisText: { color: palette.dim, fontSize: 11 },
+});
@@ -0,0 +1,94 @@
+import { useCompetition } from '@/catalog/CompetitionProvider';
+import PrimaryButton from '@/components/ui/PrimaryButton';
+import { COMMON_VENUE_TIME_ZONES, deviceTimeZone, isValidTimeZone } from '@/lib/venueTime';
+import { useEffect, useState } from 'react';
+import { Alert, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+const P = { txt: '#fff', dim: '#8b949e', border: '#30363d', inputBg: '#161b22', accent: '#238636' };
+
+/**
+ * Settings editor for the venue time zone, used to read the results site's "Last Data Update".
+ *
+ * @component
+ * @returns {JSX.Element} The current zone, one-tap common zones and a field for any IANA zone name
+ */
+export default function VenueTimeZoneEditor() {
+    const { competition, setCompetition } = useCompetition();
+    const [input, setInput] = useState(competition.venueTimeZone);
+
+    useEffect(() => {
+        setInput(competition.venueTimeZone);
+    }, [competition.venueTimeZone]);
+
+    function choose(venueTimeZone: string) {
+        setCompetition({ ...competition, venueTimeZone });
+    }
+
+    function saveInput() {
+        const zone = input.trim();
+        if (zone && !isValidTimeZone(zone)) {
+            Alert.alert('Check time zone', `"${zone}" isn't a time zone this device knows. Use a name like America/Chicago.`);
+            return;
+        }
+        choose(zone);
+    }
+
+    const current = competition.venueTimeZone;
+
+    return (
+        <View>
+            <Text style={styles.current}>
+                {current ? `Venue: ${current}` : `Venue: same as this device (${deviceTimeZone() || 'unknown'})`}
+            </Text>
+            <View style={styles.chipRow}>
+                {['', ...COMMON_VENUE_TIME_ZONES].map((zone) => {
+                    const selected = zone === current;
+                    return (
+                        <Pressable
+                            key={zone || 'device'}
+                            onPress={() => choose(zone)}
+                            style={[styles.chip, selected && styles.chipActive]}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected }}
+                        >
+                            <Text style={styles.chipText}>{zone || 'Device'}</Text>
+                        </Pressable>
+                    );
+                })}
+            </View>
+            <View style={styles.inputRow}>
+                <TextInput
+                    value={input}
+                    onChangeText={setInput}
+                    onSubmitEditing={saveInput}
+                    placeholder="Other zone, e.g., Europe/Berlin"
+                    placeholderTextColor={P.dim}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    style={styles.input}
+                    accessibilityLabel="Venue time zone"
+                />
+                <PrimaryButton title="Set Zone" onPress={saveInput} />
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    current: { color: P.txt, fontWeight: '600', marginBottom: 8 },
+    chipRow: { flexDirection: 'row', gap: 8, flexWrap: 'wrap' },
+    chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, borderColor: P.border },
+    chipActive: { backgroundColor: P.accent, borderColor: P.accent },
+    chipText: { color: P.txt, fontSize: 13 },
+    inputRow: { flexDirection: 'row', gap: 8, alignItems: 'center', marginTop: 8 },
+    input: {
+        flex: 1,
+        backgroundColor: P.inputBg,
+        color: P.txt,
+        borderColor: P.border,
+        borderWidth: 1,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+    },
+});
@@ -0,0 +1,210 @@
+import PrimaryButton from '@/components/ui/PrimaryButton';
+import { parseCarList, summarizeWatchedCar, type WatchRecord, type Watchlist } from '@/lib/watchlist';
+import { useEffect, useMemo, useState } from 'react';
+import { FlatList, Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+const P = {
+    bg: '#0b0b0c',
+    txt: '#fff',
+    dim: '#8b949e',
+    border: '#30363d',
+    listBg: '#11161d',
+    inputBg: '#161b22',
+    accent: '#238636',
+    up: '#3fb950',
+    down: '#f85149',
+};
+
+type Props = {
+    visible: boolean;
+    eventNames: string[];
+    initialEvent: string;
+    watchlist: Watchlist;
+    history: WatchRecord[];
+    onChange: (watchlist: Watchlist) => void;
+    onClose: () => void;
+};
+
+function fmtRankChange(change: number | null) {
+    if (!change) return '';
+    return change > 0 ? ` ▲${change}` : ` ▼${-change}`;
+}
+
+function fmtVsOurCar(diff: number | null) {
+    if (diff === null) return null;
+    if (diff === 0) return 'Level with us';
+    return diff < 0 ? `${-diff} place${diff === -1 ? '' : 's'} ahead of us` : `${diff} place${diff === 1 ? '' : 's'} behind us`;
+}
+
+/**
+ * Full-screen competitor watchlist: the watched cars' best runs, rank history and standing
+ * relative to our car on one event.
+ *
+ * Standings are recorded on every leaderboard poll while the event is tracked in SAE mode, so the
+ * screen only has data for events that have been polled since a car was added.
+ *
+ * @component
+ * @param {Props} props - The component props
+ * @param {boolean} props.visible - Whether the screen is shown
+ * @param {string[]} props.eventNames - Tracked events to choose from
+ * @param {string} props.initialEvent - Event shown when the screen opens
+ * @param {Watchlist} props.watchlist - Watched cars and our car number
+ * @param {WatchRecord[]} props.history - Recorded standings, oldest first
+ * @param {(watchlist: Watchlist) => void} props.onChange - Called with the updated watchlist
+ * @param {() => void} props.onClose - Called when the screen is closed
+ * @returns {JSX.Element} A modal listing the watched cars
+ */
+export default function WatchlistScreen({ visible, eventNames, initialEvent, watchlist, history, onChange, onClose }: Props) {
+    const [eventName, setEventName] = useState(initialEvent);
+    const [carInput, setCarInput] = useState('');
+
+    useEffect(() => {
+        if (visible) setEventName(initialEvent || eventNames[0] || '');
+    }, [visible, initialEvent, eventNames]);
+
+    const summaries = useMemo(
+        () => watchlist.cars.map((carNo) => summarizeWatchedCar(history, eventName, carNo, watchlist.ourCarNo)),
+        [history, eventName, watchlist]
+    );
+
+    function addCars() {
+        const cars = parseCarList(carInput);
+        if (cars.length === 0) return;
+        onChange({ ...watchlist, cars: [...new Set([...watchlist.cars, ...cars])] });
+        setCarInput('');
+    }
+
+    function removeCar(carNo: string) {
+        onChange({ ...watchlist, cars: watchlist.cars.filter((c) => c !== carNo) });
+    }
+
+    return (
+        <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+            <View style={styles.screen}>
+                <Text style={styles.title}>Watchlist</Text>
+
+                <View style={styles.inputRow}>
+                    <TextInput
+                        value={watchlist.ourCarNo}
+                        onChangeText={(v) => onChange({ ...watchlist, ourCarNo: v.replace(/\D/g, '') })}
+                        placeholder="Our car #"
+                        placeholderTextColor={P.dim}
+                        keyboardType="number-pad"
+                        style={[styles.input, { flex: 0, width: 110 }]}
+                        accessibilityLabel="Our car number"
+                    />
+                    <TextInput
+                        value={carInput}
+                        onChangeText={setCarInput}
+                        onSubmitEditing={addCars}
+                        placeholder="Watch cars, e.g., 12, 42"
+                        placeholderTextColor={P.dim}
+                        style={styles.input}
+                        accessibilityLabel="Cars to watch"
+                    />
+                    <PrimaryButton title="Add" onPress={addCars} />
+                </View>
+
+                <View style={styles.chipRow}>
+                    {eventNames.map((name) => {
+                        const selected = name === eventName;
+                        return (
+                            <Pressable
+                                key={name}
+                                onPress={() => setEventName(name)}
+                                style={[styles.chip, selected && styles.chipActive]}
+                                accessibilityRole="button"
+                                accessibilityState={{ selected }}
+                            >
+                                <Text style={styles.chipText}>{name}</Text>
+                            </Pressable>
+                        );
+                    })}
+                </View>
+
+                <FlatList
+                    data={summaries}
+                    keyExtractor={(item) => item.carNo}
+                    ListEmptyComponent={<Text style={styles.hint}>Add car numbers to watch.</Text>}
+                    renderItem={({ item }) => {
+                        const { latest } = item;
+                        const vs = fmtVsOurCar(item.vsOurCar);
+                        return (
+                            <View style={styles.row}>
+                                <View style={styles.rowHead}>
+                                    <Text style={styles.car}>
+                                        #{item.carNo}
+                                        {latest?.school ? <Text style={styles.school}>  {latest.school}</Text> : null}
+                                    </Text>
+                                    <Pressable
+                                        onPress={() => removeCar(item.carNo)}
+                                        hitSlop={8}
+                                        accessibilityRole="button"
+                                        accessibilityLabel={`Stop watching car ${item.carNo}`}
+                                    >
+                                        <Text style={styles.remove}>Remove</Text>
+                                    </Pressable>
+                                </View>
+                                {latest ? (
+                                    <>
+                                        <Text style={styles.text}>
+                                            {latest.position !== null ? `P${latest.position}` : latest.status}
+                                            <Text style={(item.rankChange ?? 0) > 0 ? styles.up : styles.down}>
+                                                {fmtRankChange(item.rankChange)}
+                                            </Text>
+                                            {' · '}Best {item.bestTimeSec !== null ? `${item.bestTimeSec.toFixed(3)} s` : '—'}
+                                            {' · '}
+                                            {latest.attempts} run{latest.attempts === 1 ? '' : 's'}
+                                        </Text>
+                                        {item.ranks.length > 1 && <Text style={styles.hint}>Rank: {item.ranks.join(' → ')}</Text>}
+                                        {vs && <Text style={styles.hint}>{vs}</Text>}
+                                    </>
+                                ) : (
+                                    <Text style={styles.hint}>No result recorded for {eventName || 'this event'} yet.</Text>
+                                )}
+                            </View>
+                        );
+                    }}
+                />
+
+                <PrimaryButton title="Close" onPress={onClose} style={{ marginTop: 8 }} />
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    screen: { flex: 1, backgroundColor: P.bg, padding: 16, paddingTop: 48 },
+    title: { color: P.txt, fontSize: 18, fontWeight: '800', marginBottom: 12 },
+    hint: { color: P.dim, fontSize: 13, marginTop: 2 },
+    inputRow: { flexDirection: 'row', gap: 8, alignItems: 'center', marginBottom: 12 },
+    input: {
+        flex: 1,
+        backgroundColor: P.inputBg,
+        color: P.txt,
+        borderColor: P.border,
+        borderWidth: 1,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+    },
+    chipRow: { flexDirection: 'row', gap: 8, flexWrap: 'wrap', marginBottom: 12 },
+    chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 999, borderWidth: 1, borderColor: P.border },
+    chipActive: { backgroundColor: P.accent, borderColor: P.accent },
+    chipText: { color: P.txt, fontSize: 13 },
+    row: {
+        backgroundColor: P.listBg,
+        borderColor: P.border,
+        borderWidth: 1,
+        borderRadius: 10,
+        padding: 10,
+        marginBottom: 8,
+    },
+    rowHead: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 4 },
+    car: { color: P.txt, fontSize: 16, fontWeight: '800' },
+    school: { color: P.dim, fontSize: 13, fontWeight: '400' },
+    remove: { color: P.down, fontWeight: '600' },
+    text: { color: P.txt, fontSize: 14 },
+    up: { color: P.up },
+    down: { color: P.down },
+});
@@ -0,0 +1,132 @@
+import type { Arrival, Completion, LineSample } from '@/lib/exporters';
+
+/** An event's rate source as set by the SAE / Hybrid / Manual switch. */
+export type SourceMode = { useSAE: boolean; hybrid: boolean };
+
+/**
+ * A Dynamic Day action, with enough detail to reverse and replay it.
+ * - `queue`: a queue `+`/`−` on one lane; `arrival` is the arrival a `+` logged
+ * - `completion`: a completion recorded (`add`) or taken back with the completions `−` (`remove`)
+ * - `snapshot`: a manual line sample
+ * - `mode`, `event`, `lanes`: switching rate source, selected event or lane count
+ * - `undo`, `redo`: reversing or replaying the action with id `target`
+ */
+export type Action =
+    | { kind: 'queue'; lane: number; delta: 1 | -1; arrival?: Arrival }
+    | { kind: 'completion'; op: 'add' | 'remove'; completion: Completion }
+    | { kind: 'snapshot'; sample: LineSample }
+    | { kind: 'mode'; from: SourceMode; to: SourceMode }
+    | { kind: 'event'; from: string; to: string }
+    | { kind: 'lanes'; from: number; to: number }
+    | { kind: 'undo'; target: string }
+    | { kind: 'redo'; target: string };
+
+/** One entry in the append-only action log. */
+export type ActionEntry = { id: string; ts: string; eventName: string; action: Action };
+
+/** Entries kept in the log; the oldest are dropped beyond this. */
+export const MAX_ACTION_LOG = 2000;
+
+let seq = 0;
+
+/**
+ * Creates a log entry with a unique id.
+ * @param eventName - The event the action applies to
+ * @param action - What happened
+ * @param nowIso - Current timestamp in ISO format
+ * @returns The entry to append with {@link appendAction}
+ */
+export function createAction(eventName: string, action: Action, nowIso: string): ActionEntry {
+    seq = (seq + 1) % 1e6;
+    return { id: `${nowIso}#${seq}#${Math.random().toString(36).slice(2, 6)}`, ts: nowIso, eventName, action };
+}
+
+/**
+ * Appends an entry to the log, dropping the oldest entries beyond {@link MAX_ACTION_LOG}.
+ * @param log - The log so far, oldest first
+ * @param entry - The entry to append
+ * @returns The new log
+ */
+export function appendAction(log: ActionEntry[], entry: ActionEntry) {
+    return [...log, entry].slice(-MAX_ACTION_LOG);
+}
+
+/**
+ * Works out the undo and redo stacks from the log.
+ *
+ * @param log - The action log, oldest first
+ * @returns The entry the next undo reverses, the entry the next redo replays (each null if none),
+ *          and the ids of entries that are currently undone
+ *
+ * @remarks
+ * Undo reverses the most recent action that is still applied; redo replays the most recently
+ * undone one. Any new action clears the redo stack, as in an editor. Undo/redo entries whose
+ * target has been dropped from the log are ignored.
+ */
+export function undoRedoState(log: ActionEntry[]) {
+    const applied: ActionEntry[] = [];
+    let redoStack: ActionEntry[] = [];
+    const undoneIds = new Set<string>();
+
+    for (const entry of log) {
+        const { action } = entry;
+        if (action.kind === 'undo') {
+            const i = applied.findIndex((e) => e.id === action.target);
+            if (i < 0) continue;
+            redoStack.push(...applied.splice(i, 1));
+            undoneIds.add(action.target);
+        } else if (action.kind === 'redo') {
+            const i = redoStack.findIndex((e) => e.id === action.target);
+            if (i < 0) continue;
+            applied.push(...redoStack.splice(i, 1));
+            undoneIds.delete(action.target);
+        } else {
+            applied.push(entry);
+            redoStack = [];
+        }
+    }
+
+    return {
+        undoable: applied[applied.length - 1] ?? null,
+        redoable: redoStack[redoStack.length - 1] ?? null,
+        undoneIds,
+    };
+}
+
+function fmtMode(m: SourceMode) {
+    return m.useSAE ? (m.hybrid ? 'Hybrid' : 'SAE') : 'Manual';
+}
+
+/**
+ * One-line description of a log entry for the history screen.
+ * @param entry - The entry to describe
+ * @param log - The log, used to describe the target of undo/redo entries
+ * @returns Text like "Queue + (lane 2)" or "Undo: Completion car 42"
+ */
+export function describeAction(entry: ActionEntry, log: ActionEntry[] = []): string {
+    const { action } = entry;
+    const lane = (n: number | undefined) => (n ? ` (lane ${n + 1})` : '');
+
+    switch (action.kind) {
+        case 'queue':
+            return `Queue ${action.delta > 0 ? '+' : '−'}${lane(action.lane)}`;
+        case 'completion': {
+            const car = action.completion.carNo ? ` car ${action.completion.carNo}` : '';
+            return `${action.op === 'add' ? 'Completion' : 'Removed completion'}${car}${lane(action.completion.lane)}`;
+        }
+        case 'snapshot':
+            return `Line sample: ${action.sample.lineLength} in line`;
+        case 'mode':
+            return `Mode ${fmtMode(action.from)} → ${fmtMode(action.to)}`;
+        case 'event':
+            return `Event ${action.from || '(none)'} → ${action.to || '(none)'}`;
+        case 'lanes':
+            return `Lanes ${action.from} → ${action.to}`;
+        case 'undo':
+        case 'redo': {
+            const target = log.find((e) => e.id === action.target);
+            const verb = action.kind === 'undo' ? 'Undo' : 'Redo';
+            return target ? `${verb}: ${describeAction(target, log)}` : verb;
+        }
+    }
+}
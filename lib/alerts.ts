@@ -0,0 +1,120 @@
+/**
+ * Alert rule kinds:
+ * - `lineBelow`: the line is shorter than `threshold` cars
+ * - `etaUnder`: the likely ETA is under `threshold` minutes
+ * - `rateZero`: nothing has run for `threshold` minutes (the run rate over that span is zero)
+ */
+export type AlertRuleKind = 'lineBelow' | 'etaUnder' | 'rateZero';
+
+/**
+ * A per-event alert rule. `fired` is set when the alert goes off and cleared once the condition
+ * no longer holds, so each rule fires once per crossing rather than every second.
+ */
+export type AlertRule = {
+    id: string;
+    eventName: string;
+    kind: AlertRuleKind;
+    threshold: number;
+    enabled: boolean;
+    fired: boolean;
+};
+
+/** A fired alert, as logged and shown in the banner. */
+export type FiredAlert = { ruleId: string; eventName: string; message: string; ts: string };
+
+/** What the rules are checked against for one event. */
+export type AlertInputs = {
+    lineLength: number;
+    etaMinutes: number | undefined;
+    /** Time of the most recent run (manual completion or SAE result), or null before the first. */
+    lastRunMs: number | null;
+};
+
+export const ALERT_RULE_KINDS: AlertRuleKind[] = ['lineBelow', 'etaUnder', 'rateZero'];
+
+/** Fired alerts kept in the log; the oldest are dropped beyond this. */
+export const MAX_ALERT_LOG = 500;
+
+/**
+ * Short description of a rule, e.g. "Line below 5".
+ * @param rule - The rule (or just its kind and threshold)
+ * @returns The description
+ */
+export function describeAlertRule(rule: Pick<AlertRule, 'kind' | 'threshold'>) {
+    if (rule.kind === 'lineBelow') return `Line below ${rule.threshold}`;
+    if (rule.kind === 'etaUnder') return `ETA under ${rule.threshold} min`;
+    return `No runs for ${rule.threshold} min`;
+}
+
+/**
+ * Creates an enabled, armed rule.
+ * @param eventName - The event the rule watches
+ * @param kind - What the rule checks
+ * @param threshold - Cars for `lineBelow`, minutes otherwise; must be positive
+ * @param nowIso - Current timestamp in ISO format (used for the id)
+ * @returns The rule, or null if the threshold isn't a positive number
+ */
+export function createAlertRule(eventName: string, kind: AlertRuleKind, threshold: number, nowIso: string): AlertRule | null {
+    if (!Number.isFinite(threshold) || threshold <= 0) return null;
+    return {
+        id: `${nowIso}#${Math.random().toString(36).slice(2, 8)}`,
+        eventName,
+        kind,
+        threshold,
+        enabled: true,
+        fired: false,
+    };
+}
+
+function conditionMessage(rule: AlertRule, inputs: AlertInputs, nowMs: number): string | null {
+    if (rule.kind === 'lineBelow') {
+        return inputs.lineLength < rule.threshold ? `line is ${inputs.lineLength} (below ${rule.threshold})` : null;
+    }
+    if (rule.kind === 'etaUnder') {
+        const eta = inputs.etaMinutes;
+        return eta !== undefined && Number.isFinite(eta) && eta < rule.threshold
+            ? `ETA ${eta.toFixed(1)} min (under ${rule.threshold})`
+            : null;
+    }
+    if (inputs.lastRunMs == null) return null;
+    const idleMin = (nowMs - inputs.lastRunMs) / 60000;
+    return idleMin >= rule.threshold ? `no runs for ${Math.floor(idleMin)} min` : null;
+}
+
+/**
+ * Checks every enabled rule against its event's current numbers.
+ *
+ * @param rules - All alert rules
+ * @param inputsByEvent - Current numbers per tracked event; rules for other events are skipped
+ * @param nowMs - Current timestamp in milliseconds
+ * @returns The rules with updated `fired` flags (the same array if nothing changed) and the alerts
+ *          that went off on this check
+ */
+export function evaluateAlertRules(rules: AlertRule[], inputsByEvent: Record<string, AlertInputs>, nowMs: number) {
+    const fired: FiredAlert[] = [];
+    let changed = false;
+
+    const next = rules.map((rule) => {
+        const inputs = inputsByEvent[rule.eventName];
+        if (!rule.enabled || !inputs) return rule;
+
+        const message = conditionMessage(rule, inputs, nowMs);
+        if (message && !rule.fired) {
+            fired.push({
+                ruleId: rule.id,
+                eventName: rule.eventName,
+                message: `${rule.eventName}: ${message}`,
+                ts: new Date(nowMs).toISOString(),
+            });
+            changed = true;
+            return { ...rule, fired: true };
+        }
+        if (!message && rule.fired) {
+            changed = true;
+            return { ...rule, fired: false };
+        }
+        return rule;
+    });
+
+    return { rules: changed ? next : rules, fired };
+}
@@ -0,0 +1,81 @@
+import type { LineSample } from '@/lib/exporters';
+
+/** One value on a time-series chart; null leaves a gap (e.g. no ETA yet). */
+export type ChartPoint = { t: number; v: number | null };
+
+/** A vertical tick on a chart's timeline, e.g. an SAE-detected result. */
+export type ChartMarker = { t: number; color: string };
+
+export type ChartRange = { label: string; minutes: number | null };
+
+export const CHART_RANGES: ChartRange[] = [
+    { label: '30 min', minutes: 30 },
+    { label: '2 h', minutes: 120 },
+    { label: 'All', minutes: null },
+];
+
+/** Most points drawn per chart; denser data is bucketed down to this. */
+export const MAX_CHART_POINTS = 120;
+
+/**
+ * Formats a timestamp as a short local clock time.
+ * @param ms - Unix timestamp in milliseconds
+ * @returns e.g. "13:05"
+ */
+export function fmtClock(ms: number) {
+    const d = new Date(ms);
+    return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Extracts one field of an event's samples as chart points, oldest first.
+ * @param samples - Line samples for any events, in any order
+ * @param eventName - Event to chart
+ * @param field - Sample field to plot
+ * @param fromMs - Drop samples older than this
+ * @returns Points sorted by time
+ */
+export function seriesFromSamples(
+    samples: LineSample[],
+    eventName: string,
+    field: 'lineLength' | 'runRate' | 'etaMinutes',
+    fromMs: number
+): ChartPoint[] {
+    return samples
+        .filter((s) => s.eventName === eventName)
+        .map((s) => ({ t: new Date(s.timestamp).getTime(), v: s[field] }))
+        .filter((p) => Number.isFinite(p.t) && p.t >= fromMs)
+        .map((p) => ({ t: p.t, v: p.v != null && Number.isFinite(p.v) ? p.v : null }))
+        .sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Reduces a series to at most `maxPoints` by keeping the last point of each equal-width time bucket.
+ * @param points - Points sorted by time
+ * @param maxPoints - Maximum points to return
+ * @returns The reduced series, still sorted by time
+ */
+export function downsample(points: ChartPoint[], maxPoints = MAX_CHART_POINTS) {
+    if (points.length <= maxPoints) return points;
+
+    const start = points[0].t;
+    const span = Math.max(1, points[points.length - 1].t - start);
+    const buckets = new Map<number, ChartPoint>();
+    for (const p of points) {
+        const b = Math.min(maxPoints - 1, Math.floor(((p.t - start) / span) * maxPoints));
+        buckets.set(b, p);
+    }
+    return [...buckets.values()];
+}
+
+/**
+ * Rounds a chart's top value up to a readable number (1, 2 or 5 times a power of ten).
+ * @param max - Largest value on the chart
+ * @returns The y-axis maximum; at least 1
+ */
+export function niceMax(max: number) {
+    if (!(max > 1)) return 1;
+    const pow = Math.pow(10, Math.floor(Math.log10(max)));
+    const step = [1, 2, 5, 10].find((m) => m * pow >= max) ?? 10;
+    return step * pow;
+}
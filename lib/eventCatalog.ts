@@ -0,0 +1,94 @@
+/**
+ * Event kinds:
+ * - `timed`: a dynamic event with runs (and usually an SAE leaderboard)
+ * - `queue-only`: a dynamic event where only the line is tracked
+ * - `endurance`: the endurance race (pit logs, laps)
+ */
+export type EventType = 'timed' | 'queue-only' | 'endurance';
+
+/** One entry in the event catalogue. `saeCode` is the `Leaderboard.aspx?Event=` code, or null without one. */
+export type EventDef = { name: string; saeCode: string | null; type: EventType; enabled: boolean };
+
+export const EVENT_TYPES: EventType[] = ['timed', 'queue-only', 'endurance'];
+
+export const DEFAULT_EVENT_CATALOG: EventDef[] = [
+    { name: 'Acceleration', saeCode: 'ACCEL', type: 'timed', enabled: true },
+    { name: 'Maneuverability', saeCode: 'MANU', type: 'timed', enabled: true },
+    { name: 'Suspension', saeCode: 'SPEC', type: 'timed', enabled: true },
+    { name: 'Stability', saeCode: null, type: 'queue-only', enabled: false },
+    { name: 'Endurance', saeCode: null, type: 'endurance', enabled: true },
+];
+
+/**
+ * Checks a stored catalogue and drops malformed or duplicate entries.
+ * @param raw - The value loaded from storage
+ * @returns The valid entries, or {@link DEFAULT_EVENT_CATALOG} if there are none
+ */
+export function normalizeCatalog(raw: unknown): EventDef[] {
+    if (!Array.isArray(raw)) return DEFAULT_EVENT_CATALOG;
+
+    const out: EventDef[] = [];
+    for (const item of raw) {
+        const name = typeof item?.name === 'string' ? item.name.trim() : '';
+        if (!name || out.some((e) => e.name === name)) continue;
+
+        const code = typeof item.saeCode === 'string' ? item.saeCode.trim().toUpperCase() : '';
+        out.push({
+            name,
+            saeCode: code || null,
+            type: EVENT_TYPES.includes(item.type) ? item.type : 'timed',
+            enabled: item.enabled !== false,
+        });
+    }
+    return out.length > 0 ? out : DEFAULT_EVENT_CATALOG;
+}
+
+/**
+ * Validates a new or edited catalogue entry.
+ * @param def - The entry being saved
+ * @param catalog - The current catalogue
+ * @param originalName - The entry's name before editing, or undefined when adding
+ * @returns An error message, or null if the entry can be saved
+ */
+export function validateEventDef(def: EventDef, catalog: EventDef[], originalName?: string) {
+    const name = def.name.trim();
+    if (!name) return 'Enter an event name.';
+    if (catalog.some((e) => e.name === name && e.name !== originalName)) return `${name} is already in the list.`;
+    if (def.saeCode && !/^[A-Za-z0-9_-]+$/.test(def.saeCode.trim())) return 'SAE codes may only contain letters, digits, - and _.';
+    return null;
+}
+
+/**
+ * Adds an entry, or replaces the one named `originalName`, keeping the catalogue order.
+ * @param catalog - The current catalogue
+ * @param def - The entry to save (assumed valid, see {@link validateEventDef})
+ * @param originalName - The entry's name before editing, or undefined when adding
+ * @returns The updated catalogue
+ */
+export function upsertEventDef(catalog: EventDef[], def: EventDef, originalName?: string): EventDef[] {
+    const code = def.saeCode?.trim().toUpperCase();
+    const clean: EventDef = { ...def, name: def.name.trim(), saeCode: code || null };
+    const idx = originalName === undefined ? -1 : catalog.findIndex((e) => e.name === originalName);
+    if (idx < 0) return [...catalog, clean];
+    return catalog.map((e, i) => (i === idx ? clean : e));
+}
+
+/**
+ * Lists enabled events, optionally only those of the given types.
+ * @param catalog - The event catalogue
+ * @param types - Event types to include; all types when omitted
+ * @returns The matching entries in catalogue order
+ */
+export function enabledEvents(catalog: EventDef[], types?: EventType[]) {
+    return catalog.filter((e) => e.enabled && (!types || types.includes(e.type)));
+}
+
+/**
+ * Looks up the SAE leaderboard code for an event.
+ * @param catalog - The event catalogue
+ * @param name - Event display name
+ * @returns The code, or undefined if the event is unknown or has no leaderboard
+ */
+export function saeCodeFor(catalog: EventDef[], name: string) {
+    return catalog.find((e) => e.name === name)?.saeCode ?? undefined;
+}
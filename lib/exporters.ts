@@ -1,16 +1,54 @@
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
+import type { RateModel, RateSourceLabel } from '@/lib/runRate';
 
 export type LineSample = {
-    eventName: string; timestamp: string; lineLength: number; windowMin: number;
+    eventName: string; timestamp: string; lineLength: number;
+    /** Rate model used for `runRate`; `windowMin` is null for the cumulative model. */
+    rateModel?: RateModel; windowMin: number | null;
     runRate: number; etaMinutes: number | null;
+    /** Arrival-aware ETA band (see `computeEtaRange`); null when unbounded or unknown. */
+    arrivalRate?: number; etaBestMinutes?: number | null; etaWorstMinutes?: number | null;
+    /** True for samples taken by the auto-snapshot scheduler rather than a tap. */
+    auto?: boolean;
+    /** Where `runRate` came from; `fallback` is true while a hybrid event runs on manual taps. */
+    rateSource?: RateSourceLabel; fallback?: boolean;
+    /** Per-lane breakdown, only for events running more than one lane. */
+    lanes?: LaneSample[];
 };
-export type Completion = { eventName: string; timestamp: string };
+/** One lane's queue, manual run rate and ETA at the time of a sample. */
+export type LaneSample = { lineLength: number; runRate: number; etaMinutes: number | null };
+/**
+ * A recorded run; `carNo` is optional because scouts can't always read the number.
+ * `lane` is the zero-based lane index on multi-lane courses (absent means the first lane).
+ */
+export type Completion = { eventName: string; timestamp: string; carNo?: string; lane?: number };
+/** A car joining an event's queue (a queue `+` press). */
+export type Arrival = { eventName: string; timestamp: string; lane?: number };
 
 function csvEscape(val: string | number | null | undefined) {
     const s = val ?? '';
     const str = String(s);
-    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Per-lane CSV columns (`lane1Line`, `lane1RunRate`, `lane1EtaMinutes`, …) for the most lanes any
+ * sample has; no columns when every sample is single-lane.
+ * @param samples - The samples being exported
+ * @returns The extra header names and a function giving one sample's values for them
+ */
+function laneCsvColumns(samples: LineSample[]) {
+    const laneCount = Math.max(0, ...samples.map(s => s.lanes?.length ?? 0));
+    const lanes = Array.from({ length: laneCount }, (_, i) => i);
+    return {
+        header: lanes.flatMap(i => [`lane${i + 1}Line`, `lane${i + 1}RunRate`, `lane${i + 1}EtaMinutes`]),
+        values: (s: LineSample) =>
+            lanes.flatMap(i => {
+                const lane = s.lanes?.[i];
+                return [lane?.lineLength, lane?.runRate, lane?.etaMinutes];
+            }),
+    };
 }
 
 /**
@@ -19,14 +57,27 @@ function csvEscape(val: string | number | null | undefined) {
  * @returns A CSV formatted string with header row and data rows, with proper escaping applied
  */
 export function buildSamplesCSV(samples: LineSample[]) {
-    const header = ['timestamp', 'eventName', 'lineLength', 'windowMin', 'runRate', 'etaMinutes'].join(',');
+    const laneColumns = laneCsvColumns(samples);
+    const header = [
+        'timestamp', 'eventName', 'lineLength', 'rateModel', 'windowMin', 'runRate', 'arrivalRate',
+        'etaMinutes', 'etaBestMinutes', 'etaWorstMinutes', 'auto', 'rateSource', 'fallback',
+        ...laneColumns.header,
+    ].join(',');
     const rows = samples.map(s => [
         csvEscape(s.timestamp),
         csvEscape(s.eventName),
         csvEscape(s.lineLength),
+        csvEscape(s.rateModel),
         csvEscape(s.windowMin),
         csvEscape(s.runRate),
+        csvEscape(s.arrivalRate),
         csvEscape(s.etaMinutes),
+        csvEscape(s.etaBestMinutes),
+        csvEscape(s.etaWorstMinutes),
+        csvEscape(s.auto ? 1 : 0),
+        csvEscape(s.rateSource),
+        csvEscape(s.fallback ? 1 : 0),
+        ...laneColumns.values(s).map(csvEscape),
     ].join(','));
     return [header, ...rows].join('\n');
 }
@@ -37,10 +88,12 @@ export function buildSamplesCSV(samples: LineSample[]) {
  * @returns A CSV formatted string with header row and data rows
  */
 export function buildCompletionsCSV(completions: Completion[]) {
-    const header = ['timestamp', 'eventName'].join(',');
+    const header = ['timestamp', 'eventName', 'carNo', 'lane'].join(',');
     const rows = completions.map(c => [
         csvEscape(c.timestamp),
         csvEscape(c.eventName),
+        csvEscape(c.carNo),
+        csvEscape(c.lane === undefined ? '' : c.lane + 1),
     ].join(','));
     return [header, ...rows].join('\n');
 }
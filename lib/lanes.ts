@@ -0,0 +1,128 @@
+import type { Arrival, Completion } from '@/lib/exporters';
+import {
+    computeArrivalRate,
+    computeEtaRange,
+    computeRunRate,
+    DEFAULT_RATE_MODEL,
+    type EtaRange,
+    type RateModelConfig,
+} from '@/lib/runRate';
+
+/** Lane counts offered for an event; most courses run one lane, some two start lines. */
+export const LANE_OPTIONS = [1, 2, 3, 4];
+
+/** One lane's share of an event's queue and throughput. */
+export type LaneMetrics = { lineLength: number; rate: number; count: number; arrivalRate: number; eta: EtaRange };
+
+/**
+ * The lane a completion or arrival belongs to. Records from before lanes existed belong to lane 0,
+ * and records from lanes that were since removed belong to the last lane (where their cars went).
+ * @param entry - A completion or arrival
+ * @param laneCount - The event's current number of lanes
+ * @returns The zero-based lane index
+ */
+export function laneOf(entry: { lane?: number }, laneCount: number) {
+    return Math.min(entry.lane ?? 0, Math.max(1, laneCount) - 1);
+}
+
+/**
+ * Checks saved per-lane queue counts against the event's total.
+ * @param laneLines - Saved per-lane counts (may be missing or malformed)
+ * @param lineLength - The event's total queue count
+ * @returns The counts if they are valid and add up to `lineLength`, otherwise a single lane holding the total
+ */
+export function normalizeLaneLines(laneLines: unknown, lineLength: number): number[] {
+    if (
+        Array.isArray(laneLines) &&
+        laneLines.length >= 1 &&
+        laneLines.length <= LANE_OPTIONS[LANE_OPTIONS.length - 1] &&
+        laneLines.every((n) => Number.isInteger(n) && n >= 0) &&
+        laneLines.reduce((a, b) => a + b, 0) === lineLength
+    ) {
+        return laneLines;
+    }
+    return [lineLength];
+}
+
+/**
+ * Changes the number of lanes. Cars queued in removed lanes move to the last remaining lane.
+ * @param laneLines - Current per-lane queue counts
+ * @param count - New number of lanes (at least 1)
+ * @returns The resized per-lane counts; the total is unchanged
+ */
+export function resizeLanes(laneLines: number[], count: number): number[] {
+    const n = Math.max(1, Math.floor(count));
+    if (n >= laneLines.length) return [...laneLines, ...Array(n - laneLines.length).fill(0)];
+
+    const kept = laneLines.slice(0, n);
+    kept[n - 1] += laneLines.slice(n).reduce((a, b) => a + b, 0);
+    return kept;
+}
+
+/**
+ * Adds to or removes from one lane's queue, never going below zero.
+ * @param laneLines - Current per-lane queue counts
+ * @param lane - Zero-based lane index
+ * @param delta - Cars to add (negative to remove)
+ * @returns The updated per-lane counts
+ */
+export function adjustLane(laneLines: number[], lane: number, delta: number): number[] {
+    return laneLines.map((n, i) => (i === lane ? Math.max(0, n + delta) : n));
+}
+
+/**
+ * Computes each lane's run rate, arrival rate and ETA from the manual taps recorded on it.
+ *
+ * @param opts.laneLines - Per-lane queue counts
+ * @param opts.completions - Completions for the event
+ * @param opts.arrivals - Arrivals for the event
+ * @param opts.nowMs - Current timestamp in milliseconds
+ * @param opts.model - Rate model to apply; defaults to {@link DEFAULT_RATE_MODEL}
+ * @returns One entry per lane, in lane order
+ *
+ * @remarks
+ * The SAE leaderboard doesn't say which lane a car ran in, so the breakdown is manual-only; the
+ * event's combined rate still uses whichever source the event is set to.
+ */
+export function computeLaneMetrics(opts: {
+    laneLines: number[];
+    completions: Completion[];
+    arrivals: Arrival[];
+    nowMs: number;
+    model?: RateModelConfig;
+}): LaneMetrics[] {
+    const { laneLines, completions, arrivals, nowMs, model = DEFAULT_RATE_MODEL } = opts;
+
+    return laneLines.map((lineLength, lane) => {
+        const laneCompletions = completions.filter((c) => laneOf(c, laneLines.length) === lane);
+        const firstMs = Math.min(...laneCompletions.map((c) => new Date(c.timestamp).getTime()).filter(Number.isFinite));
+        const r = computeRunRate({
+            useSAE: false,
+            saeFresh: false,
+            saeSeen: [],
+            completions: laneCompletions,
+            manualStartTs: Number.isFinite(firstMs) ? new Date(firstMs).toISOString() : null,
+            nowMs,
+            model,
+        });
+        const arrived = computeArrivalRate(
+            arrivals.filter((a) => laneOf(a, laneLines.length) === lane).map((a) => a.timestamp),
+            r.startMs,
+            nowMs,
+            model
+        );
+        return {
+            lineLength,
+            rate: r.rate,
+            count: r.count,
+            arrivalRate: arrived.rate,
+            eta: computeEtaRange({
+                lineLength,
+                serviceRate: r.rate,
+                serviceCount: r.count,
+                arrivalRate: arrived.rate,
+                arrivalCount: arrived.count,
+            }),
+        };
+    });
+}
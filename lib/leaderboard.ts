@@ -0,0 +1,178 @@
+/** Run status as shown on the leaderboard. */
+export type RunStatus = 'OK' | 'DNF' | 'DQ' | 'DNS';
+
+/**
+ * One leaderboard row. Events that list every attempt have a row per attempt, so a car can appear
+ * more than once; `attempt` is null when the board shows only one row per car.
+ */
+export type LeaderboardRow = {
+    /** Leaderboard position, or null when blank (usually DNF/DQ/DNS rows). */
+    position: number | null;
+    carNo: string;
+    school: string;
+    status: RunStatus;
+    /** Run time in seconds, or null when the run has no time. */
+    timeSec: number | null;
+    attempt: number | null;
+    /** The penalties column as a number (0 when blank or absent). */
+    penalties: number;
+};
+
+type Field = 'position' | 'carNo' | 'school' | 'status' | 'time' | 'attempt' | 'penalties';
+
+// Checked in order, so "Penalty Time" is a penalties column and "Run Time" a time column
+const HEADER_PATTERNS: [Field, RegExp][] = [
+    ['penalties', /pen|cone|gate/],
+    ['carNo', /\bcar\b|^no\.?$|^number$/],
+    ['position', /^(pos\.?|position|place|rank|overall)$/],
+    ['school', /school|university|college|team/],
+    ['status', /status/],
+    ['time', /time|^best$|^result$/],
+    ['attempt', /attempt|^att\.?$|^run\s*(#|no\.?)?$/],
+];
+
+const STATUS_ALIASES: Record<string, RunStatus> = { OK: 'OK', DNF: 'DNF', DQ: 'DQ', DSQ: 'DQ', DNS: 'DNS' };
+
+const NAMED_ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** Decodes named, decimal and hex entities in one pass, so `&amp;lt;` stays `&lt;`. */
+function decodeEntities(s: string) {
+    return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+        if (body[0] !== '#') return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+        const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : Number(body.slice(1));
+        return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    });
+}
+
+function cellText(html: string) {
+    return decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/** Every `<tr>` in the page as its cell texts. */
+function tableRows(html: string): string[][] {
+    const rows: string[][] = [];
+    for (const tr of html.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)) {
+        const cells = [...tr[1].matchAll(/<t[dh]\b[^>]*>([\s\S]*?)<\/t[dh]>/gi)].map((c) => cellText(c[1]));
+        if (cells.length > 0) rows.push(cells);
+    }
+    return rows;
+}
+
+/** Maps header cells to fields, or returns null if the row isn't a results header. */
+function headerColumns(cells: string[]): Partial<Record<Field, number>> | null {
+    const columns: Partial<Record<Field, number>> = {};
+    cells.forEach((cell, i) => {
+        const label = cell.toLowerCase();
+        const match = HEADER_PATTERNS.find(([field, re]) => columns[field] === undefined && re.test(label));
+        if (match) columns[match[0]] = i;
+    });
+    return columns.carNo !== undefined && (columns.time !== undefined || columns.status !== undefined) ? columns : null;
+}
+
+/**
+ * Parses a run time: seconds ("3.928") or minutes and seconds ("1:02.345").
+ * @param text - The time cell
+ * @returns The time in seconds, or null if the cell holds no positive time
+ */
+export function parseRunTime(text: string): number | null {
+    const m = text.trim().match(/^(?:(\d+):)?(\d+(?:\.\d+)?)$/);
+    if (!m) return null;
+    const sec = (m[1] ? Number(m[1]) * 60 : 0) + Number(m[2]);
+    return Number.isFinite(sec) && sec > 0 ? sec : null;
+}
+
+function parseStatus(text: string | undefined): RunStatus | null {
+    return STATUS_ALIASES[(text ?? '').trim().toUpperCase()] ?? null;
+}
+
+function intOrNull(text: string | undefined) {
+    const m = (text ?? '').match(/\d+/);
+    return m ? Number(m[0]) : null;
+}
+
+function rowFromCells(cells: string[], columns: Partial<Record<Field, number>>): LeaderboardRow | null {
+    const cell = (field: Field) => (columns[field] === undefined ? undefined : cells[columns[field]!]);
+
+    const carNo = cell('carNo')?.match(/^\d{1,4}$/)?.[0];
+    if (!carNo) return null;
+
+    // Some boards put the status in the time column instead of a time
+    const timeText = cell('time') ?? '';
+    const timeSec = parseRunTime(timeText);
+    const status = parseStatus(cell('status')) ?? parseStatus(timeText) ?? (timeSec !== null ? 'OK' : null);
+    if (!status) return null;
+
+    const penalties = Number((cell('penalties') ?? '').match(/\d+(?:\.\d+)?/)?.[0] ?? 0);
+
+    return {
+        position: intOrNull(cell('position')),
+        carNo,
+        school: cell('school') ?? '',
+        status,
+        timeSec,
+        attempt: intOrNull(cell('attempt')),
+        penalties,
+    };
+}
+
+/** Fallback for pages without a recognisable results table: "position car school STATUS time". */
+function rowsFromText(html: string): LeaderboardRow[] {
+    const text = cellText(html);
+    const re = /\b(\d{1,3})\s+(\d{1,4})\s+(.*?)\s+(OK|DNF|DQ|DSQ|DNS)\b(?:\s+(\d+(?::\d+)?(?:\.\d+)?))?/g;
+
+    const rows: LeaderboardRow[] = [];
+    for (const m of text.matchAll(re)) {
+        rows.push({
+            position: Number(m[1]),
+            carNo: m[2],
+            school: m[3],
+            status: STATUS_ALIASES[m[4]],
+            timeSec: m[5] ? parseRunTime(m[5]) : null,
+            attempt: null,
+            penalties: 0,
+        });
+    }
+    return rows;
+}
+
+/**
+ * Parses a leaderboard page into typed result rows.
+ *
+ * @param html - The leaderboard page
+ * @returns The rows in page order (empty if the page has no results)
+ *
+ * @remarks
+ * Columns are found from the table's header row, so column order and extra columns don't matter;
+ * only a car number column plus a status or time column is required. Rows without a car number or
+ * a status (blank rows, pager rows) are skipped. A row with a time but no status counts as `OK`.
+ * Pages without a recognisable table fall back to reading "position car school STATUS time" from
+ * the page text.
+ */
+export function parseLeaderboardRows(html: string): LeaderboardRow[] {
+    return parseResultTable(tableRows(html)) ?? rowsFromText(html);
+}
+
+/**
+ * Parses results already split into rows of cell texts, such as a CSV file, the same way as a
+ * leaderboard table: columns come from the first row that looks like a results header.
+ *
+ * @param table - Rows of cell texts
+ * @returns The rows in order, or null if no results header was found
+ */
+export function parseResultTable(table: string[][]): LeaderboardRow[] | null {
+    const rows: LeaderboardRow[] = [];
+    let columns: Partial<Record<Field, number>> | null = null;
+
+    for (const cells of table) {
+        const header = headerColumns(cells);
+        if (header) {
+            columns = header;
+            continue;
+        }
+        if (!columns) continue;
+        const row = rowFromCells(cells.map((c) => c.trim()), columns);
+        if (row) rows.push(row);
+    }
+
+    return columns ? rows : null;
+}
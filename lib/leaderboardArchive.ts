@@ -0,0 +1,159 @@
+import { contentHash } from '@/lib/polling';
+import type { ReplayCapture } from '@/lib/replay';
+
+/** Opt-in archive of raw leaderboard pages, kept so history can be re-parsed with a better parser. */
+export type ArchiveSettings = { enabled: boolean; maxMb: number };
+
+export const DEFAULT_ARCHIVE_SETTINGS: ArchiveSettings = { enabled: false, maxMb: 1 };
+
+/**
+ * Archive size limits offered in Settings. The archive is one storage value, and Android's
+ * AsyncStorage can't read back values much over 2 MB, so larger limits aren't offered.
+ */
+export const ARCHIVE_SIZE_OPTIONS_MB = [0.5, 1, 2];
+
+/** Most pages kept, whatever their size. */
+export const MAX_ARCHIVE_ENTRIES = 1000;
+
+/**
+ * One archived leaderboard page. A capture bundle of these replays as-is (see `parseReplayBundle`).
+ * `lastUpdateMs` is the site's "Last Data Update" read in the venue zone, not moved onto the device clock.
+ */
+export type ArchivedCapture = ReplayCapture & {
+    eventCode: string;
+    eventName: string;
+    hash: string;
+    lastUpdateRaw: string | null;
+    lastUpdateMs: number | null;
+};
+
+/** Per-event-code summary for the archive browser. */
+export type ArchiveGroup = {
+    eventCode: string;
+    eventName: string;
+    count: number;
+    bytes: number;
+    firstAt: string;
+    lastAt: string;
+};
+
+/**
+ * Blanks ASP.NET's hidden `__VIEWSTATE` / `__EVENTVALIDATION` values, which are often most of a
+ * leaderboard page and carry no results.
+ * @param html - The page as fetched
+ * @returns The page without those values
+ */
+export function stripViewState(html: string) {
+    return html.replace(
+        /(<input\b[^>]*\bname="__(?:VIEWSTATE|VIEWSTATEGENERATOR|EVENTVALIDATION)"[^>]*\bvalue=")[^"]*(")/gi,
+        '$1$2'
+    );
+}
+
+/** Approximate stored size of one capture in bytes (its page plus a little for the metadata). */
+export function captureBytes(capture: ArchivedCapture) {
+    return capture.html.length + 200;
+}
+
+/**
+ * Creates an archive entry for a fetched page.
+ * @param opts.eventName - The Dynamic event the page was fetched for
+ * @param opts.eventCode - The SAE event code
+ * @param opts.html - The page as fetched
+ * @param opts.fetchedAt - Fetch time in ISO format
+ * @param opts.lastUpdate - The page's parsed "Last Data Update", or null if it had none
+ * @returns The entry, with view state stripped
+ */
+export function createArchivedCapture(opts: {
+    eventName: string;
+    eventCode: string;
+    html: string;
+    fetchedAt: string;
+    lastUpdate: { ms: number; raw: string } | null;
+}): ArchivedCapture {
+    const html = stripViewState(opts.html);
+    return {
+        capturedAt: opts.fetchedAt,
+        eventCode: opts.eventCode,
+        eventName: opts.eventName,
+        html,
+        hash: contentHash(html),
+        lastUpdateRaw: opts.lastUpdate?.raw ?? null,
+        lastUpdateMs: opts.lastUpdate?.ms ?? null,
+    };
+}
+
+/**
+ * Adds a capture to the archive, oldest first, dropping the oldest pages to stay within the limits.
+ * @param entries - The archive
+ * @param capture - The new capture
+ * @param maxMb - Size limit in megabytes
+ * @returns The archive with the capture, or the same array if it repeats the event's last page
+ */
+export function appendCapture(entries: ArchivedCapture[], capture: ArchivedCapture, maxMb: number) {
+    for (let i = entries.length - 1; i >= 0; i--) {
+        if (entries[i].eventCode !== capture.eventCode) continue;
+        if (entries[i].hash === capture.hash) return entries;
+        break;
+    }
+    return pruneArchive([...entries, capture], maxMb);
+}
+
+/**
+ * Drops the oldest captures until the archive fits the size and count limits.
+ * @param entries - The archive, oldest first
+ * @param maxMb - Size limit in megabytes
+ * @returns The archive, or the same array if it already fits
+ */
+export function pruneArchive(entries: ArchivedCapture[], maxMb: number) {
+    const maxBytes = maxMb * 1024 * 1024;
+    let bytes = entries.reduce((sum, e) => sum + captureBytes(e), 0);
+    let start = Math.max(0, entries.length - MAX_ARCHIVE_ENTRIES);
+    for (let i = 0; i < start; i++) bytes -= captureBytes(entries[i]);
+    while (start < entries.length && bytes > maxBytes) bytes -= captureBytes(entries[start++]);
+    return start === 0 ? entries : entries.slice(start);
+}
+
+/**
+ * Groups the archive by event code for browsing.
+ * @param entries - The archive, oldest first
+ * @returns One group per event code, most recently captured first
+ */
+export function summarizeArchive(entries: ArchivedCapture[]): ArchiveGroup[] {
+    const groups = new Map<string, ArchiveGroup>();
+    for (const e of entries) {
+        const g = groups.get(e.eventCode);
+        if (g) {
+            g.count++;
+            g.bytes += captureBytes(e);
+            g.lastAt = e.capturedAt;
+            g.eventName = e.eventName;
+        } else {
+            groups.set(e.eventCode, {
+                eventCode: e.eventCode,
+                eventName: e.eventName,
+                count: 1,
+                bytes: captureBytes(e),
+                firstAt: e.capturedAt,
+                lastAt: e.capturedAt,
+            });
+        }
+    }
+    return [...groups.values()].sort((a, b) => Date.parse(b.lastAt) - Date.parse(a.lastAt));
+}
+
+/**
+ * Builds the export file: a capture bundle that the Dynamic tab's Replay card loads directly.
+ * @param entries - The captures to export
+ * @param exportedAt - Export time in ISO format
+ * @returns The file's JSON text
+ */
+export function buildArchiveBundle(entries: ArchivedCapture[], exportedAt: string) {
+    return JSON.stringify({ exportedAt, captures: entries });
+}
+
+/** Formats a byte count, e.g. "340 KB" or "1.2 MB". */
+export function describeBytes(bytes: number) {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
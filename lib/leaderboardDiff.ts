@@ -0,0 +1,125 @@
+import type { LeaderboardRow, RunStatus } from '@/lib/leaderboard';
+
+/**
+ * A change between two consecutive polls of one leaderboard:
+ * - `newResult`: a result row appeared (on boards that list attempts, each attempt is a row)
+ * - `improved`: a row's time got faster (on one-row-per-car boards this is a new, faster run)
+ * - `penalty`: a row's penalties went up, or an `OK` run was disqualified
+ * - `removed`: a row disappeared, e.g. a run thrown out
+ * - `rankChange`: a car's best position moved
+ */
+export type LeaderboardChange =
+    | { kind: 'newResult'; carNo: string; attempt: number | null; status: RunStatus; timeSec: number | null }
+    | { kind: 'improved'; carNo: string; attempt: number | null; fromSec: number; toSec: number }
+    | { kind: 'penalty'; carNo: string; attempt: number | null; from: number; to: number; status: RunStatus }
+    | { kind: 'removed'; carNo: string; attempt: number | null }
+    | { kind: 'rankChange'; carNo: string; from: number; to: number };
+
+/** A change with the poll time it was detected at, as kept for the Recent feed. */
+export type LeaderboardChangeEvent = LeaderboardChange & { ts: string };
+
+/** Changes kept per event; the oldest are dropped beyond this. */
+export const MAX_LEADERBOARD_CHANGES = 200;
+
+function rowKey(row: LeaderboardRow) {
+    return `${row.carNo}#${row.attempt ?? ''}`;
+}
+
+function byKey(rows: LeaderboardRow[]) {
+    const map = new Map<string, LeaderboardRow>();
+    for (const row of rows) if (!map.has(rowKey(row))) map.set(rowKey(row), row);
+    return map;
+}
+
+function bestPositions(rows: LeaderboardRow[]) {
+    const map = new Map<string, number>();
+    for (const row of rows) {
+        if (row.position === null) continue;
+        const prev = map.get(row.carNo);
+        if (prev === undefined || row.position < prev) map.set(row.carNo, row.position);
+    }
+    return map;
+}
+
+/**
+ * Compares two consecutive polls of a leaderboard.
+ *
+ * @param prev - Rows from the previous poll
+ * @param next - Rows from this poll
+ * @returns The changes, with row changes in `next` page order, then removals, then rank changes
+ *
+ * @remarks
+ * Rows are matched by car number and attempt, so boards that list each attempt report a second
+ * attempt as a `newResult`, while one-row-per-car boards report it as `improved` (a slower second
+ * run doesn't change such a board and can't be seen).
+ */
+export function diffLeaderboards(prev: LeaderboardRow[], next: LeaderboardRow[]): LeaderboardChange[] {
+    const before = byKey(prev);
+    const after = byKey(next);
+    const changes: LeaderboardChange[] = [];
+
+    for (const [key, row] of after) {
+        const old = before.get(key);
+        const { carNo, attempt } = row;
+        if (!old) {
+            changes.push({ kind: 'newResult', carNo, attempt, status: row.status, timeSec: row.timeSec });
+            continue;
+        }
+        if (row.status === 'OK' && old.status === 'OK' && row.timeSec !== null && old.timeSec !== null && row.timeSec < old.timeSec) {
+            changes.push({ kind: 'improved', carNo, attempt, fromSec: old.timeSec, toSec: row.timeSec });
+        }
+        if (row.penalties > old.penalties || (row.status === 'DQ' && old.status !== 'DQ')) {
+            changes.push({ kind: 'penalty', carNo, attempt, from: old.penalties, to: row.penalties, status: row.status });
+        }
+    }
+
+    for (const [key, row] of before) {
+        if (!after.has(key)) changes.push({ kind: 'removed', carNo: row.carNo, attempt: row.attempt });
+    }
+
+    const oldRanks = bestPositions(prev);
+    for (const [carNo, to] of bestPositions(next)) {
+        const from = oldRanks.get(carNo);
+        if (from !== undefined && from !== to) changes.push({ kind: 'rankChange', carNo, from, to });
+    }
+
+    return changes;
+}
+
+/**
+ * Runs on course that the changes reveal: new result rows (other than DNS) and faster times on
+ * one-row-per-car boards.
+ * @param changes - Changes from {@link diffLeaderboards}
+ * @returns Run counts per car number
+ */
+export function runsFromChanges(changes: LeaderboardChange[]) {
+    const runs = new Map<string, number>();
+    for (const c of changes) {
+        const isRun = (c.kind === 'newResult' && c.status !== 'DNS') || (c.kind === 'improved' && c.attempt === null);
+        if (isRun) runs.set(c.carNo, (runs.get(c.carNo) ?? 0) + 1);
+    }
+    return runs;
+}
+
+/**
+ * One-line description of a change for the Recent feed.
+ * @param change - The change to describe
+ * @returns Text like "Car 42 improved 61.930 → 58.412 s"
+ */
+export function describeLeaderboardChange(change: LeaderboardChange): string {
+    const run = 'attempt' in change && change.attempt !== null ? ` (run ${change.attempt})` : '';
+    switch (change.kind) {
+        case 'newResult':
+            return `New result: Car ${change.carNo}${run} ${change.timeSec !== null && change.status === 'OK' ? `${change.timeSec.toFixed(3)} s` : change.status}`;
+        case 'improved':
+            return `Car ${change.carNo}${run} improved ${change.fromSec.toFixed(3)} → ${change.toSec.toFixed(3)} s`;
+        case 'penalty':
+            return change.to > change.from
+                ? `Penalty: Car ${change.carNo}${run} ${change.from} → ${change.to}`
+                : `Penalty: Car ${change.carNo}${run} ${change.status}`;
+        case 'removed':
+            return `Result removed: Car ${change.carNo}${run}`;
+        case 'rankChange':
+            return `Car ${change.carNo} P${change.from} → P${change.to}`;
+    }
+}
@@ -0,0 +1,68 @@
+import { computeEtaRange } from '@/lib/runRate';
+
+/**
+ * Our own car's place in an event's queue.
+ * `alerted` is set once the run-time alert has fired so it only fires once per approach.
+ */
+export type OurCar = { carsAhead: number; alertAt: number; alerted: boolean; setAt: string };
+
+export type OurCarEntry = 'position' | 'ahead';
+
+export const OUR_CAR_ALERT_OPTIONS = [1, 2, 3, 5];
+
+export const DEFAULT_OUR_CAR_ALERT_AT = 2;
+
+/**
+ * Starts tracking our car from what the scout entered.
+ * @param value - Our position in line (1 = next to run) or the number of cars ahead of us
+ * @param entry - Which of the two `value` is
+ * @param alertAt - Alert when this many cars (or fewer) are ahead
+ * @param nowIso - Current timestamp in ISO format
+ * @returns The tracker, or null if the value isn't a valid count
+ */
+export function createOurCar(value: number, entry: OurCarEntry, alertAt: number, nowIso: string): OurCar | null {
+    if (!Number.isFinite(value)) return null;
+    const carsAhead = Math.floor(entry === 'position' ? value - 1 : value);
+    if (carsAhead < 0) return null;
+    return { carsAhead, alertAt, alerted: carsAhead <= alertAt, setAt: nowIso };
+}
+
+/**
+ * Moves our car up (or back, for undos) as cars ahead of it complete.
+ * @param ourCar - The tracker, or null when not tracking
+ * @param completed - Completions since the last update; negative when a completion is undone
+ * @returns The updated tracker; the alert re-arms if we drop back above the alert threshold
+ */
+export function advanceOurCar(ourCar: OurCar | null, completed: number): OurCar | null {
+    if (!ourCar || completed === 0) return ourCar;
+    const carsAhead = Math.max(0, ourCar.carsAhead - completed);
+    return { ...ourCar, carsAhead, alerted: ourCar.alerted && carsAhead <= ourCar.alertAt };
+}
+
+/**
+ * Whether the run-time alert should fire now.
+ * @param ourCar - The tracker, or null when not tracking
+ * @returns True the first time our car is within `alertAt` of the front
+ */
+export function needsRunAlert(ourCar: OurCar | null) {
+    return !!ourCar && !ourCar.alerted && ourCar.carsAhead <= ourCar.alertAt;
+}
+
+/**
+ * Predicts when our car reaches the front of the line.
+ * @param carsAhead - Cars still to run before ours
+ * @param rate - Run rate in cars per minute
+ * @param count - Completions the run rate is based on
+ * @param nowMs - Current timestamp in milliseconds
+ * @returns Likely, earliest and latest clock times in ms, or null without a run rate
+ *
+ * @remarks Cars joining behind us don't delay us, so only the run rate matters.
+ */
+export function predictRunTime(carsAhead: number, rate: number, count: number, nowMs: number) {
+    const eta = computeEtaRange({ lineLength: carsAhead, serviceRate: rate, serviceCount: count, arrivalRate: 0, arrivalCount: 0 });
+    if (eta.likely === undefined) return null;
+
+    const at = (minutes: number | undefined) =>
+        minutes !== undefined && Number.isFinite(minutes) ? nowMs + minutes * 60000 : null;
+    return { likely: at(eta.likely), earliest: at(eta.best), latest: at(eta.worst) };
+}
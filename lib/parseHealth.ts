@@ -0,0 +1,98 @@
+import type { LeaderboardRow } from '@/lib/leaderboard';
+import type { ReplayCapture } from '@/lib/replay';
+
+/** Signs that a results page changed layout and the parser no longer understands it. */
+export type ParseProblem = 'noRows' | 'noLastUpdate' | 'rowDrop';
+
+/**
+ * A page the parser choked on, kept for a bug report. It is a replay capture, so a bundle of
+ * these reproduces the problem in the Replay card.
+ */
+export type ParseFailure = ReplayCapture & { eventName: string; source: string; problems: ParseProblem[] };
+
+/** Offending pages kept, newest first. */
+export const MAX_PARSE_FAILURES = 10;
+
+/** A drop below this share of the last good row count counts as sudden; results rarely disappear. */
+export const ROW_DROP_RATIO = 0.5;
+
+/** Boards with fewer rows than this are too small to judge a drop on. */
+export const MIN_ROWS_FOR_DROP = 4;
+
+/** Run times ("3.928", "1:01.930") and run statuses in the page text. */
+const RESULT_TOKEN_RE = /\b(?:\d{1,2}:\d{2}\.\d{1,3}|\d{1,3}\.\d{2,3}|DNF|DNS|DQ|DSQ)\b/g;
+
+/**
+ * Counts things in a page that look like results, whatever its markup.
+ * @param body - The page
+ * @returns How many run times and statuses the page text holds
+ */
+export function countResultTokens(body: string) {
+    const text = body.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/gi, ' ');
+    return text.match(RESULT_TOKEN_RE)?.length ?? 0;
+}
+
+/**
+ * Checks a freshly parsed page for signs that the parser no longer understands the layout.
+ *
+ * @param opts.body - The page
+ * @param opts.rows - Rows parsed from it
+ * @param opts.hasLastUpdate - Whether a "Last Data Update" was found on it
+ * @param opts.expectLastUpdate - Whether this source's pages always carry one
+ * @param opts.lastGood - Row count and Last Data Update presence of the last healthy page, if any
+ * @returns The problems found, empty if the parse looks healthy
+ *
+ * @remarks
+ * - `noRows`: no rows, but the page text holds run times or statuses. An event with nothing posted yet is fine.
+ * - `noLastUpdate`: the source always has one, or the last healthy page did, but this one doesn't.
+ * - `rowDrop`: fewer than {@link ROW_DROP_RATIO} of the last healthy page's rows (with at least
+ *   {@link MIN_ROWS_FOR_DROP} before). Results are only added during an event, so a big drop
+ *   usually means rows stopped matching.
+ */
+export function checkParseHealth(opts: {
+    body: string;
+    rows: LeaderboardRow[];
+    hasLastUpdate: boolean;
+    expectLastUpdate: boolean;
+    lastGood: { rows: number; hasLastUpdate: boolean } | null;
+}): ParseProblem[] {
+    const { body, rows, hasLastUpdate, expectLastUpdate, lastGood } = opts;
+    const problems: ParseProblem[] = [];
+
+    if (rows.length === 0 && countResultTokens(body) > 0) problems.push('noRows');
+    if (!hasLastUpdate && (expectLastUpdate || lastGood?.hasLastUpdate)) problems.push('noLastUpdate');
+    if (
+        rows.length > 0 &&
+        lastGood &&
+        lastGood.rows >= MIN_ROWS_FOR_DROP &&
+        rows.length < lastGood.rows * ROW_DROP_RATIO
+    ) {
+        problems.push('rowDrop');
+    }
+    return problems;
+}
+
+/**
+ * Describes parse problems for the status line.
+ * @param problems - Problems from {@link checkParseHealth}
+ * @param lastGoodRows - Rows in the last healthy page, if any
+ * @returns Text like "no rows on a page with results; keeping the last good results (12 rows)"
+ */
+export function describeParseProblems(problems: ParseProblem[], lastGoodRows: number | null) {
+    const parts = problems.map((p) =>
+        p === 'noRows' ? 'no rows on a page with results' : p === 'noLastUpdate' ? 'no Last Data Update' : 'row count dropped sharply'
+    );
+    const keeping = lastGoodRows !== null ? `keeping the last good results (${lastGoodRows} rows)` : 'no good results yet';
+    return `${parts.join(', ')}; ${keeping}`;
+}
+
+/**
+ * Keeps an offending page, newest first, skipping a page that's already kept for the event.
+ * @param failures - Kept failures
+ * @param failure - The new failure
+ * @returns The updated list, capped at {@link MAX_PARSE_FAILURES}
+ */
+export function recordParseFailure(failures: ParseFailure[], failure: ParseFailure) {
+    if (failures.some((f) => f.eventName === failure.eventName && f.html === failure.html)) return failures;
+    return [failure, ...failures].slice(0, MAX_PARSE_FAILURES);
+}
@@ -3,6 +3,22 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 export const STORAGE_KEYS = {
     samples: 'mobilescout:samples',
     completions: 'mobilescout:completions',
+    arrivals: 'mobilescout:arrivals',
+    actionLog: 'mobilescout:dynamic:actionLog',
+    alertRules: 'mobilescout:dynamic:alertRules',
+    alertLog: 'mobilescout:dynamic:alertLog',
+    dynamicEvents: 'mobilescout:dynamic:events',
+    dynamicSelectedEvent: 'mobilescout:dynamic:selectedEvent',
+    rateModel: 'mobilescout:dynamic:rateModel',
+    snapshotSettings: 'mobilescout:dynamic:snapshotSettings',
+    pollSettings: 'mobilescout:dynamic:pollSettings',
+    parseFailures: 'mobilescout:dynamic:parseFailures',
+    eventCatalog: 'mobilescout:eventCatalog',
+    competition: 'mobilescout:competition',
+    watchlist: 'mobilescout:watchlist',
+    watchHistory: 'mobilescout:watchlist:history',
+    leaderboardArchive: 'mobilescout:archive:captures',
+    archiveSettings: 'mobilescout:archive:settings',
 };
 
 /**
@@ -30,9 +46,42 @@ export async function saveArray<T>(key: string, arr: T[]) {
 export async function loadArray<T>(key: string): Promise<T[]> {
     try {
         const raw = await AsyncStorage.getItem(key);
-        return raw ? JSON.parse(raw) : [];
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
     } catch (e) {
         console.warn('loadArray failed', key, e);
         return [];
     }
 }
+
+/**
+ * Saves a single JSON-serializable value to AsyncStorage.
+ * @template T - The type of the value.
+ * @param key - The storage key under which to save the value.
+ * @param value - The value to be saved.
+ * @returns A promise that resolves when the value has been saved, or when an error is caught and logged.
+ */
+export async function saveValue<T>(key: string, value: T) {
+    try {
+        await AsyncStorage.setItem(key, JSON.stringify(value));
+    } catch (e) {
+        console.warn('saveValue failed', key, e);
+    }
+}
+
+/**
+ * Loads a single JSON value from AsyncStorage by key.
+ * @template T The type of the stored value.
+ * @param key The storage key to retrieve.
+ * @param fallback The value returned when the key doesn't exist or parsing fails.
+ * @returns A promise that resolves to the parsed value, or `fallback`.
+ */
+export async function loadValue<T>(key: string, fallback: T): Promise<T> {
+    try {
+        const raw = await AsyncStorage.getItem(key);
+        return raw == null ? fallback : (JSON.parse(raw) as T);
+    } catch (e) {
+        console.warn('loadValue failed', key, e);
+        return fallback;
+    }
+}
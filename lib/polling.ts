@@ -0,0 +1,95 @@
+/**
+ * SAE leaderboard polling settings. `intervalSec` is the normal gap between polls; with
+ * `fasterWhenActive` the gap halves (down to {@link MIN_POLL_SEC}) while the site is updating.
+ */
+export type PollSettings = { intervalSec: number; fasterWhenActive: boolean };
+
+export const DEFAULT_POLL_SETTINGS: PollSettings = { intervalSec: 20, fasterWhenActive: true };
+
+export const POLL_INTERVAL_OPTIONS_SEC = [10, 20, 30, 60];
+
+/** Never poll more often than this, even while the site is active. */
+export const MIN_POLL_SEC = 10;
+
+/** Longest wait between retries after repeated errors. */
+export const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+/** The site counts as active for this long after its content last changed. */
+export const ACTIVE_WINDOW_MS = 2 * 60 * 1000;
+
+/** Cache validators from the last full response, sent back to ask for the page only if it changed. */
+export type PollValidators = { etag: string | null; lastModified: string | null };
+
+/**
+ * Works out how long to wait before the next poll.
+ *
+ * @param opts.settings - Polling settings
+ * @param opts.consecutiveErrors - Failed polls in a row (0 after a success)
+ * @param opts.lastChangeMs - Device time the page content last changed, or null if not seen yet
+ * @param opts.nowMs - Current timestamp in milliseconds
+ * @param opts.random - Random number in [0, 1) for jitter; defaults to `Math.random()`
+ * @returns The delay in milliseconds
+ *
+ * @remarks
+ * After errors the delay doubles per failure from the normal interval up to {@link MAX_BACKOFF_MS},
+ * and a random half of it is taken off so several phones at the same event don't retry in step.
+ */
+export function nextPollDelayMs(opts: {
+    settings: PollSettings;
+    consecutiveErrors: number;
+    lastChangeMs: number | null;
+    nowMs: number;
+    random?: number;
+}) {
+    const { settings, consecutiveErrors, lastChangeMs, nowMs, random = Math.random() } = opts;
+    const baseMs = Math.max(MIN_POLL_SEC, settings.intervalSec) * 1000;
+
+    if (consecutiveErrors > 0) {
+        const backoff = Math.min(MAX_BACKOFF_MS, baseMs * 2 ** Math.min(consecutiveErrors, 16));
+        return Math.round(backoff * (0.5 + random / 2));
+    }
+
+    const active = lastChangeMs !== null && nowMs - lastChangeMs <= ACTIVE_WINDOW_MS;
+    if (settings.fasterWhenActive && active) return Math.max(MIN_POLL_SEC * 1000, baseMs / 2);
+    return baseMs;
+}
+
+/**
+ * Request headers that let the server answer "304 Not Modified" when the page hasn't changed.
+ * @param validators - Validators from the last full response, if any
+ * @returns `If-None-Match` / `If-Modified-Since` headers for whichever validators are known
+ */
+export function conditionalHeaders(validators: PollValidators | null): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (validators?.etag) headers['If-None-Match'] = validators.etag;
+    if (validators?.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+    return headers;
+}
+
+/**
+ * A fast 32-bit FNV-1a hash, used to tell whether a downloaded page differs from the last one
+ * when the server doesn't support conditional requests.
+ * @param text - The page content
+ * @returns The hash as a hex string
+ */
+export function contentHash(text: string) {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Countdown text for the next poll.
+ * @param nextPollMs - When the next poll is due, or undefined if none is scheduled
+ * @param nowMs - Current timestamp in milliseconds
+ * @returns Text like "Next poll in 12s", or an empty string
+ */
+export function describeNextPoll(nextPollMs: number | undefined, nowMs: number) {
+    if (nextPollMs === undefined) return '';
+    const sec = Math.max(0, Math.ceil((nextPollMs - nowMs) / 1000));
+    if (sec === 0) return 'Polling…';
+    return sec >= 60 ? `Next poll in ${Math.floor(sec / 60)}m ${sec % 60}s` : `Next poll in ${sec}s`;
+}
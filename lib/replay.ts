@@ -0,0 +1,184 @@
+import { parseLeaderboardRows } from '@/lib/leaderboard';
+import { parseLastDataUpdate, type ResultsSource } from '@/lib/resultsSources';
+import { computeRunRate, DEFAULT_RATE_MODEL, type RateModelConfig } from '@/lib/runRate';
+import { carsWithResults, updateSeenCars, type SAESeen } from '@/lib/saeResults';
+
+/** One recorded leaderboard page and when it was fetched. */
+export type ReplayCapture = { capturedAt: string; html: string; eventCode?: string };
+
+/** Replay speeds offered in the app; rates run this many times faster than real life. */
+export const REPLAY_SPEEDS = [1, 5, 20];
+
+/** One step of a headless replay. */
+export type ReplayStep = { capturedAt: string; rows: number; newlySeen: number; seen: number; rate: number };
+
+function byTime(a: ReplayCapture, b: ReplayCapture) {
+    return Date.parse(a.capturedAt) - Date.parse(b.capturedAt);
+}
+
+/**
+ * Reads a capture bundle: a JSON array of captures or an object with a `captures` array.
+ * @param text - The bundle file's content
+ * @returns Valid captures, oldest first
+ * @throws {Error} If the text isn't a capture bundle
+ */
+export function parseReplayBundle(text: string): ReplayCapture[] {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('Replay bundle is not valid JSON');
+    }
+    const list = Array.isArray(raw) ? raw : (raw as { captures?: unknown })?.captures;
+    if (!Array.isArray(list)) throw new Error('Replay bundle has no captures');
+
+    return list
+        .filter(
+            (c): c is ReplayCapture =>
+                !!c && typeof c.html === 'string' && typeof c.capturedAt === 'string' && Number.isFinite(Date.parse(c.capturedAt))
+        )
+        .map((c) => ({ capturedAt: c.capturedAt, html: c.html, ...(c.eventCode ? { eventCode: c.eventCode } : {}) }))
+        .sort(byTime);
+}
+
+/**
+ * Reads the capture time from a capture file name, for replaying a directory of saved pages.
+ * Accepts ISO-like stamps with `-` for `:` (`ACCEL-2026-05-16T15-42-17Z.html`) and compact ones
+ * (`20260516-154217.html`, read as UTC).
+ * @param fileName - The file name
+ * @returns The capture time in ISO format, or null if the name has no timestamp
+ */
+export function captureTimeFromFileName(fileName: string): string | null {
+    const iso = fileName.match(/(\d{4})-(\d{2})-(\d{2})T(\d{2})[-:](\d{2})[-:](\d{2})(?:\.(\d{1,3}))?(Z)?/);
+    const compact = fileName.match(/(\d{4})(\d{2})(\d{2})[-_T](\d{2})(\d{2})(\d{2})/);
+    const m = iso ?? compact;
+    if (!m) return null;
+
+    const [year, month, day, hour, minute, second] = m.slice(1, 7).map(Number);
+    const ms = Date.UTC(year, month - 1, day, hour, minute, second, iso?.[7] ? Number(iso[7].padEnd(3, '0')) : 0);
+    return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
+
+/**
+ * Builds captures from a directory of saved files: `.html` pages timed by their file names and
+ * `.json` capture bundles. Files that are neither, or pages without a timestamp in the name, are skipped.
+ * @param files - File names and contents
+ * @returns The captures, oldest first
+ */
+export function capturesFromFiles(files: { name: string; content: string }[]): ReplayCapture[] {
+    const captures: ReplayCapture[] = [];
+    for (const { name, content } of files) {
+        if (/\.json$/i.test(name)) {
+            try {
+                captures.push(...parseReplayBundle(content));
+            } catch {
+                // Not a bundle; skip it like any other stray file
+            }
+        } else if (/\.html?$/i.test(name)) {
+            const capturedAt = captureTimeFromFileName(name);
+            if (capturedAt) captures.push({ capturedAt, html: content });
+        }
+    }
+    return captures.sort(byTime);
+}
+
+/**
+ * Maps between device time and capture time for a replay started at `startMs`.
+ * @param captures - The captures, oldest first
+ * @param speed - Capture seconds played per real second
+ * @param startMs - Device time the replay started
+ * @returns Helpers for the capture time now, which capture is due and when, and the replay's end
+ */
+export function replayClock(captures: ReplayCapture[], speed: number, startMs: number) {
+    const t0 = captures.length > 0 ? Date.parse(captures[0].capturedAt) : startMs;
+    const last = captures.length > 0 ? Date.parse(captures[captures.length - 1].capturedAt) : t0;
+
+    const captureTimeAt = (deviceMs: number) => t0 + (deviceMs - startMs) * speed;
+
+    return {
+        captureTimeAt,
+        /** Index of the newest capture taken at or before the capture time for `deviceMs` (-1 before the first). */
+        dueIndex(deviceMs: number) {
+            const t = captureTimeAt(deviceMs);
+            let i = -1;
+            while (i + 1 < captures.length && Date.parse(captures[i + 1].capturedAt) <= t) i++;
+            return i;
+        },
+        /** Device time at which capture `index` is due. */
+        dueAtMs: (index: number) => startMs + (Date.parse(captures[index].capturedAt) - t0) / speed,
+        /** Device time at which the last capture is played. */
+        endMs: startMs + (last - t0) / speed,
+    };
+}
+
+/**
+ * A results source that plays captures on a replay clock instead of fetching: each fetch returns
+ * the capture due now, or an unchanged page until the next one is due.
+ *
+ * @param captures - SAE leaderboard captures, oldest first
+ * @param speed - Capture seconds played per real second
+ * @param startMs - Device time the replay started
+ * @returns The source
+ *
+ * @remarks
+ * The reported clock offset is capture time minus device time, so a capture's "Last Data Update"
+ * lands on the device clock as it did when captured and freshness checks work as they did live.
+ */
+export function createReplaySource(captures: ReplayCapture[], speed: number, startMs: number): ResultsSource {
+    const clock = replayClock(captures, speed, startMs);
+    let played = -1;
+
+    return {
+        label: 'Replay',
+        fetch: async () => {
+            const now = Date.now();
+            const due = clock.dueIndex(now);
+            const changed = due > played;
+            played = due;
+            return {
+                body: changed ? captures[due].html : null,
+                validators: { etag: null, lastModified: null },
+                clockOffsetMs: clock.captureTimeAt(now) - now,
+            };
+        },
+        parse: parseLeaderboardRows,
+        lastUpdate: parseLastDataUpdate,
+        reportsLastUpdate: true,
+    };
+}
+
+/**
+ * Runs captures through the leaderboard pipeline without the app: parse, update seen cars, compute
+ * the SAE run rate, one step per capture in capture time. Used to rehearse and to reproduce
+ * parsing bugs from field captures.
+ *
+ * @param captures - The captures, oldest first
+ * @param model - Rate model to apply; defaults to {@link DEFAULT_RATE_MODEL}
+ * @returns One step per capture, plus the seen cars at the end
+ *
+ * @remarks
+ * Like the first live poll, the first capture counts every car already on the board as just seen.
+ */
+export function runReplay(captures: ReplayCapture[], model: RateModelConfig = DEFAULT_RATE_MODEL) {
+    let seen: SAESeen[] = [];
+    const steps: ReplayStep[] = [];
+
+    for (const capture of captures) {
+        const rows = parseLeaderboardRows(capture.html);
+        const { updated, newlyAdded } = updateSeenCars(seen, carsWithResults(rows), capture.capturedAt);
+        seen = updated;
+
+        const { rate } = computeRunRate({
+            useSAE: true,
+            saeFresh: true,
+            saeSeen: seen,
+            completions: [],
+            manualStartTs: null,
+            nowMs: Date.parse(capture.capturedAt),
+            model,
+        });
+        steps.push({ capturedAt: capture.capturedAt, rows: rows.length, newlySeen: newlyAdded, seen: seen.length, rate });
+    }
+
+    return { steps, seen };
+}
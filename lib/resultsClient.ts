@@ -0,0 +1,200 @@
+import { Platform } from 'react-native';
+import { conditionalHeaders, type PollValidators } from '@/lib/polling';
+import type { ResultsFetch } from '@/lib/resultsSources';
+import { clockOffsetFromDateHeader } from '@/lib/venueTime';
+
+/** How a results URL is reached: straight from the device, through the results proxy, or a local file. */
+export type FetchRoute = 'direct' | 'proxy' | 'file';
+
+/** A URL to fetch results from and how it's reached. */
+export type FetchTarget = { url: string; route: FetchRoute };
+
+/**
+ * Why a results fetch failed:
+ * - `offline`: no connection, or the host name didn't resolve
+ * - `timeout`: no answer within {@link FETCH_TIMEOUT_MS}
+ * - `http`: the site answered with an error status
+ * - `cors`: the browser blocked a direct read of a site that doesn't allow cross-origin requests
+ * - `proxy`: the proxy was unreachable, or couldn't get the page from upstream
+ * - `parse`: a page arrived but couldn't be read
+ * - `other`: anything else (e.g. a missing results file)
+ */
+export type FetchFailureKind = 'offline' | 'timeout' | 'http' | 'cors' | 'proxy' | 'parse' | 'other';
+
+/** One failed try at one URL. */
+export type FetchAttempt = FetchTarget & { kind: FetchFailureKind; status: number | null; message: string };
+
+/** Give up on a URL that hasn't answered after this long. */
+export const FETCH_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * A results fetch that failed on every URL tried. `kind` is the failure on the preferred URL,
+ * which is what decides whether to wait or switch to Manual.
+ */
+export class ResultsFetchError extends Error {
+    readonly kind: FetchFailureKind;
+    readonly attempts: FetchAttempt[];
+
+    constructor(attempts: FetchAttempt[]) {
+        super(attempts.map((a) => `${a.route} ${a.url}: ${a.message}`).join('; ') || 'Results fetch failed');
+        this.name = 'ResultsFetchError';
+        this.kind = attempts[0]?.kind ?? 'other';
+        this.attempts = attempts;
+    }
+}
+
+/** Thrown inside {@link fetchResultsPage} for an error status, so it's told apart from a network failure. */
+class HttpStatusError extends Error {
+    constructor(readonly status: number) {
+        super(`HTTP ${status}`);
+    }
+}
+
+/**
+ * Works out why a fetch of one URL failed.
+ *
+ * @param error - What the fetch threw
+ * @param target - The URL and how it was reached
+ * @param opts.timedOut - Whether the fetch was aborted for taking longer than {@link FETCH_TIMEOUT_MS}
+ * @param opts.platform - `Platform.OS`; defaults to the running platform
+ * @param opts.online - `navigator.onLine` on web, if known
+ * @returns The failed attempt
+ *
+ * @remarks
+ * Browsers report a CORS block and a lost connection as the same `TypeError`, so on web a failed
+ * direct read counts as CORS unless the browser says it's offline. A proxy that can't be reached
+ * or answers with an error counts as a proxy failure; the proxy answers 502 when SAE itself failed.
+ */
+export function classifyFetchFailure(
+    error: unknown,
+    target: FetchTarget,
+    opts: { timedOut: boolean; platform?: string; online?: boolean }
+): FetchAttempt {
+    const { timedOut, platform = Platform.OS, online } = opts;
+    const attempt = (kind: FetchFailureKind, message: string, status: number | null = null): FetchAttempt => ({
+        ...target,
+        kind,
+        status,
+        message,
+    });
+
+    if (timedOut) return attempt('timeout', `timed out after ${Math.round(FETCH_TIMEOUT_MS / 1000)}s`);
+    if (error instanceof HttpStatusError) {
+        const { status } = error;
+        if (target.route !== 'proxy') return attempt('http', `HTTP ${status}`, status);
+        return attempt('proxy', status === 502 ? 'proxy couldn’t reach SAE (502)' : `proxy answered ${status}`, status);
+    }
+    if (error instanceof TypeError) {
+        if (online === false) return attempt('offline', 'device is offline');
+        if (target.route === 'proxy') return attempt('proxy', 'proxy unreachable');
+        if (platform === 'web' && target.route === 'direct') return attempt('cors', 'blocked by CORS');
+        return attempt('offline', 'no connection or DNS lookup failed');
+    }
+    return attempt('other', error instanceof Error ? error.message : String(error));
+}
+
+/** `navigator.onLine` in a browser; undefined elsewhere. */
+function browserOnline(): boolean | undefined {
+    return typeof navigator !== 'undefined' && typeof navigator.onLine === 'boolean' ? navigator.onLine : undefined;
+}
+
+/**
+ * Fetches a results page with conditional headers, trying each URL in turn until one answers.
+ *
+ * @param targets - The URLs to try, preferred first
+ * @param validators - ETag / Last-Modified from the last full response, sent as conditional headers.
+ * @returns The page (null if the server answered 304 Not Modified), the response's cache validators,
+ *          the URL that answered and, when the response carries a `Date` header, how far the server's
+ *          clock is ahead of the device's.
+ * @throws {ResultsFetchError} If every URL fails, with why each one did.
+ */
+export async function fetchResultsPage(targets: FetchTarget[], validators: PollValidators | null): Promise<ResultsFetch> {
+    const attempts: FetchAttempt[] = [];
+
+    for (const target of targets) {
+        const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller?.abort();
+        }, FETCH_TIMEOUT_MS);
+
+        try {
+            const sentMs = Date.now();
+            const res = await fetch(target.url, {
+                cache: 'no-store' as any,
+                headers: conditionalHeaders(validators),
+                signal: controller?.signal,
+            });
+            const clockOffsetMs = clockOffsetFromDateHeader(res.headers?.get('date'), sentMs, Date.now());
+            if (res.status === 304 && validators) return { body: null, validators, clockOffsetMs, from: target };
+            if (!res.ok) throw new HttpStatusError(res.status);
+            const body = await res.text();
+            return {
+                body,
+                validators: { etag: res.headers?.get('etag') ?? null, lastModified: res.headers?.get('last-modified') ?? null },
+                clockOffsetMs,
+                from: target,
+            };
+        } catch (e) {
+            attempts.push(classifyFetchFailure(e, target, { timedOut, online: browserOnline() }));
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+    throw new ResultsFetchError(attempts);
+}
+
+/**
+ * Wraps a failure to read a fetched page, noting where the page came from.
+ * @param error - What the parser threw
+ * @param from - Where the page came from, if known
+ * @returns The error to report
+ */
+export function pageReadError(error: unknown, from: FetchTarget | undefined): ResultsFetchError {
+    const message = `page unreadable (${error instanceof Error ? error.message : String(error)})`;
+    return new ResultsFetchError([{ ...(from ?? { url: '', route: 'direct' }), kind: 'parse', status: null, message }]);
+}
+
+/** What a scout should do about each kind of failure. */
+const ADVICE: Record<FetchFailureKind, string> = {
+    offline: 'no signal; use Manual until it’s back',
+    timeout: 'site is slow; wait, or use Manual if it keeps up',
+    http: 'site error; wait, or use Manual if it keeps up',
+    cors: 'web needs the results proxy (npm run proxy); use Manual for now',
+    proxy: 'check the laptop running the proxy, or use Manual',
+    parse: 'use Manual and report the page',
+    other: 'Manual still works',
+};
+
+/**
+ * Formats how long ago the last successful fetch was.
+ * @param lastSuccessMs - Device time of the last success, or null if there hasn't been one
+ * @param nowMs - Current timestamp in milliseconds
+ * @returns Text like "last success 3 min ago" or "no success yet"
+ */
+export function describeLastSuccess(lastSuccessMs: number | null, nowMs: number) {
+    if (lastSuccessMs === null) return 'no success yet';
+    const sec = Math.max(0, Math.round((nowMs - lastSuccessMs) / 1000));
+    return sec < 60 ? `last success ${sec}s ago` : `last success ${Math.round(sec / 60)} min ago`;
+}
+
+/**
+ * The status line for a failed poll: what failed at each URL tried, how long since the last
+ * success and whether to wait or switch to Manual.
+ *
+ * @param label - The source's label, e.g. "SAE"
+ * @param error - What the poll threw
+ * @param lastSuccessMs - Device time of the last successful fetch, or null
+ * @param nowMs - Current timestamp in milliseconds
+ * @returns Text like "SAE fetch failed — proxy http://…: proxy unreachable; direct https://…: blocked by CORS · last success 2 min ago · check the laptop running the proxy, or use Manual"
+ */
+export function describeFetchFailure(label: string, error: unknown, lastSuccessMs: number | null, nowMs: number) {
+    const since = describeLastSuccess(lastSuccessMs, nowMs);
+    if (!(error instanceof ResultsFetchError)) {
+        const message = error instanceof Error ? error.message : String(error);
+        return `${label} fetch failed — ${message} · ${since} · ${ADVICE.other}`;
+    }
+    const tried = error.attempts.map((a) => (a.url ? `${a.route} ${a.url}: ${a.message}` : a.message)).join('; ');
+    return `${label} fetch failed — ${tried} · ${since} · ${ADVICE[error.kind]}`;
+}
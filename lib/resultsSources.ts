@@ -0,0 +1,321 @@
+import { Platform } from 'react-native';
+import { parseLeaderboardRows, parseResultTable, type LeaderboardRow } from '@/lib/leaderboard';
+import type { PollValidators } from '@/lib/polling';
+import { fetchResultsPage, type FetchTarget } from '@/lib/resultsClient';
+import { zonedTimeToMs } from '@/lib/venueTime';
+import * as FileSystem from 'expo-file-system/legacy';
+
+/**
+ * Where an event's results come from: the SAE leaderboard (using the event's code from the
+ * catalogue), a CSV / JSON / HTML results URL, or a local results file.
+ */
+export type ResultsSourceConfig = { kind: 'sae' } | { kind: 'url'; url: string } | { kind: 'file'; path: string };
+
+export type ResultsSourceKind = ResultsSourceConfig['kind'];
+
+export const DEFAULT_RESULTS_SOURCE: ResultsSourceConfig = { kind: 'sae' };
+
+/**
+ * A fetched results page; `body` is null when the source reports it unchanged since the last fetch.
+ * `from` is the URL that answered, for sources fetched over the network or from a file.
+ */
+export type ResultsFetch = {
+    body: string | null;
+    validators: PollValidators;
+    clockOffsetMs: number | null;
+    from?: FetchTarget;
+};
+
+/** A parsed "Last Data Update": time in milliseconds and the text it was read from. */
+export type LastUpdate = { ms: number; raw: string };
+
+/**
+ * A results source the Dynamic tab polls: fetches a page, parses its rows and reads when the
+ * results were last updated.
+ */
+export type ResultsSource = {
+    /** Short name for status lines, e.g. "SAE". */
+    label: string;
+    /**
+     * Fetches the current page.
+     * @param validators - Validators from the last full fetch, to skip unchanged pages
+     */
+    fetch: (validators: PollValidators | null) => Promise<ResultsFetch>;
+    parse: (body: string) => LeaderboardRow[];
+    /**
+     * Reads when the results were last updated.
+     * @param timeZone - The venue's IANA zone, for times written without one
+     */
+    lastUpdate: (body: string, timeZone: string) => LastUpdate | null;
+    /** Whether every page carries a "Last Data Update", so a page without one means the parser missed it. */
+    reportsLastUpdate: boolean;
+};
+
+export const SAE_BASE = 'https://results.bajasae.net/Leaderboard.aspx?Event=';
+export const SAE_PROXY_BASE =
+    (typeof process !== 'undefined' ? (process as any).env?.EXPO_PUBLIC_SAE_PROXY_BASE : undefined) as
+    | string
+    | undefined;
+
+/**
+ * Parses the "Last Data Update" timestamp from HTML content.
+ *
+ * Extracts and converts a date-time string in the format "MM/DD/YYYY HH:MM:SS AM/PM"
+ * from the provided HTML, removing all tags and normalizing whitespace.
+ *
+ * @param html - The HTML string to parse for the last data update timestamp
+ * @param timeZone - The venue's IANA time zone the site reports in; blank uses the device's zone
+ * @returns An object containing the timestamp in milliseconds and the raw formatted string,
+ *          or null if the timestamp pattern is not found or parsing fails
+ * @returns {number} ms - Unix timestamp in milliseconds
+ * @returns {string} raw - The original formatted timestamp string (e.g., "12/25/2023 03:45:30 PM")
+ *
+ * @example
+ * const result = parseLastDataUpdate('<p>Last Data Update: 12/25/2023 03:45:30 PM</p>');
+ * // Returns: { ms: 1703505930000, raw: "12/25/2023 03:45:30 PM" }
+ */
+export function parseLastDataUpdate(html: string, timeZone = ''): { ms: number; raw: string } | null {
+    const text = html
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/gi, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    const re =
+        /Last\s*Data\s*Update\s*:\s*([0-9]{1,2}\/[0-9]{1,2}\/[0-9]{4})\s+([0-9]{1,2}:[0-9]{2}:[0-9]{2})\s*(AM|PM)/i;
+
+    const m = text.match(re);
+    if (!m) return null;
+
+    const datePart = m[1]; // MM/DD/YYYY
+    const timePart = m[2]; // HH:MM:SS
+    const ampm = m[3].toUpperCase(); // AM/PM
+
+    const [mmStr, ddStr, yyyyStr] = datePart.split('/');
+    const [hhStr, minStr, secStr] = timePart.split(':');
+
+    const mm = Number(mmStr);
+    const dd = Number(ddStr);
+    const yyyy = Number(yyyyStr);
+    let hh = Number(hhStr);
+    const min = Number(minStr);
+    const sec = Number(secStr);
+
+    if (![mm, dd, yyyy, hh, min, sec].every(Number.isFinite)) return null;
+
+    // 12h -> 24h
+    if (ampm === 'PM' && hh !== 12) hh += 12;
+    if (ampm === 'AM' && hh === 12) hh = 0;
+
+    const ms = zonedTimeToMs({ year: yyyy, month: mm, day: dd, hour: hh, minute: min, second: sec }, timeZone);
+    if (!Number.isFinite(ms)) return null;
+
+    return { ms, raw: `${datePart} ${timePart} ${ampm}` };
+}
+
+/**
+ * The SAE leaderboard URLs for an event, in the order to try them.
+ * @param eventCode - The SAE event code
+ * @returns The URLs, preferred first: one, or two when a proxy is configured
+ *
+ * @remarks
+ * - **Web**: Prefers the proxy URL (to avoid CORS issues), falls back to the direct URL
+ * - **Native**: Prefers the direct URL, falls back to the proxy URL if one is configured
+ */
+export function saeLeaderboardUrls(eventCode: string): FetchTarget[] {
+    const direct: FetchTarget = { url: `${SAE_BASE}${encodeURIComponent(eventCode)}`, route: 'direct' };
+    if (!SAE_PROXY_BASE) return [direct];
+    const proxy: FetchTarget = { url: `${SAE_PROXY_BASE}${encodeURIComponent(eventCode)}`, route: 'proxy' };
+
+    return Platform.OS === 'web' ? [proxy, direct] : [direct, proxy];
+}
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with commas, doubled quotes and line breaks.
+ * @param text - The CSV text
+ * @returns Non-empty rows of cell texts
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            if (row.some((c) => c.trim() !== '')) rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    row.push(cell);
+    if (row.some((c) => c.trim() !== '')) rows.push(row);
+    return rows;
+}
+
+/** The format of a results body, from its first character. */
+function bodyFormat(body: string): 'json' | 'html' | 'csv' {
+    const first = body.trimStart()[0];
+    if (first === '{' || first === '[') return 'json';
+    if (first === '<') return 'html';
+    return 'csv';
+}
+
+/** JSON results: an array of row objects, or `{ rows, lastUpdate }`. */
+function jsonResults(body: string): { rows: Record<string, unknown>[]; lastUpdate: unknown } {
+    const raw = JSON.parse(body);
+    if (Array.isArray(raw)) return { rows: raw, lastUpdate: undefined };
+    return {
+        rows: Array.isArray(raw?.rows) ? raw.rows : Array.isArray(raw?.results) ? raw.results : [],
+        lastUpdate: raw?.lastUpdate ?? raw?.lastDataUpdate ?? raw?.updatedAt,
+    };
+}
+
+/**
+ * Parses a generic results file: CSV with a header row, JSON rows, or a leaderboard-style HTML table.
+ * Columns are matched by header name the same way as on the SAE leaderboard, so a file only needs
+ * a car number column and a time or status column.
+ *
+ * @param body - The file content
+ * @returns The rows in file order (empty if no results were recognised)
+ */
+export function parseResultsBody(body: string): LeaderboardRow[] {
+    const format = bodyFormat(body);
+    if (format === 'html') return parseLeaderboardRows(body);
+    if (format === 'csv') return parseResultTable(parseCsv(body)) ?? [];
+
+    let rows: Record<string, unknown>[];
+    try {
+        rows = jsonResults(body).rows.filter((r) => r && typeof r === 'object');
+    } catch {
+        return [];
+    }
+    const keys = [...new Set(rows.flatMap((r) => Object.keys(r)))];
+    const table = [keys, ...rows.map((r) => keys.map((k) => (r[k] == null ? '' : String(r[k]))))];
+    return parseResultTable(table) ?? [];
+}
+
+/**
+ * Reads when a generic results file was last updated: a "Last Data Update" line (in any format),
+ * or a JSON `lastUpdate` / `lastDataUpdate` / `updatedAt` ISO time.
+ *
+ * @param body - The file content
+ * @param timeZone - The venue's IANA zone, for "Last Data Update" times
+ * @returns The update time, or null if the file doesn't say
+ */
+export function resultsBodyLastUpdate(body: string, timeZone: string): LastUpdate | null {
+    if (bodyFormat(body) === 'json') {
+        try {
+            const { lastUpdate } = jsonResults(body);
+            const ms = typeof lastUpdate === 'string' ? Date.parse(lastUpdate) : NaN;
+            return Number.isFinite(ms) ? { ms, raw: lastUpdate as string } : null;
+        } catch {
+            return null;
+        }
+    }
+    return parseLastDataUpdate(body, timeZone);
+}
+
+/** Resolves a results file path: full URIs as-is, anything else inside the app's documents. */
+function resultsFileUri(path: string) {
+    return path.includes('://') ? path : `${FileSystem.documentDirectory ?? ''}${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Reads a local results file, skipping the read when its modification time hasn't changed.
+ * On web, where there is no app file system, the path is fetched relative to the site instead.
+ */
+async function readResultsFile(path: string, validators: PollValidators | null): Promise<ResultsFetch> {
+    if (Platform.OS === 'web') return fetchResultsPage([{ url: path, route: 'direct' }], validators);
+
+    const uri = resultsFileUri(path);
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) throw new Error(`Results file not found: ${path}`);
+    const modified = info.modificationTime != null ? String(info.modificationTime) : null;
+    const next: PollValidators = { etag: null, lastModified: modified };
+
+    const from: FetchTarget = { url: uri, route: 'file' };
+
+    if (validators && modified !== null && validators.lastModified === modified) {
+        return { body: null, validators, clockOffsetMs: null, from };
+    }
+    return { body: await FileSystem.readAsStringAsync(uri), validators: next, clockOffsetMs: null, from };
+}
+
+/**
+ * Creates the source an event polls for results.
+ * @param config - The event's source choice
+ * @param saeCode - The event's SAE code from the catalogue (SAE sources only)
+ * @returns The source, or null if it can't be polled (an SAE event without a code, or a blank URL or path)
+ */
+export function createResultsSource(config: ResultsSourceConfig, saeCode: string | undefined): ResultsSource | null {
+    if (config.kind === 'sae') {
+        if (!saeCode) return null;
+        const targets = saeLeaderboardUrls(saeCode);
+        return {
+            label: 'SAE',
+            fetch: (validators) => fetchResultsPage(targets, validators),
+            parse: parseLeaderboardRows,
+            lastUpdate: parseLastDataUpdate,
+            reportsLastUpdate: true,
+        };
+    }
+    if (config.kind === 'url') {
+        const url = config.url.trim();
+        if (!url) return null;
+        return {
+            label: 'Results URL',
+            fetch: (validators) => fetchResultsPage([{ url, route: 'direct' }], validators),
+            parse: parseResultsBody,
+            lastUpdate: resultsBodyLastUpdate,
+            reportsLastUpdate: false,
+        };
+    }
+    const path = config.path.trim();
+    if (!path) return null;
+    return {
+        label: 'Results file',
+        fetch: (validators) => readResultsFile(path, validators),
+        parse: parseResultsBody,
+        lastUpdate: resultsBodyLastUpdate,
+        reportsLastUpdate: false,
+    };
+}
+
+/**
+ * A key that changes whenever an event's source would fetch something different, so the poll
+ * loop restarts when the source is edited.
+ * @param config - The event's source choice
+ * @param saeCode - The event's SAE code from the catalogue
+ * @returns The key, or null if the source can't be polled
+ */
+export function resultsSourceKey(config: ResultsSourceConfig, saeCode: string | undefined): string | null {
+    if (config.kind === 'sae') return saeCode ? `sae:${saeCode}` : null;
+    if (config.kind === 'url') return config.url.trim() ? `url:${config.url.trim()}` : null;
+    return config.path.trim() ? `file:${config.path.trim()}` : null;
+}
+
+/** Describes a source for the picker, e.g. "SAE leaderboard (ACCEL)". */
+export function describeResultsSource(config: ResultsSourceConfig, saeCode: string | undefined) {
+    if (config.kind === 'sae') return saeCode ? `SAE leaderboard (${saeCode})` : 'SAE leaderboard (no code for this event)';
+    if (config.kind === 'url') return `Results URL ${config.url}`;
+    return `Results file ${config.path}`;
+}
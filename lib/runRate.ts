@@ -0,0 +1,320 @@
+import type { Completion } from '@/lib/exporters';
+import { SAE_FRESH_WINDOW_MS, hasRecentNewCarSeen, type SAESeen } from '@/lib/saeResults';
+
+/**
+ * Where a run rate came from. The hybrid source reports `SAE + Manual` when manual taps from past
+ * stale periods are mixed in, and `Manual fallback` while the leaderboard is stale right now.
+ */
+export type RateSourceLabel = 'SAE' | 'SAE (stale)' | 'Manual' | 'SAE + Manual' | 'Manual fallback';
+
+/**
+ * `startMs` is when the rate's session started (first completion), or null without one. `parts`
+ * splits `count` into SAE results and manual completions.
+ */
+export type RunRate = {
+    rate: number;
+    count: number;
+    sourceLabel: RateSourceLabel;
+    startMs: number | null;
+    parts: { sae: number; manual: number };
+};
+
+/** A stretch of time the SAE feed was stale; `to` is null while it still is. ISO timestamps. */
+export type FallbackPeriod = { from: string; to: string | null };
+
+/** Fallback periods kept per event; older ones are dropped. */
+const MAX_FALLBACK_PERIODS = 100;
+
+/**
+ * Minutes until the current line clears. `likely` uses the point estimates; `best`/`worst` use the
+ * edges of the rate uncertainty band. Infinity means the line isn't draining (arrivals keep up with
+ * runs); undefined means there is no run rate yet.
+ */
+export type EtaRange = { likely: number | undefined; best: number | undefined; worst: number | undefined };
+
+/**
+ * How completions are turned into a rate:
+ * - `cumulative`: everything since the session started, divided by the elapsed time
+ * - `window`: only completions in the last `windowMin` minutes
+ * - `ewma`: exponentially weighted, with `windowMin` as the time constant
+ */
+export type RateModel = 'cumulative' | 'window' | 'ewma';
+
+export type RateModelConfig = { model: RateModel; windowMin: number };
+
+export const DEFAULT_RATE_MODEL: RateModelConfig = { model: 'cumulative', windowMin: 10 };
+
+export const RATE_WINDOW_OPTIONS_MIN = [5, 10, 15, 30];
+
+/** Shortest elapsed time a rate is divided by, so the first completion doesn't read as a huge rate. */
+const MIN_ELAPSED_MIN = 0.25;
+
+/** z-score of the best/worst ETA band (roughly an 80% interval). */
+const ETA_BAND_Z = 1.28;
+
+/**
+ * Short human-readable description of a rate model, e.g. for the Metrics card.
+ * @param config - The rate model and window
+ * @returns "cumulative", "last 10 min" or "smoothed 10 min"
+ */
+export function describeRateModel(config: RateModelConfig) {
+    if (config.model === 'window') return `last ${config.windowMin} min`;
+    if (config.model === 'ewma') return `smoothed ${config.windowMin} min`;
+    return 'cumulative';
+}
+
+/**
+ * Computes a rate in cars per minute from completion times using the given model.
+ *
+ * @param times - Completion times in milliseconds
+ * @param startMs - When the session started (usually the first completion)
+ * @param nowMs - Current timestamp in milliseconds
+ * @param config - The rate model and window
+ * @returns Cars per minute
+ *
+ * @remarks
+ * While the session is shorter than the window, the window and smoothed models divide by the
+ * elapsed time instead, so they agree with the cumulative rate early on. The smoothed model is a
+ * decaying-kernel estimate: each completion counts `exp(-age / windowMin)`, normalised by the
+ * portion of the kernel the session covers.
+ */
+export function rateFromTimes(times: number[], startMs: number, nowMs: number, config: RateModelConfig) {
+    const elapsedMin = Math.max(MIN_ELAPSED_MIN, (nowMs - startMs) / 60000);
+    const windowMin = Math.max(MIN_ELAPSED_MIN, config.windowMin);
+
+    if (config.model === 'window') {
+        const cutoff = nowMs - windowMin * 60000;
+        const inWindow = times.filter((t) => t >= cutoff && t <= nowMs).length;
+        return inWindow / Math.min(windowMin, elapsedMin);
+    }
+
+    if (config.model === 'ewma') {
+        const weight = times
+            .filter((t) => t <= nowMs)
+            .reduce((sum, t) => sum + Math.exp(-(nowMs - t) / 60000 / windowMin), 0);
+        const coverage = 1 - Math.exp(-elapsedMin / windowMin);
+        return weight / (windowMin * coverage);
+    }
+
+    return times.length / elapsedMin;
+}
+
+/**
+ * Determines whether SAE leaderboard data is fresh enough to drive the run rate.
+ * @param seen - Cars seen on the leaderboard for the event
+ * @param lastUpdateMs - The site's parsed "Last Data Update" time, or null if it wasn't found
+ * @param nowMs - Current timestamp in milliseconds
+ * @returns True if the site updated within the freshness window, or (without a site timestamp)
+ *          if a new car was seen within it
+ */
+export function isSaeFresh(seen: SAESeen[], lastUpdateMs: number | null, nowMs: number) {
+    if (lastUpdateMs == null) {
+        // if we couldn't parse the site's timestamp, fall back to the “seen recently” heuristic
+        return hasRecentNewCarSeen(seen, nowMs);
+    }
+    const age = nowMs - lastUpdateMs;
+    return age >= 0 && age <= SAE_FRESH_WINDOW_MS;
+}
+
+/**
+ * Estimates when SAE data went stale: the freshness window after the site's last update, or after
+ * the last new car was seen when the site timestamp is missing.
+ * @param seen - Cars seen on the leaderboard for the event
+ * @param lastUpdateMs - The site's parsed "Last Data Update" time, or null if it wasn't found
+ * @param nowMs - Current timestamp in milliseconds
+ * @returns The time the data went stale in milliseconds, never later than `nowMs`
+ */
+export function saeStaleSinceMs(seen: SAESeen[], lastUpdateMs: number | null, nowMs: number) {
+    const lastNewCarMs = Math.max(
+        ...seen.filter((s) => !s.stale).map((s) => new Date(s.firstSeenTs).getTime()).filter((t) => Number.isFinite(t))
+    );
+    const lastFreshMs = lastUpdateMs ?? (Number.isFinite(lastNewCarMs) ? lastNewCarMs : nowMs);
+    return Math.min(nowMs, lastFreshMs + SAE_FRESH_WINDOW_MS);
+}
+
+/**
+ * Opens or closes the event's current fallback period after an SAE poll.
+ * @param periods - Fallback periods so far, oldest first
+ * @param fresh - Whether the poll found fresh SAE data
+ * @param staleSinceMs - When the data went stale (see {@link saeStaleSinceMs}); used to open a period
+ * @param nowMs - Current timestamp in milliseconds; used to close a period
+ * @returns The updated periods (the same array when nothing changed)
+ */
+export function updateFallbackPeriods(
+    periods: FallbackPeriod[],
+    fresh: boolean,
+    staleSinceMs: number,
+    nowMs: number
+): FallbackPeriod[] {
+    const last = periods[periods.length - 1];
+    const open = !!last && last.to === null;
+
+    if (fresh) return open ? [...periods.slice(0, -1), { ...last, to: new Date(nowMs).toISOString() }] : periods;
+    if (open) return periods;
+    return [...periods, { from: new Date(Math.min(staleSinceMs, nowMs)).toISOString(), to: null }].slice(
+        -MAX_FALLBACK_PERIODS
+    );
+}
+
+/**
+ * Whether the event is currently falling back to manual taps (its last fallback period is open).
+ * @param periods - Fallback periods, oldest first
+ * @returns True while the SAE feed is stale
+ */
+export function isFallbackOpen(periods: FallbackPeriod[]) {
+    return periods.length > 0 && periods[periods.length - 1].to === null;
+}
+
+function inFallbackPeriod(t: number, periods: FallbackPeriod[], nowMs: number) {
+    return periods.some((p) => {
+        const to = p.to === null ? nowMs : new Date(p.to).getTime();
+        return t >= new Date(p.from).getTime() && t <= to;
+    });
+}
+
+/**
+ * Computes the run rate for one event from SAE results, manual completions, or both (hybrid).
+ *
+ * @param opts.useSAE - Whether the event is driven by the SAE leaderboard (SAE mode, online, known event code)
+ * @param opts.saeFresh - Whether the SAE data is currently fresh (see {@link isSaeFresh})
+ * @param opts.saeSeen - Cars seen on the leaderboard; stale entries are ignored
+ * @param opts.completions - Manual completions for this event only
+ * @param opts.manualStartTs - Start of the manual session (first completion), or null
+ * @param opts.nowMs - Current timestamp in milliseconds
+ * @param opts.model - Rate model to apply; defaults to {@link DEFAULT_RATE_MODEL}
+ * @param opts.hybrid - With `useSAE`, fall back to manual completions while the feed is stale
+ * @param opts.fallback - The event's fallback periods (see {@link updateFallbackPeriods}); hybrid only
+ * @returns The rate in cars per minute, the number of completions it is based on and where it came from
+ *
+ * @remarks
+ * The hybrid rate merges SAE results with the manual completions recorded inside fallback periods.
+ * Manual taps while the feed is fresh are left out, and so are `backfill` results (cars that were
+ * posted when the feed caught up after a fallback period), because the taps already counted them.
+ */
+export function computeRunRate(opts: {
+    useSAE: boolean;
+    saeFresh: boolean;
+    saeSeen: SAESeen[];
+    completions: Completion[];
+    manualStartTs: string | null;
+    nowMs: number;
+    model?: RateModelConfig;
+    hybrid?: boolean;
+    fallback?: FallbackPeriod[];
+}): RunRate {
+    const { useSAE, saeFresh, saeSeen, completions, manualStartTs, nowMs, model = DEFAULT_RATE_MODEL } = opts;
+
+    const saeTimes = (includeBackfill: boolean) =>
+        saeSeen
+            .filter((s) => !s.stale && (includeBackfill || !s.backfill))
+            .map((s) => new Date(s.firstSeenTs).getTime())
+            .filter((t) => Number.isFinite(t));
+
+    if (useSAE && opts.hybrid) {
+        const fallback = opts.fallback ?? [];
+        const sae = saeTimes(false);
+        const manual = completions
+            .map((c) => new Date(c.timestamp).getTime())
+            .filter((t) => Number.isFinite(t) && inFallbackPeriod(t, fallback, nowMs));
+        const times = [...sae, ...manual].sort((a, b) => a - b);
+        const parts = { sae: sae.length, manual: manual.length };
+        const sourceLabel: RateSourceLabel = !saeFresh ? 'Manual fallback' : manual.length > 0 ? 'SAE + Manual' : 'SAE';
+
+        if (times.length === 0) return { rate: 0, count: 0, sourceLabel, startMs: null, parts };
+        return { rate: rateFromTimes(times, times[0], nowMs, model), count: times.length, sourceLabel, startMs: times[0], parts };
+    }
+
+    if (useSAE) {
+        if (!saeFresh) return { rate: 0, count: 0, sourceLabel: 'SAE (stale)', startMs: null, parts: { sae: 0, manual: 0 } };
+
+        const times = saeTimes(true).sort((a, b) => a - b);
+        const parts = { sae: times.length, manual: 0 };
+
+        if (times.length === 0) return { rate: 0, count: 0, sourceLabel: 'SAE', startMs: null, parts };
+
+        return {
+            rate: rateFromTimes(times, times[0], nowMs, model),
+            count: times.length,
+            sourceLabel: 'SAE',
+            startMs: times[0],
+            parts,
+        };
+    }
+
+    const cCount = completions.length;
+    const parts = { sae: 0, manual: cCount };
+    if (cCount === 0 || !manualStartTs) return { rate: 0, count: cCount, sourceLabel: 'Manual', startMs: null, parts };
+
+    const times = completions.map((c) => new Date(c.timestamp).getTime()).filter((t) => Number.isFinite(t));
+    const start = new Date(manualStartTs).getTime();
+    return { rate: rateFromTimes(times, start, nowMs, model), count: cCount, sourceLabel: 'Manual', startMs: start, parts };
+}
+
+/**
+ * Computes the rate at which cars join the queue.
+ *
+ * @param arrivals - Arrival timestamps (ISO) for one event, from queue `+` presses
+ * @param serviceStartMs - When runs started (see {@link RunRate.startMs}), or null
+ * @param nowMs - Current timestamp in milliseconds
+ * @param model - Rate model to apply
+ * @returns Arrivals per minute and how many arrivals it is based on
+ *
+ * @remarks
+ * Arrivals logged before the first run are the line that was already there when scouting started,
+ * so only arrivals from `serviceStartMs` onward count. Without a service start the rate is 0.
+ */
+export function computeArrivalRate(
+    arrivals: string[],
+    serviceStartMs: number | null,
+    nowMs: number,
+    model: RateModelConfig = DEFAULT_RATE_MODEL
+) {
+    if (serviceStartMs == null) return { rate: 0, count: 0 };
+
+    const times = arrivals
+        .map((ts) => new Date(ts).getTime())
+        .filter((t) => Number.isFinite(t) && t >= serviceStartMs);
+    if (times.length === 0) return { rate: 0, count: 0 };
+
+    return { rate: rateFromTimes(times, serviceStartMs, nowMs, model), count: times.length };
+}
+
+/**
+ * Estimates how long until the current line clears, accounting for cars still joining it.
+ *
+ * @param opts.lineLength - Cars currently in line
+ * @param opts.serviceRate - Run rate in cars per minute
+ * @param opts.serviceCount - Completions the run rate is based on
+ * @param opts.arrivalRate - Cars joining per minute
+ * @param opts.arrivalCount - Arrivals the arrival rate is based on
+ * @returns The likely ETA and a best/worst band (see {@link EtaRange})
+ *
+ * @remarks
+ * The line drains at `serviceRate - arrivalRate`. Both rates are treated as Poisson estimates, so
+ * their relative uncertainty shrinks with `1 / sqrt(count)`; best pairs the fast edge of the run
+ * rate with the slow edge of arrivals, worst the opposite.
+ */
+export function computeEtaRange(opts: {
+    lineLength: number;
+    serviceRate: number;
+    serviceCount: number;
+    arrivalRate: number;
+    arrivalCount: number;
+}): EtaRange {
+    const { lineLength, serviceRate, serviceCount, arrivalRate, arrivalCount } = opts;
+
+    if (!(serviceRate > 0)) return { likely: undefined, best: undefined, worst: undefined };
+    if (lineLength <= 0) return { likely: 0, best: 0, worst: 0 };
+
+    const spread = (count: number) => (count > 0 ? ETA_BAND_Z / Math.sqrt(count) : 1);
+    const clearIn = (net: number) => (net > 0 ? lineLength / net : Infinity);
+
+    const serviceSpread = spread(serviceCount);
+    const arrivalSpread = spread(arrivalCount);
+
+    return {
+        likely: clearIn(serviceRate - arrivalRate),
+        best: clearIn(serviceRate * (1 + serviceSpread) - Math.max(0, arrivalRate * (1 - arrivalSpread))),
+        worst: clearIn(Math.max(0, serviceRate * (1 - serviceSpread)) - arrivalRate * (1 + arrivalSpread)),
+    };
+}
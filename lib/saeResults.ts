@@ -1,7 +1,34 @@
-export type SAESeen = { carNo: string; firstSeenTs: string };
+import { parseLeaderboardRows, type LeaderboardRow } from '@/lib/leaderboard';
+
+/**
+ * A car first seen on the leaderboard. `stale` results were restored from an old save; `backfill`
+ * results were posted when the feed caught up after a stale period, so their times are bunched.
+ * `repeat` entries are further runs by a car already seen (second attempts), so every run counts.
+ */
+export type SAESeen = { carNo: string; firstSeenTs: string; stale?: boolean; backfill?: boolean; repeat?: boolean };
 
 const BASE = 'https://results.bajasae.net/Leaderboard.aspx?Event=';
 
+/** Seen entries kept per event, newest first; a bounded history so storage doesn’t grow forever. */
+export const MAX_SAE_SEEN = 800;
+
+/** How recently the site (or a newly seen car) must have updated for SAE data to count as fresh. */
+export const SAE_FRESH_WINDOW_MS = 60 * 1000;
+
+/**
+ * Determines whether a recently seen car has been observed within the freshness window.
+ * @param seen - Array of SAESeen objects to check
+ * @param nowMs - Current timestamp in milliseconds
+ * @returns True if any non-stale car in the seen array was first observed within the freshness window, false otherwise
+ */
+export function hasRecentNewCarSeen(seen: SAESeen[], nowMs: number) {
+    return seen.some((s) => {
+        if (s.stale) return false;
+        const t = new Date(s.firstSeenTs).getTime();
+        return Number.isFinite(t) && nowMs - t <= SAE_FRESH_WINDOW_MS;
+    });
+}
+
 /**
  * Parses HTML content to extract car numbers that have completed results.
  * 
@@ -16,26 +43,44 @@ const BASE = 'https://results.bajasae.net/Leaderboard.aspx?Event=';
  * ```
  * 
  * @remarks
- * - Normalizes whitespace and strips HTML tags before parsing
- * - Matches results in format: position, car number, school/team, "OK" status, and time
- * - Only includes cars with finite, positive completion times
- * - Returns results as unique car numbers using a Set internally
+ * - Reads the page with {@link parseLeaderboardRows}
+ * - Only includes cars with an `OK` run and a finite, positive time
+ * - Returns unique car numbers in page order
  */
 export function parseCarsWithResults(html: string): string[] {
-    const text = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ');
-
-    const re = /\b(\d{1,3})\s+(\d{1,4})\s+.*?\s+OK\s+(\d+(?:\.\d+)?)\b/g;
+    return carsWithResults(parseLeaderboardRows(html));
+}
 
+/**
+ * Car numbers with a timed `OK` run, for callers that already parsed the leaderboard.
+ * @param rows - Parsed leaderboard rows
+ * @returns Unique car numbers in page order
+ */
+export function carsWithResults(rows: LeaderboardRow[]): string[] {
     const cars = new Set<string>();
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(text))) {
-        const carNo = m[2];
-        const time = Number(m[3]);
-        if (Number.isFinite(time) && time > 0) cars.add(carNo);
+    for (const row of rows) {
+        if (row.status === 'OK' && row.timeSec !== null) cars.add(row.carNo);
     }
     return [...cars];
 }
 
+/**
+ * Cross-checks car numbers recorded with manual completions against the cars the leaderboard shows.
+ * @param carNumbers - Car numbers from manual completions (blank entries are ignored)
+ * @param seen - Cars seen on the leaderboard for the same event
+ * @returns Distinct car numbers that are on the leaderboard (`matched`) and those that aren't yet (`missing`)
+ */
+export function crossCheckCarNumbers(carNumbers: (string | undefined)[], seen: SAESeen[]) {
+    const onBoard = new Set(seen.map((s) => s.carNo));
+    const matched: string[] = [];
+    const missing: string[] = [];
+
+    for (const carNo of new Set(carNumbers.map((c) => c?.trim()).filter((c): c is string => !!c))) {
+        (onBoard.has(carNo) ? matched : missing).push(carNo);
+    }
+    return { matched, missing };
+}
+
 /**
  * Fetches and parses leaderboard cars for a given SAE event.
  * @param eventCode - The SAE event code to fetch results for
@@ -57,7 +102,7 @@ export async function fetchLeaderboardCars(eventCode: string, fetchUrl?: string)
  * @param existing - The array of previously seen cars with their first seen timestamps
  * @param carsNow - The array of car numbers currently detected
  * @param nowIso - The current timestamp in ISO 8601 format
- * @returns An object containing the updated list of seen cars (limited to the most recent 500) and the count of newly added cars
+ * @returns An object containing the updated list of seen cars (limited to the most recent {@link MAX_SAE_SEEN}) and the count of newly added cars
  */
 export function updateSeenCars(
     existing: SAESeen[],
@@ -76,7 +121,6 @@ export function updateSeenCars(
         }
     }
 
-    // Keep a bounded history so storage doesn’t grow forever
-    const updated = [...additions, ...existing].slice(0, 500);
+    const updated = [...additions, ...existing].slice(0, MAX_SAE_SEEN);
     return { updated, newlyAdded };
 }
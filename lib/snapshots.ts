@@ -0,0 +1,64 @@
+import type { LineSample } from '@/lib/exporters';
+
+/**
+ * Auto-snapshot and retention settings for Dynamic Day line samples.
+ * `retentionHours` of null keeps everything up to {@link MAX_SAMPLES} / {@link MAX_SAMPLES_BYTES}.
+ */
+export type SnapshotSettings = {
+    autoEnabled: boolean;
+    intervalMin: number;
+    retentionHours: number | null;
+};
+
+export const DEFAULT_SNAPSHOT_SETTINGS: SnapshotSettings = {
+    autoEnabled: false,
+    intervalMin: 2,
+    retentionHours: 24,
+};
+
+export const SNAPSHOT_INTERVAL_OPTIONS_MIN = [1, 2, 5, 10];
+
+export const SNAPSHOT_RETENTION_OPTIONS_HOURS: (number | null)[] = [12, 24, 72, null];
+
+/** Hard cap on stored samples; a sample is a few hundred bytes, more with lanes. */
+export const MAX_SAMPLES = 2000;
+
+/**
+ * Cap on the samples' serialized size. They're saved as one AsyncStorage value on every sample,
+ * and Android can't read back values much over 2 MB.
+ */
+export const MAX_SAMPLES_BYTES = 1024 * 1024;
+
+/**
+ * Applies the retention policy to a newest-first list of samples.
+ * @param samples - Samples, newest first
+ * @param retentionHours - Drop samples older than this many hours; null keeps all of them
+ * @param nowMs - Current timestamp in milliseconds
+ * @returns The samples to keep, newest first, never more than {@link MAX_SAMPLES} or {@link MAX_SAMPLES_BYTES}
+ */
+export function pruneSamples(samples: LineSample[], retentionHours: number | null, nowMs: number) {
+    const kept =
+        retentionHours == null
+            ? samples
+            : samples.filter((s) => {
+                const t = new Date(s.timestamp).getTime();
+                return !Number.isFinite(t) || nowMs - t <= retentionHours * 3600 * 1000;
+            });
+    let bytes = 2;
+    let count = 0;
+    for (const s of kept.slice(0, MAX_SAMPLES)) {
+        bytes += JSON.stringify(s).length + 1;
+        if (bytes > MAX_SAMPLES_BYTES) break;
+        count++;
+    }
+    return count === kept.length ? kept : kept.slice(0, count);
+}
+
+/**
+ * Short label for a retention option.
+ * @param retentionHours - Hours to keep, or null for everything
+ * @returns e.g. "24 h" or "All"
+ */
+export function describeRetention(retentionHours: number | null) {
+    return retentionHours == null ? 'All' : `${retentionHours} h`;
+}
@@ -0,0 +1,127 @@
+/** Zones offered as one-tap choices in Settings; any IANA zone name can be typed in. */
+export const COMMON_VENUE_TIME_ZONES = [
+    'America/New_York',
+    'America/Chicago',
+    'America/Denver',
+    'America/Phoenix',
+    'America/Los_Angeles',
+    'America/Sao_Paulo',
+    'Asia/Kolkata',
+    'Africa/Johannesburg',
+];
+
+/** Clock offset samples kept; the reported offset is their median. */
+export const MAX_CLOCK_SAMPLES = 9;
+
+/**
+ * Checks that a time zone name is one the platform knows.
+ * @param timeZone - An IANA zone name such as "America/Chicago"
+ * @returns True if dates can be formatted in that zone
+ */
+export function isValidTimeZone(timeZone: string) {
+    if (!timeZone) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The device's own time zone.
+ * @returns An IANA zone name, or an empty string if the platform doesn't report one
+ */
+export function deviceTimeZone(): string {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone ?? '';
+    } catch {
+        return '';
+    }
+}
+
+/** How far the zone's wall clock is ahead of UTC at the given instant. */
+function zoneOffsetMs(utcMs: number, timeZone: string) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    }).formatToParts(new Date(utcMs));
+    const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+    const wallAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+    return wallAsUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time at the venue to a timestamp.
+ *
+ * @param wall - The venue's local date and time (month 1-12, hour 0-23)
+ * @param timeZone - The venue's IANA zone; blank or unknown zones use the device's zone
+ * @returns Milliseconds since the epoch
+ *
+ * @remarks
+ * The zone's offset is looked up at the guessed instant and checked again at the result, so times
+ * on either side of a daylight-saving change come out right.
+ */
+export function zonedTimeToMs(
+    wall: { year: number; month: number; day: number; hour: number; minute: number; second: number },
+    timeZone: string
+): number {
+    const { year, month, day, hour, minute, second } = wall;
+    if (!isValidTimeZone(timeZone)) return new Date(year, month - 1, day, hour, minute, second).getTime();
+
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+    let ms = asUtc - zoneOffsetMs(asUtc, timeZone);
+    const checked = zoneOffsetMs(ms, timeZone);
+    if (asUtc - checked !== ms) ms = asUtc - checked;
+    return ms;
+}
+
+/**
+ * Estimates how far the site's clock is ahead of the device's from an HTTP `Date` header.
+ * @param dateHeader - The response's `Date` header, if any
+ * @param sentMs - Device time the request was sent
+ * @param receivedMs - Device time the response arrived
+ * @returns Site minus device clock in milliseconds, or null without a usable header
+ *
+ * @remarks
+ * The header has one-second resolution and is truncated, so half a second is added; the device
+ * time is taken halfway through the request.
+ */
+export function clockOffsetFromDateHeader(dateHeader: string | null | undefined, sentMs: number, receivedMs: number) {
+    const siteMs = dateHeader ? Date.parse(dateHeader) : NaN;
+    if (!Number.isFinite(siteMs)) return null;
+    return siteMs + 500 - (sentMs + receivedMs) / 2;
+}
+
+/**
+ * Adds an offset sample and returns the offset to use.
+ * @param samples - Samples so far, oldest first
+ * @param sample - The new sample in milliseconds
+ * @returns The kept samples (at most {@link MAX_CLOCK_SAMPLES}) and their median
+ */
+export function addClockSample(samples: number[], sample: number) {
+    const kept = [...samples, sample].slice(-MAX_CLOCK_SAMPLES);
+    const sorted = [...kept].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    const offsetMs = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    return { samples: kept, offsetMs };
+}
+
+/**
+ * Describes a clock offset for the SAE status line.
+ * @param offsetMs - Site minus device clock in milliseconds, or null if unknown
+ * @returns Text like "site clock 1m 5s ahead of device", or an empty string if unknown
+ */
+export function describeClockOffset(offsetMs: number | null) {
+    if (offsetMs === null) return '';
+    const sec = Math.round(Math.abs(offsetMs) / 1000);
+    if (sec <= 2) return 'device clock matches site';
+    const amount = sec >= 60 ? `${Math.floor(sec / 60)}m ${sec % 60}s` : `${sec}s`;
+    return `site clock ${amount} ${offsetMs > 0 ? 'ahead of' : 'behind'} device`;
+}
@@ -0,0 +1,144 @@
+import type { LeaderboardRow, RunStatus } from '@/lib/leaderboard';
+
+/** Cars we scout, plus our own car number so rivals can be placed relative to it. */
+export type Watchlist = { cars: string[]; ourCarNo: string };
+
+/** A watched car's standing on one event's leaderboard, recorded when it changes. */
+export type WatchRecord = {
+    eventName: string;
+    carNo: string;
+    ts: string;
+    school: string;
+    /** Position of the car's best run, or null if it has none. */
+    position: number | null;
+    status: RunStatus;
+    /** Best `OK` time in seconds, or null if the car has no timed run yet. */
+    timeSec: number | null;
+    /** Rows the car has on the board (one per attempt on boards that list attempts). */
+    attempts: number;
+};
+
+/** Summary of one watched car on one event for the watchlist screen. */
+export type WatchSummary = {
+    carNo: string;
+    latest: WatchRecord | null;
+    bestTimeSec: number | null;
+    /** Positions over time, oldest first, without repeats. */
+    ranks: number[];
+    /** Places gained since the previous position (negative if dropped), or null until it has moved. */
+    rankChange: number | null;
+    /** Places between this car and ours (negative: ahead of us), or null if either has no position. */
+    vsOurCar: number | null;
+};
+
+export const DEFAULT_WATCHLIST: Watchlist = { cars: [], ourCarNo: '' };
+
+/** Records kept in the history; the oldest are dropped beyond this. */
+export const MAX_WATCH_HISTORY = 5000;
+
+/**
+ * Parses typed car numbers ("12, 42 7") into a list.
+ * @param text - Car numbers separated by commas or spaces
+ * @returns Distinct car numbers in the order entered
+ */
+export function parseCarList(text: string) {
+    return [...new Set(text.split(/[\s,]+/).filter((c) => /^\d{1,4}$/.test(c)))];
+}
+
+/**
+ * Picks the row that represents a car: its fastest `OK` run, otherwise its first row.
+ * @param rows - The parsed leaderboard
+ * @param carNo - The car to look up
+ * @returns The row, or null if the car isn't on the board
+ */
+export function bestRowFor(rows: LeaderboardRow[], carNo: string): LeaderboardRow | null {
+    const carRows = rows.filter((r) => r.carNo === carNo);
+    const timed = carRows.filter((r) => r.status === 'OK' && r.timeSec !== null);
+    if (timed.length > 0) return timed.reduce((a, b) => (b.timeSec! < a.timeSec! ? b : a));
+    return carRows[0] ?? null;
+}
+
+function sameStanding(a: WatchRecord, b: WatchRecord) {
+    return a.position === b.position && a.status === b.status && a.timeSec === b.timeSec && a.attempts === b.attempts;
+}
+
+/**
+ * Records where each watched car (and our car) stands after a leaderboard poll.
+ *
+ * @param history - Records so far, oldest first
+ * @param eventName - The event the leaderboard belongs to
+ * @param rows - The parsed leaderboard
+ * @param watchlist - The watched cars and our car number
+ * @param nowIso - Current timestamp in ISO format
+ * @returns The history with a record for every car whose standing changed since its last record
+ *          on this event (the same array if none did)
+ */
+export function recordWatchedResults(
+    history: WatchRecord[],
+    eventName: string,
+    rows: LeaderboardRow[],
+    watchlist: Watchlist,
+    nowIso: string
+): WatchRecord[] {
+    const cars = new Set([...watchlist.cars, watchlist.ourCarNo].filter(Boolean));
+    const additions: WatchRecord[] = [];
+
+    for (const carNo of cars) {
+        const row = bestRowFor(rows, carNo);
+        if (!row) continue;
+
+        const record: WatchRecord = {
+            eventName,
+            carNo,
+            ts: nowIso,
+            school: row.school,
+            position: row.position,
+            status: row.status,
+            timeSec: row.status === 'OK' ? row.timeSec : null,
+            attempts: rows.filter((r) => r.carNo === carNo).length,
+        };
+        const last = latestRecord(history, eventName, carNo);
+        if (!last || !sameStanding(last, record)) additions.push(record);
+    }
+
+    return additions.length > 0 ? [...history, ...additions].slice(-MAX_WATCH_HISTORY) : history;
+}
+
+function latestRecord(history: WatchRecord[], eventName: string, carNo: string) {
+    for (let i = history.length - 1; i >= 0; i--) {
+        if (history[i].eventName === eventName && history[i].carNo === carNo) return history[i];
+    }
+    return null;
+}
+
+/**
+ * Summarizes a watched car's results on one event.
+ * @param history - All watch records, oldest first
+ * @param eventName - The event to summarize
+ * @param carNo - The watched car
+ * @param ourCarNo - Our car number (blank if not set)
+ * @returns Best run, current standing, rank changes and position relative to our car
+ */
+export function summarizeWatchedCar(history: WatchRecord[], eventName: string, carNo: string, ourCarNo: string): WatchSummary {
+    const records = history.filter((r) => r.eventName === eventName && r.carNo === carNo);
+    const latest = records[records.length - 1] ?? null;
+
+    const times = records.map((r) => r.timeSec).filter((t): t is number => t !== null);
+    const ranks: number[] = [];
+    for (const r of records) {
+        if (r.position !== null && r.position !== ranks[ranks.length - 1]) ranks.push(r.position);
+    }
+
+    const ours = ourCarNo ? latestRecord(history, eventName, ourCarNo) : null;
+    const vsOurCar =
+        latest?.position != null && ours?.position != null && ours.carNo !== carNo ? latest.position - ours.position : null;
+
+    return {
+        carNo,
+        latest,
+        bestTimeSec: times.length > 0 ? Math.min(...times) : null,
+        ranks,
+        rankChange: ranks.length > 1 ? ranks[ranks.length - 2] - ranks[ranks.length - 1] : null,
+        vsOurCar,
+    };
+}
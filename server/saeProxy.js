@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+
+/**
+ * Caching CORS proxy for the SAE results leaderboard.
+ *
+ * Run it on a laptop in the pits and point web scouts at it:
+ *
+ *   npm run proxy
+ *   EXPO_PUBLIC_SAE_PROXY_BASE=http://<laptop-ip>:8787/Leaderboard.aspx?Event=
+ *
+ * Every scout's poll for an event is answered from one upstream fetch per TTL, so the results
+ * server sees a single client no matter how many phones are polling.
+ */
+
+const crypto = require("crypto");
+const express = require("express");
+
+const DEFAULT_UPSTREAM_BASE = "https://results.bajasae.net/Leaderboard.aspx?Event=";
+const DEFAULT_TTL_MS = 10 * 1000;
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+const DEFAULT_PORT = 8787;
+
+const EVENT_CODE_RE = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * Creates the proxy app.
+ *
+ * @param {object} [options]
+ * @param {string} [options.upstreamBase] - Leaderboard URL the event code is appended to
+ * @param {number} [options.ttlMs] - How long an upstream response is served from cache
+ * @param {number} [options.timeoutMs] - Upstream request timeout
+ * @param {() => number} [options.now] - Clock, for tests
+ * @returns {import("express").Express & { upstreamFetches: () => number }} The Express app
+ *
+ * @remarks
+ * - `GET /Leaderboard.aspx?Event=CODE` returns the upstream page with CORS headers and an ETag,
+ *   and answers `If-None-Match` with 304 when the page hasn't changed.
+ * - Concurrent requests for an event that isn't cached share one upstream fetch.
+ * - If the upstream fails, the last good page is served (marked `X-Cache: STALE`); without one the
+ *   proxy answers 502.
+ * - `Date` is the proxy's own clock, which the app uses to estimate its clock offset.
+ */
+function createSaeProxy(options = {}) {
+    const {
+        upstreamBase = DEFAULT_UPSTREAM_BASE,
+        ttlMs = DEFAULT_TTL_MS,
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+        now = Date.now,
+    } = options;
+
+    /** @type {Map<string, { body: string; contentType: string; etag: string; lastModified: string | null; fetchedAt: number }>} */
+    const cache = new Map();
+    /** @type {Map<string, Promise<void>>} */
+    const inflight = new Map();
+    let fetches = 0;
+
+    async function refresh(code) {
+        fetches++;
+        const res = await fetch(`${upstreamBase}${encodeURIComponent(code)}`, {
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+        if (!res.ok) throw new Error(`Upstream returned ${res.status}`);
+        const body = await res.text();
+        cache.set(code, {
+            body,
+            contentType: res.headers.get("content-type") || "text/html; charset=utf-8",
+            etag: `"${crypto.createHash("sha1").update(body).digest("hex").slice(0, 16)}"`,
+            lastModified: res.headers.get("last-modified"),
+            fetchedAt: now(),
+        });
+    }
+
+    function refreshOnce(code) {
+        let pending = inflight.get(code);
+        if (!pending) {
+            pending = refresh(code).finally(() => inflight.delete(code));
+            inflight.set(code, pending);
+        }
+        return pending;
+    }
+
+    const app = express();
+    app.disable("x-powered-by");
+
+    app.use((req, res, next) => {
+        res.set({
+            "Access-Control-Allow-Origin": "*",
+            "Access-Control-Allow-Methods": "GET, OPTIONS",
+            "Access-Control-Allow-Headers": "If-None-Match, If-Modified-Since",
+            "Access-Control-Expose-Headers": "Date, ETag, Last-Modified, X-Cache",
+        });
+        if (req.method === "OPTIONS") {
+            res.sendStatus(204);
+            return;
+        }
+        next();
+    });
+
+    app.get("/Leaderboard.aspx", async (req, res) => {
+        const code = typeof req.query.Event === "string" ? req.query.Event : "";
+        if (!EVENT_CODE_RE.test(code)) {
+            res.status(400).type("text/plain").send("Missing or invalid Event code");
+            return;
+        }
+
+        let cacheState = "HIT";
+        const cached = cache.get(code);
+        if (!cached || now() - cached.fetchedAt >= ttlMs) {
+            try {
+                await refreshOnce(code);
+                cacheState = "MISS";
+            } catch (e) {
+                if (!cached) {
+                    res.status(502).type("text/plain").send(`SAE upstream failed: ${e && e.message ? e.message : e}`);
+                    return;
+                }
+                cacheState = "STALE";
+            }
+        }
+
+        const entry = cache.get(code);
+        res.set({ "Cache-Control": "no-cache", ETag: entry.etag, "X-Cache": cacheState });
+        if (entry.lastModified) res.set("Last-Modified", entry.lastModified);
+
+        if (req.get("If-None-Match") === entry.etag) {
+            res.status(304).end();
+            return;
+        }
+        res.status(200).type(entry.contentType).send(entry.body);
+    });
+
+    app.use((req, res) => {
+        res.status(404).type("text/plain").send("Not found");
+    });
+
+    app.upstreamFetches = () => fetches;
+    return app;
+}
+
+module.exports = { createSaeProxy, DEFAULT_TTL_MS, DEFAULT_PORT };
+
+if (require.main === module) {
+    const port = Number(process.env.PORT) || DEFAULT_PORT;
+    const app = createSaeProxy({
+        upstreamBase: process.env.SAE_UPSTREAM_BASE || DEFAULT_UPSTREAM_BASE,
+        ttlMs: Number(process.env.SAE_PROXY_TTL_MS) || DEFAULT_TTL_MS,
+    });
+    app.listen(port, () => {
+        console.log(`SAE proxy listening on port ${port}`);
+        console.log(`Set EXPO_PUBLIC_SAE_PROXY_BASE=http://<this-machine>:${port}/Leaderboard.aspx?Event=`);
+    });
+}